@@ -7,9 +7,18 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { UsersModule } from './modules/users/users.module';
 import { TasksModule } from './modules/tasks/tasks.module';
 import { AuthModule } from './modules/auth/auth.module';
+import { RolesModule } from './modules/roles/roles.module';
+import { LabelsModule } from './modules/labels/labels.module';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { TaskTemplatesModule } from './modules/task-templates/task-templates.module';
 import { TaskProcessorModule } from './queues/task-processor/task-processor.module';
 import { ScheduledTasksModule } from './queues/scheduled-tasks/scheduled-tasks.module';
-import { CacheService } from './common/services/cache.service';
+import { RedisModule } from './common/redis/redis.module';
+import { RateLimitModule } from './common/rate-limit/rate-limit.module';
+import { CacheModule } from './common/cache/cache.module';
+import { StorageModule } from './common/storage/storage.module';
+import { TenancyModule } from './common/tenancy/tenancy.module';
 
 @Module({
   imports: [
@@ -50,6 +59,13 @@ import { CacheService } from './common/services/cache.service';
       }),
     }),
     
+    // Shared Redis connection, the limiter behind @RateLimit, the cache and attachment storage
+    RedisModule,
+    RateLimitModule,
+    CacheModule,
+    StorageModule,
+    TenancyModule,
+
     // Rate limiting
     ThrottlerModule.forRootAsync({
       imports: [ConfigModule],
@@ -66,20 +82,15 @@ import { CacheService } from './common/services/cache.service';
     UsersModule,
     TasksModule,
     AuthModule,
+    RolesModule,
+    LabelsModule,
+    ProjectsModule,
+    OrganizationsModule,
+    TaskTemplatesModule,
     
     // Queue processing modules
     TaskProcessorModule,
     ScheduledTasksModule,
   ],
-  providers: [
-    // Inefficient: Global cache service with no configuration options
-    // This creates a single in-memory cache instance shared across all modules
-    CacheService
-  ],
-  exports: [
-    // Exporting the cache service makes it available to other modules
-    // but creates tight coupling
-    CacheService
-  ]
 })
 export class AppModule {} 
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { CacheService } from './cache.service';
+import { CACHE_DRIVER } from './drivers/cache-driver.interface';
+import { RedisCacheDriver } from './drivers/redis-cache.driver';
+import { MemoryCacheDriver } from './drivers/memory-cache.driver';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: CACHE_DRIVER,
+      inject: [ConfigService, REDIS_CLIENT],
+      useFactory: (configService: ConfigService, redis: Redis) => {
+        if (configService.get('CACHE_DRIVER', 'redis') === 'memory') {
+          return new MemoryCacheDriver(
+            parseInt(configService.get('CACHE_MAX_ENTRIES', '1000'), 10),
+          );
+        }
+        return new RedisCacheDriver(redis);
+      },
+    },
+    CacheService,
+  ],
+  exports: [CacheService],
+})
+export class CacheModule {}
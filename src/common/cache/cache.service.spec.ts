@@ -0,0 +1,152 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { MemoryCacheDriver } from './drivers/memory-cache.driver';
+
+// Resolves when the test says so, to hold a loader mid-flight
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('CacheService', () => {
+  let driver: MemoryCacheDriver;
+  let cache: CacheService;
+
+  const createService = () => new CacheService(driver, new ConfigService({ CACHE_PREFIX: 'spec' }));
+
+  beforeEach(() => {
+    driver = new MemoryCacheDriver();
+    cache = createService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('namespaces keys with the configured prefix', async () => {
+    await cache.set('task:1', { id: '1' });
+
+    await expect(driver.get('spec:task:1')).resolves.toBe('{"id":"1"}');
+    await expect(cache.get('task:1')).resolves.toEqual({ id: '1' });
+  });
+
+  describe('wrap', () => {
+    it('returns a cached value without loading', async () => {
+      await cache.set('key', 'cached');
+      const loader = jest.fn(async () => 'loaded');
+
+      await expect(cache.wrap('key', loader)).resolves.toBe('cached');
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('loads and caches a miss', async () => {
+      const loader = jest.fn(async () => ({ total: 3 }));
+
+      await expect(cache.wrap('key', loader)).resolves.toEqual({ total: 3 });
+      await expect(cache.wrap('key', loader)).resolves.toEqual({ total: 3 });
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('caches falsy values but not null', async () => {
+      const loadFalse = jest.fn(async () => false);
+      const loadNull = jest.fn(async () => null);
+
+      await cache.wrap('false', loadFalse);
+      await cache.wrap('false', loadFalse);
+      await cache.wrap('null', loadNull);
+      await cache.wrap('null', loadNull);
+
+      expect(loadFalse).toHaveBeenCalledTimes(1);
+      expect(loadNull).toHaveBeenCalledTimes(2);
+    });
+
+    it('shares one in-flight load between concurrent misses', async () => {
+      const pending = deferred<string>();
+      const loader = jest.fn(() => pending.promise);
+
+      const first = cache.wrap('key', loader);
+      const second = cache.wrap('key', loader);
+      pending.resolve('loaded');
+
+      await expect(Promise.all([first, second])).resolves.toEqual(['loaded', 'loaded']);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('holds a lock while loading and releases it afterwards', async () => {
+      const pending = deferred<string>();
+      const load = cache.wrap('key', () => pending.promise);
+
+      await new Promise(resolve => setImmediate(resolve));
+      await expect(driver.get('spec:__lock:key')).resolves.toBe('1');
+
+      pending.resolve('loaded');
+      await load;
+      await expect(driver.get('spec:__lock:key')).resolves.toBeNull();
+    });
+
+    it("waits for another instance's load instead of repeating it", async () => {
+      const other = createService();
+      const pending = deferred<string>();
+      const otherLoad = other.wrap('key', () => pending.promise);
+      await new Promise(resolve => setImmediate(resolve));
+
+      const loader = jest.fn(async () => 'duplicate');
+      const load = cache.wrap('key', loader);
+      setTimeout(() => pending.resolve('loaded'), 20);
+
+      await expect(load).resolves.toBe('loaded');
+      await expect(otherLoad).resolves.toBe('loaded');
+      expect(loader).not.toHaveBeenCalled();
+    });
+
+    it('still loads when the lock cannot be taken', async () => {
+      jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      jest.spyOn(driver, 'setIfAbsent').mockRejectedValue(new Error('READONLY'));
+
+      await expect(cache.wrap('key', async () => 'loaded')).resolves.toBe('loaded');
+      expect(cache.getStats().errors).toBe(1);
+    });
+  });
+
+  describe('invalidateTags', () => {
+    it('drops every key stored under a tag and nothing else', async () => {
+      const loader = jest.fn(async () => 'page');
+      await cache.wrap('tasks:page:1', loader, 60, { tags: ['tasks'] });
+      await cache.set('tasks:page:2', 'page', 60, { tags: ['tasks', 'other'] });
+      await cache.set('users:page:1', 'page', 60, { tags: ['users'] });
+
+      await expect(cache.invalidateTags(['tasks'])).resolves.toBe(3);
+
+      await expect(cache.get('tasks:page:1')).resolves.toBeNull();
+      await expect(cache.get('tasks:page:2')).resolves.toBeNull();
+      await expect(cache.get('users:page:1')).resolves.toBe('page');
+
+      await cache.wrap('tasks:page:1', loader, 60, { tags: ['tasks'] });
+      expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('tags keys written with mset', async () => {
+      await cache.mset(
+        [
+          { key: 'a', value: 1 },
+          { key: 'b', value: 2 },
+        ],
+        { tags: ['letters'] },
+      );
+
+      await cache.invalidateTags(['letters']);
+
+      await expect(cache.mget(['a', 'b'])).resolves.toEqual([null, null]);
+    });
+  });
+
+  it('counts hits and misses', async () => {
+    await cache.set('key', 'value');
+    await cache.get('key');
+    await cache.get('missing');
+
+    expect(cache.getStats()).toMatchObject({ driver: 'memory', hits: 1, misses: 1, hitRate: 0.5 });
+  });
+});
@@ -0,0 +1,286 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_DRIVER } from './drivers/cache-driver.interface';
+import type { CacheDriver } from './drivers/cache-driver.interface';
+
+export interface CacheSetOptions {
+  // Tags let unrelated keys be invalidated together, e.g. every cached page of a listing
+  tags?: string[];
+}
+
+// How long a loader may hold the cross-instance lock, and how long others wait for its result
+const LOCK_TTL_MS = 5000;
+const LOCK_WAIT_MS = 2000;
+const LOCK_POLL_INTERVAL_MS = 50;
+
+export interface CacheStats {
+  driver: string;
+  hits: number;
+  misses: number;
+  sets: number;
+  deletes: number;
+  errors: number;
+  hitRate: number;
+}
+
+/**
+ * Namespaced JSON cache on top of a pluggable driver (Redis in deployed
+ * environments, bounded in-memory LRU in tests). Every key is prefixed the
+ * same way for reads and writes. Failures are logged and degrade to a cache
+ * miss rather than breaking the caller.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly namespace: string;
+  private readonly counters = { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0 };
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @Inject(CACHE_DRIVER)
+    private readonly driver: CacheDriver,
+    configService: ConfigService,
+  ) {
+    this.namespace = `${configService.get('CACHE_PREFIX', 'app')}:`;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.driver.get(this.toKey(key));
+      return this.deserialize<T>(raw);
+    } catch (error) {
+      this.handleError('get', key, error);
+      return null;
+    }
+  }
+
+  /**
+   * Read-through helper: returns the cached value or runs `loader` and caches
+   * its result. Concurrent misses for the same key share one load in this
+   * process, and a short lock keeps other instances waiting for that result
+   * instead of running the same query.
+   */
+  async wrap<T>(
+    key: string,
+    loader: () => Promise<T>,
+    ttlSeconds = 300,
+    options: CacheSetOptions = {},
+  ): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const load = this.loadWithLock(key, loader, ttlSeconds, options).finally(() =>
+      this.inFlight.delete(key),
+    );
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  async mget<T>(keys: string[]): Promise<(T | null)[]> {
+    try {
+      const raws = await this.driver.mget(keys.map(key => this.toKey(key)));
+      return raws.map(raw => this.deserialize<T>(raw));
+    } catch (error) {
+      this.handleError('mget', keys.join(','), error);
+      return keys.map(() => null);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      return (await this.driver.get(this.toKey(key))) !== null;
+    } catch (error) {
+      this.handleError('has', key, error);
+      return false;
+    }
+  }
+
+  async set(
+    key: string,
+    value: unknown,
+    ttlSeconds = 300,
+    options: CacheSetOptions = {},
+  ): Promise<void> {
+    try {
+      const ttlMs = this.toTtlMs(ttlSeconds);
+      const namespacedKey = this.toKey(key);
+
+      await this.driver.set(namespacedKey, JSON.stringify(value), ttlMs);
+      await this.tag(options.tags, [namespacedKey], ttlMs);
+      this.counters.sets++;
+    } catch (error) {
+      this.handleError('set', key, error);
+    }
+  }
+
+  async mset(
+    entries: { key: string; value: unknown; ttlSeconds?: number }[],
+    options: CacheSetOptions = {},
+  ): Promise<void> {
+    try {
+      const prepared = entries.map(({ key, value, ttlSeconds = 300 }) => ({
+        key: this.toKey(key),
+        value: JSON.stringify(value),
+        ttlMs: this.toTtlMs(ttlSeconds),
+      }));
+
+      await this.driver.mset(prepared);
+      await this.tag(
+        options.tags,
+        prepared.map(entry => entry.key),
+        Math.max(0, ...prepared.map(entry => entry.ttlMs)),
+      );
+      this.counters.sets += prepared.length;
+    } catch (error) {
+      this.handleError('mset', entries.map(entry => entry.key).join(','), error);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      const deleted = await this.driver.delete([this.toKey(key)]);
+      this.counters.deletes += deleted;
+      return deleted > 0;
+    } catch (error) {
+      this.handleError('delete', key, error);
+      return false;
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    try {
+      const deleted = await this.driver.deleteByPrefix(this.toKey(prefix));
+      this.counters.deletes += deleted;
+      return deleted;
+    } catch (error) {
+      this.handleError('deleteByPrefix', prefix, error);
+      return 0;
+    }
+  }
+
+  async invalidateTags(tags: string[]): Promise<number> {
+    try {
+      let deleted = 0;
+      for (const tag of tags) {
+        const tagKey = this.toTagKey(tag);
+        const keys = await this.driver.getSet(tagKey);
+        deleted += await this.driver.delete([...keys, tagKey]);
+      }
+      this.counters.deletes += deleted;
+      return deleted;
+    } catch (error) {
+      this.handleError('invalidateTags', tags.join(','), error);
+      return 0;
+    }
+  }
+
+  // Only removes this application's namespace, never the whole store
+  async clear(): Promise<void> {
+    try {
+      const deleted = await this.driver.deleteByPrefix(this.namespace);
+      this.logger.log(`Cache cleared. Removed ${deleted} items.`);
+    } catch (error) {
+      this.handleError('clear', this.namespace, error);
+    }
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      driver: this.driver.name,
+      ...this.counters,
+      hitRate: lookups ? this.counters.hits / lookups : 0,
+    };
+  }
+
+  private async loadWithLock<T>(
+    key: string,
+    loader: () => Promise<T>,
+    ttlSeconds: number,
+    options: CacheSetOptions,
+  ): Promise<T> {
+    const lockKey = this.toKey(`__lock:${key}`);
+    let locked = false;
+    let contended = false;
+
+    try {
+      locked = await this.driver.setIfAbsent(lockKey, '1', LOCK_TTL_MS);
+      contended = !locked;
+    } catch (error) {
+      // No coordination available; just load
+      this.handleError('lock', key, error);
+    }
+
+    if (contended) {
+      const waitUntil = Date.now() + LOCK_WAIT_MS;
+      while (Date.now() < waitUntil) {
+        await new Promise(resolve => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+        const raw = await this.driver.get(this.toKey(key)).catch(() => null);
+        if (raw !== null) {
+          return JSON.parse(raw) as T;
+        }
+      }
+      // The other loader is slow or gone; load anyway rather than fail
+    }
+
+    try {
+      const value = await loader();
+      if (value !== null && value !== undefined) {
+        await this.set(key, value, ttlSeconds, options);
+      }
+      return value;
+    } finally {
+      if (locked) {
+        await this.driver.delete([lockKey]).catch(() => 0);
+      }
+    }
+  }
+
+  private toKey(key: string): string {
+    if (!key || typeof key !== 'string') {
+      throw new Error(`Invalid cache key: "${key}"`);
+    }
+    return `${this.namespace}${key}`;
+  }
+
+  private toTagKey(tag: string): string {
+    return this.toKey(`__tag:${tag}`);
+  }
+
+  private toTtlMs(ttlSeconds: number): number {
+    if (typeof ttlSeconds !== 'number' || ttlSeconds <= 0) {
+      throw new Error(`Invalid TTL: "${ttlSeconds}"`);
+    }
+    return Math.ceil(ttlSeconds * 1000);
+  }
+
+  private async tag(tags: string[] | undefined, keys: string[], ttlMs: number) {
+    for (const tag of tags ?? []) {
+      await this.driver.addToSet(this.toTagKey(tag), keys, ttlMs);
+    }
+  }
+
+  private deserialize<T>(raw: string | null): T | null {
+    if (raw === null) {
+      this.counters.misses++;
+      return null;
+    }
+    this.counters.hits++;
+    return JSON.parse(raw) as T;
+  }
+
+  private handleError(operation: string, key: string, error: unknown) {
+    this.counters.errors++;
+    this.logger.error(
+      `CacheService.${operation} error for key "${key}"`,
+      error instanceof Error ? error.stack : String(error),
+    );
+  }
+}
@@ -0,0 +1,26 @@
+export const CACHE_DRIVER = 'CACHE_DRIVER';
+
+export interface CacheEntry {
+  key: string;
+  value: string;
+  ttlMs: number;
+}
+
+/**
+ * Storage backend for CacheService. Drivers deal in raw keys and serialized
+ * values; namespacing, (de)serialization and statistics live in the service.
+ */
+export interface CacheDriver {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  mget(keys: string[]): Promise<(string | null)[]>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  // Atomic "SET NX": false when the key already exists
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+  mset(entries: CacheEntry[]): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+  deleteByPrefix(prefix: string): Promise<number>;
+  // Set primitives used for tag bookkeeping; the set lives at least `ttlMs`
+  addToSet(key: string, members: string[], ttlMs: number): Promise<void>;
+  getSet(key: string): Promise<string[]>;
+}
@@ -0,0 +1,85 @@
+import { MemoryCacheDriver } from './memory-cache.driver';
+
+describe('MemoryCacheDriver', () => {
+  const TTL_MS = 60_000;
+  let driver: MemoryCacheDriver;
+
+  beforeEach(() => {
+    driver = new MemoryCacheDriver(3);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const fill = (...keys: string[]) =>
+    Promise.all(keys.map(key => driver.set(key, key.toUpperCase(), TTL_MS)));
+
+  describe('LRU eviction', () => {
+    it('evicts the least recently written entry past the limit', async () => {
+      await fill('a', 'b', 'c', 'd');
+
+      expect(driver.size).toBe(3);
+      await expect(driver.mget(['a', 'b', 'c', 'd'])).resolves.toEqual([null, 'B', 'C', 'D']);
+    });
+
+    it('counts a read as a use', async () => {
+      await fill('a', 'b', 'c');
+      await driver.get('a');
+      await fill('d');
+
+      await expect(driver.mget(['a', 'b'])).resolves.toEqual(['A', null]);
+    });
+
+    it('counts an overwrite as a use', async () => {
+      await fill('a', 'b', 'c');
+      await driver.set('a', 'A2', TTL_MS);
+      await fill('d');
+
+      await expect(driver.mget(['a', 'b'])).resolves.toEqual(['A2', null]);
+    });
+
+    it('evicts tag sets like any other entry', async () => {
+      await driver.addToSet('tag', ['a'], TTL_MS);
+      await fill('a', 'b', 'c');
+
+      await expect(driver.getSet('tag')).resolves.toEqual([]);
+    });
+  });
+
+  it('expires entries after their TTL', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await driver.set('a', 'A', 1000);
+
+    clock.mockReturnValue(now + 999);
+    await expect(driver.get('a')).resolves.toBe('A');
+
+    clock.mockReturnValue(now + 1000);
+    await expect(driver.get('a')).resolves.toBeNull();
+    expect(driver.size).toBe(0);
+  });
+
+  it('only sets absent keys with setIfAbsent', async () => {
+    await expect(driver.setIfAbsent('lock', '1', TTL_MS)).resolves.toBe(true);
+    await expect(driver.setIfAbsent('lock', '2', TTL_MS)).resolves.toBe(false);
+    await expect(driver.get('lock')).resolves.toBe('1');
+  });
+
+  it('keeps a set alive for the longest TTL it was extended with', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await driver.addToSet('tag', ['a'], 5000);
+    await driver.addToSet('tag', ['b', 'a'], 1000);
+
+    clock.mockReturnValue(now + 4000);
+    await expect(driver.getSet('tag')).resolves.toEqual(['a', 'b']);
+  });
+
+  it('deletes by prefix', async () => {
+    await fill('app:a', 'app:b', 'other:a');
+
+    await expect(driver.deleteByPrefix('app:')).resolves.toBe(2);
+    await expect(driver.get('other:a')).resolves.toBe('OTHER:A');
+  });
+});
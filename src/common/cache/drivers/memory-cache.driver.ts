@@ -0,0 +1,97 @@
+import { CacheDriver, CacheEntry } from './cache-driver.interface';
+
+interface MemoryEntry {
+  value: string | Set<string>;
+  expiresAt: number;
+}
+
+/**
+ * Bounded in-process LRU for tests and single-instance development.
+ * Map iteration order doubles as recency order: reads re-insert the entry
+ * at the end and evictions take from the front.
+ */
+export class MemoryCacheDriver implements CacheDriver {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = this.read(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.write(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key) !== null) {
+      return false;
+    }
+    this.write(key, { value, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async mset(entries: CacheEntry[]): Promise<void> {
+    entries.forEach(({ key, value, ttlMs }) =>
+      this.write(key, { value, expiresAt: Date.now() + ttlMs }),
+    );
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.filter(key => this.entries.delete(key)).length;
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    return this.delete([...this.entries.keys()].filter(key => key.startsWith(prefix)));
+  }
+
+  async addToSet(key: string, members: string[], ttlMs: number): Promise<void> {
+    const existing = this.read(key);
+    const set = existing instanceof Set ? existing : new Set<string>();
+    members.forEach(member => set.add(member));
+
+    const current = this.entries.get(key)?.expiresAt ?? 0;
+    this.write(key, { value: set, expiresAt: Math.max(current, Date.now() + ttlMs) });
+  }
+
+  async getSet(key: string): Promise<string[]> {
+    const value = this.read(key);
+    return value instanceof Set ? [...value] : [];
+  }
+
+  private read(key: string): string | Set<string> | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  private write(key: string, entry: MemoryEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import Redis from 'ioredis';
+import { CacheDriver, CacheEntry } from './cache-driver.interface';
+
+// Only ever extends a set's expiry, so a short-lived member can't cut it below a longer one
+const ADD_TO_SET_SCRIPT = `
+redis.call('SADD', KEYS[1], unpack(ARGV, 2))
+if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[1]) then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return 1
+`;
+
+const SCAN_BATCH_SIZE = 500;
+
+export class RedisCacheDriver implements CacheDriver {
+  readonly name = 'redis';
+
+  constructor(private readonly redis: Redis) {}
+
+  get(key: string): Promise<string | null> {
+    return this.redis.get(key);
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    return keys.length ? this.redis.mget(...keys) : [];
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.redis.set(key, value, 'PX', ttlMs);
+  }
+
+  async setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean> {
+    return (await this.redis.set(key, value, 'PX', ttlMs, 'NX')) === 'OK';
+  }
+
+  async mset(entries: CacheEntry[]): Promise<void> {
+    if (!entries.length) {
+      return;
+    }
+    const pipeline = this.redis.multi();
+    entries.forEach(({ key, value, ttlMs }) => pipeline.set(key, value, 'PX', ttlMs));
+    await pipeline.exec();
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.length ? this.redis.unlink(...keys) : 0;
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    let deleted = 0;
+
+    // SCAN rather than KEYS so a large keyspace doesn't block the server
+    do {
+      const [next, keys] = await this.redis.scan(
+        cursor,
+        'MATCH',
+        pattern,
+        'COUNT',
+        SCAN_BATCH_SIZE,
+      );
+      cursor = next;
+      deleted += await this.delete(keys);
+    } while (cursor !== '0');
+
+    return deleted;
+  }
+
+  async addToSet(key: string, members: string[], ttlMs: number): Promise<void> {
+    if (!members.length) {
+      return;
+    }
+    await this.redis.eval(ADD_TO_SET_SCRIPT, 1, key, ttlMs, ...members);
+  }
+
+  getSet(key: string): Promise<string[]> {
+    return this.redis.smembers(key);
+  }
+}
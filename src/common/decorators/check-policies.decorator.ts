@@ -0,0 +1,17 @@
+import { SetMetadata, Type } from '@nestjs/common';
+import { Request } from 'express';
+
+export const CHECK_POLICIES_KEY = 'check_policies';
+
+// Injectable policies are resolved from the container, so they can use services
+export interface PolicyHandler {
+  handle(request: Request): boolean | Promise<boolean>;
+}
+
+export type PolicyHandlerCallback = (request: Request) => boolean | Promise<boolean>;
+
+export type PolicyDefinition = Type<PolicyHandler> | PolicyHandlerCallback;
+
+// Every listed policy must pass; evaluated by PoliciesGuard after authentication
+export const CheckPolicies = (...handlers: PolicyDefinition[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers);
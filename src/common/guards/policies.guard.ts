@@ -0,0 +1,53 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Type,
+} from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import {
+  CHECK_POLICIES_KEY,
+  PolicyDefinition,
+  PolicyHandler,
+  PolicyHandlerCallback,
+} from '../decorators/check-policies.decorator';
+
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private moduleRef: ModuleRef,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policies =
+      this.reflector.getAllAndOverride<PolicyDefinition[]>(CHECK_POLICIES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
+    const request = context.switchToHttp().getRequest<Request>();
+
+    for (const policy of policies) {
+      if (!(await this.evaluate(policy, request))) {
+        // Same answer whether the resource is missing or someone else's
+        throw new ForbiddenException('You do not have permission to perform this action');
+      }
+    }
+
+    return true;
+  }
+
+  private evaluate(policy: PolicyDefinition, request: Request) {
+    if (this.isPolicyClass(policy)) {
+      return this.moduleRef.get(policy, { strict: false }).handle(request);
+    }
+    return (policy as PolicyHandlerCallback)(request);
+  }
+
+  private isPolicyClass(policy: PolicyDefinition): policy is Type<PolicyHandler> {
+    return typeof policy.prototype?.handle === 'function';
+  }
+}
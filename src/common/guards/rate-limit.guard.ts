@@ -1,89 +1,73 @@
-import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Observable } from 'rxjs';
-import { CacheService } from '../../common/services/cache.service';
+import { Request, Response } from 'express';
+import { RATE_LIMIT_KEY, RateLimitOptions } from '../decorators/rate-limit.decorator';
+import { RateLimiterService } from '../rate-limit/rate-limiter.service';
 import * as crypto from 'crypto';
 
-// Inefficient in-memory storage for rate limiting
-// Problems:
-// 1. Not distributed - breaks in multi-instance deployments ✅
-// 2. Memory leak - no cleanup mechanism for old entries ✅
-// 3. No persistence - resets on application restart ✅
-// 4. Inefficient data structure for lookups in large datasets  ✅
-// 5. No concurrency control - multiple requests can bypass the limit ✅
-const requestRecords: Record<string, { count: number, timestamp: number }[]> = {};
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { limit: 100, windowMs: 60 * 1000 };
 
 @Injectable()
 export class RateLimitGuard implements CanActivate {
-  constructor(private reflector: Reflector,
-    private cacheService: CacheService,
+  constructor(
+    private reflector: Reflector,
+    private rateLimiter: RateLimiterService,
   ) {}
 
-   canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
-    const request = context.switchToHttp().getRequest();
-    const ip = request.ip || request.connection?.remoteAddress;
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    // Handler-level @RateLimit wins over the controller-level one
+    const options =
+      this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? DEFAULT_RATE_LIMIT;
 
-    // Hash the IP address instead of storing raw IP (privacy)
-    const hashedIp = crypto.createHash('sha256').update(ip).digest('hex');
-    return this.handleRateLimit(hashedIp);
-  }
-
-  // -------- previous method kept, but logic fixed inside ----------
-  private async handleRateLimit(ip: string): Promise<boolean> {
-    const windowMs = 60 * 1000; // 1 min
-    const maxRequests = 100;
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
 
-    const key = `rateLimit:${ip}`;
-    const now = Date.now();
-
-    // lookup from cache so it supports multi-instances
-    let record = await this.cacheService.get<{ count: number; expiresAt: number }>(
-      key,
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+    const result = await this.rateLimiter.hit(
+      `${route}:${this.resolveIdentity(request)}`,
+      options.limit,
+      options.windowMs,
     );
 
-    if (!record) {
-      // first time this IP hits
-      record = { count: 1, expiresAt: now + windowMs };
-      await this.cacheService.set(key, record, windowMs / 1000);
-      requestRecords[ip] = [record as any];
-      return true;
-    }
-
-    // time-window expired
-    if (record.expiresAt < now) {
-      const reset = { count: 1, expiresAt: now + windowMs };
-      await this.cacheService.set(key, reset, windowMs / 1000);
-      requestRecords[ip] = [reset as any];
-      return true;
-    }
+    response.setHeader('X-RateLimit-Limit', result.limit);
+    response.setHeader('X-RateLimit-Remaining', result.remaining);
+    response.setHeader('X-RateLimit-Reset', Math.ceil(result.resetAt / 1000));
 
-    // block if exceeded
-    if (record.count >= maxRequests) {
+    if (!result.allowed) {
+      response.setHeader(
+        'Retry-After',
+        Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000)),
+      );
       throw new HttpException(
         'Too many requests. Please try again later.',
         HttpStatus.TOO_MANY_REQUESTS,
       );
     }
 
-    // increment and save
-    record.count += 1;
-    await this.cacheService.set(key, record, (record.expiresAt - now) / 1000);
-    requestRecords[ip] = [record as any];
-
     return true;
   }
-}
 
-// Decorator (now actually uses options to store metadata for each route)
-export const RateLimit = (limit: number, windowMs: number) => {
-  return (target: any, key?: string, descriptor?: any) => {
-    Reflect.defineMetadata(
-      'rate_limit_options',
-      { limit, windowMs },
-      descriptor.value,
-    );
-    return descriptor;
-  };
-};
\ No newline at end of file
+  // Authenticated callers get their own bucket; anonymous ones share one per (hashed) IP
+  private resolveIdentity(request: Request): string {
+    const user = request.user as { id?: string; personalAccessTokenId?: string } | undefined;
+
+    if (user?.personalAccessTokenId) {
+      return `token:${user.personalAccessTokenId}`;
+    }
+    if (user?.id) {
+      return `user:${user.id}`;
+    }
+
+    const ip = request.ip || request.socket?.remoteAddress || 'unknown';
+    return `ip:${crypto.createHash('sha256').update(ip).digest('hex')}`;
+  }
+}
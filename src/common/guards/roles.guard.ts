@@ -11,13 +11,14 @@ export class RolesGuard implements CanActivate {
       context.getHandler(),
       context.getClass(),
     ]);
-    
+
     if (!requiredRoles) {
       return true;
     }
-    
+
     const { user } = context.switchToHttp().getRequest();
-    
-    return requiredRoles.includes(user.role);
+
+    // Role names come from the token, so the admin MFA policy has already been applied to them
+    return !!user?.roles?.some((role: string) => requiredRoles.includes(role));
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,151 @@
+import { Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { RateLimiterService } from './rate-limiter.service';
+
+const NOW = 1_700_000_000_000;
+const WINDOW_MS = 60_000;
+
+describe('RateLimiterService', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('with a stubbed client', () => {
+    const createService = (evalResult: () => Promise<unknown>) => {
+      const redis = { eval: jest.fn(evalResult) };
+      return { redis, service: new RateLimiterService(redis as unknown as Redis) };
+    };
+
+    it('runs the script on the namespaced key with the window and limit', async () => {
+      const { redis, service } = createService(async () => [1, 1, NOW + WINDOW_MS]);
+
+      await service.hit('login:ip:abc', 5, WINDOW_MS);
+      await service.hit('login:ip:abc', 5, WINDOW_MS);
+
+      const [first, second] = redis.eval.mock.calls as unknown as unknown[][];
+      expect(first.slice(1, 6)).toEqual([1, 'rateLimit:login:ip:abc', NOW, WINDOW_MS, 5]);
+      // Requests in the same millisecond still get their own sorted-set member
+      expect(first[6]).toMatch(new RegExp(`^${NOW}-[0-9a-f]{8}$`));
+      expect(second[6]).not.toBe(first[6]);
+    });
+
+    it('maps the script result', async () => {
+      const { service } = createService(async () => [1, 3, NOW + 1000]);
+
+      await expect(service.hit('key', 5, WINDOW_MS)).resolves.toEqual({
+        allowed: true,
+        limit: 5,
+        remaining: 2,
+        resetAt: NOW + 1000,
+      });
+    });
+
+    it('reports a rejected request with nothing remaining', async () => {
+      const { service } = createService(async () => [0, 5, NOW + 1000]);
+
+      await expect(service.hit('key', 5, WINDOW_MS)).resolves.toMatchObject({
+        allowed: false,
+        remaining: 0,
+      });
+    });
+
+    it('fails open when Redis is unavailable', async () => {
+      const log = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      const { service } = createService(async () => {
+        throw new Error('Connection is closed.');
+      });
+
+      await expect(service.hit('key', 5, WINDOW_MS)).resolves.toEqual({
+        allowed: true,
+        limit: 5,
+        remaining: 5,
+        resetAt: NOW + WINDOW_MS,
+      });
+      expect(log).toHaveBeenCalledWith(
+        'Rate limiter unavailable for key "key"',
+        expect.any(String),
+      );
+    });
+  });
+
+  // Runs the Lua script itself; needs a disposable Redis, e.g. REDIS_TEST_URL=redis://localhost:6379/15
+  const describeWithRedis = process.env.REDIS_TEST_URL ? describe : describe.skip;
+
+  describeWithRedis('sliding window script', () => {
+    let redis: Redis;
+    let service: RateLimiterService;
+    let key: string;
+
+    const at = (time: number) => jest.spyOn(Date, 'now').mockReturnValue(time);
+
+    beforeAll(() => {
+      redis = new Redis(process.env.REDIS_TEST_URL as string);
+    });
+
+    afterAll(async () => {
+      await redis.quit();
+    });
+
+    beforeEach(() => {
+      service = new RateLimiterService(redis);
+      key = `spec:${Math.random().toString(36).slice(2)}`;
+    });
+
+    afterEach(async () => {
+      await redis.del(`rateLimit:${key}`);
+    });
+
+    it('allows up to the limit within the window', async () => {
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        at(NOW + i);
+        results.push(await service.hit(key, 3, WINDOW_MS));
+      }
+
+      expect(results.map(result => [result.allowed, result.remaining])).toEqual([
+        [true, 2],
+        [true, 1],
+        [true, 0],
+        [false, 0],
+      ]);
+      // Resets when the oldest counted request leaves the window
+      expect(results[3].resetAt).toBe(NOW + WINDOW_MS);
+    });
+
+    it('does not count rejected requests', async () => {
+      at(NOW);
+      await service.hit(key, 1, WINDOW_MS);
+      await service.hit(key, 1, WINDOW_MS);
+      await service.hit(key, 1, WINDOW_MS);
+
+      await expect(redis.zcard(`rateLimit:${key}`)).resolves.toBe(1);
+    });
+
+    it('admits requests again as old ones slide out of the window', async () => {
+      at(NOW);
+      await service.hit(key, 2, WINDOW_MS);
+      at(NOW + 30_000);
+      await service.hit(key, 2, WINDOW_MS);
+      at(NOW + 59_999);
+      expect((await service.hit(key, 2, WINDOW_MS)).allowed).toBe(false);
+
+      at(NOW + WINDOW_MS);
+      const result = await service.hit(key, 2, WINDOW_MS);
+      expect(result).toMatchObject({ allowed: true, remaining: 0 });
+      expect(result.resetAt).toBe(NOW + 30_000 + WINDOW_MS);
+    });
+
+    it('expires the key after the window', async () => {
+      at(NOW);
+      await service.hit(key, 2, WINDOW_MS);
+
+      const ttl = await redis.pttl(`rateLimit:${key}`);
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(WINDOW_MS);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../redis/redis.constants';
+import * as crypto from 'crypto';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds at which the oldest counted request leaves the window
+  resetAt: number;
+}
+
+// Sliding-window log: one sorted-set member per request, scored by its timestamp.
+// Runs as a single script so concurrent replicas can't both slip past the limit.
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local count = redis.call('ZCARD', key)
+local allowed = 0
+
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  count = count + 1
+  allowed = 1
+end
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+local resetAt = now + window
+if oldest[2] then
+  resetAt = tonumber(oldest[2]) + window
+end
+
+return { allowed, count, resetAt }
+`;
+
+@Injectable()
+export class RateLimiterService {
+  private readonly logger = new Logger(RateLimiterService.name);
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  async hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+    const now = Date.now();
+
+    try {
+      const [allowed, count, resetAt] = (await this.redis.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `rateLimit:${key}`,
+        now,
+        windowMs,
+        limit,
+        `${now}-${crypto.randomBytes(4).toString('hex')}`,
+      )) as [number, number, number];
+
+      return {
+        allowed: allowed === 1,
+        limit,
+        remaining: Math.max(0, limit - count),
+        resetAt,
+      };
+    } catch (error) {
+      // Fail open: an unavailable limiter shouldn't take the API down with it
+      this.logger.error(
+        `Rate limiter unavailable for key "${key}"`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return { allowed: true, limit, remaining: limit, resetAt: now + windowMs };
+    }
+  }
+}
@@ -0,0 +1 @@
+export const REDIS_CLIENT = 'REDIS_CLIENT';
@@ -0,0 +1,45 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Keeps blobs as files below a root directory, for development and single-instance setups.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const file = this.resolve(key);
+    try {
+      await fs.access(file);
+    } catch {
+      return null;
+    }
+    return createReadStream(file);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(key => fs.rm(this.resolve(key), { force: true })));
+  }
+
+  // Keys never leave the root directory, whatever they contain
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,165 @@
+import * as crypto from 'crypto';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { StorageDriver } from './storage-driver.interface';
+
+export interface S3StorageOptions {
+  // e.g. https://s3.eu-central-1.amazonaws.com, or http://localhost:9000 for MinIO
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Bucket in the path rather than the host name, as MinIO and most stand-ins expect
+  forcePathStyle: boolean;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Talks to any S3-compatible service over its REST API, signing requests with AWS Signature
+ * Version 4.
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  constructor(private readonly options: S3StorageOptions) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const payloadHash = crypto.createHash('sha256').update(body).digest('hex');
+    const response = await this.send('PUT', key, payloadHash, body, {
+      'content-type': contentType,
+    });
+    await this.assertOk(response, 'PUT', key);
+  }
+
+  async get(key: string): Promise<Readable | null> {
+    const response = await this.send('GET', key, EMPTY_PAYLOAD_HASH);
+    if (response.status === 404) {
+      return null;
+    }
+    await this.assertOk(response, 'GET', key);
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    // DELETE succeeds for missing objects as well
+    for (const key of keys) {
+      const response = await this.send('DELETE', key, EMPTY_PAYLOAD_HASH);
+      await this.assertOk(response, 'DELETE', key);
+    }
+  }
+
+  private async send(
+    method: string,
+    key: string,
+    payloadHash: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+  ): Promise<Response> {
+    const request: SignableRequest = {
+      method,
+      url: this.objectUrl(key),
+      headers: {
+        ...extraHeaders,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': toAmzDate(new Date()),
+      },
+      payloadHash,
+    };
+    const authorization = signRequest(request, this.options);
+
+    return fetch(request.url, {
+      method,
+      headers: { ...request.headers, authorization },
+      body,
+    });
+  }
+
+  private objectUrl(key: string): URL {
+    const url = new URL(this.options.endpoint);
+    const path = key.split('/').map(encodeRfc3986).join('/');
+
+    if (this.options.forcePathStyle) {
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/${this.options.bucket}/${path}`;
+    } else {
+      url.hostname = `${this.options.bucket}.${url.hostname}`;
+      url.pathname = `${url.pathname.replace(/\/$/, '')}/${path}`;
+    }
+    return url;
+  }
+
+  private async assertOk(response: Response, method: string, key: string) {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`S3 ${method} ${key} failed with ${response.status}: ${detail}`);
+    }
+  }
+}
+
+/**
+ * The Authorization header for a request; the headers must already include x-amz-date and
+ * x-amz-content-sha256. Every given header is signed, plus the host.
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: Pick<S3StorageOptions, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+): string {
+  const amzDate = request.headers['x-amz-date'];
+  const scope = `${amzDate.slice(0, 8)}/${credentials.region}/s3/aws4_request`;
+
+  const headers = Object.entries({ ...request.headers, host: request.url.host })
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  const signedHeaders = headers.map(([name]) => name).join(';');
+  const query = [...request.url.searchParams.entries()]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    query,
+    headers.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    crypto.createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  const signingKey = [amzDate.slice(0, 8), credentials.region, 's3', 'aws4_request'].reduce<
+    Buffer | string
+  >(
+    (key, part) => crypto.createHmac('sha256', key).update(part).digest(),
+    `AWS4${credentials.secretAccessKey}`,
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+function toAmzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
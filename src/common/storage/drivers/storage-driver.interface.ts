@@ -0,0 +1,16 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Blob store for uploaded files. Keys are '/'-separated paths chosen by the caller; drivers
+ * don't interpret them beyond mapping them onto their backend.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<Readable | null>;
+  // Missing keys are ignored
+  delete(keys: string[]): Promise<void>;
+}
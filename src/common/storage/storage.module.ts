@@ -0,0 +1,30 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { STORAGE_DRIVER } from './drivers/storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        if (configService.get('STORAGE_DRIVER', 'local') === 's3') {
+          return new S3StorageDriver({
+            endpoint: configService.get('S3_ENDPOINT', 'https://s3.amazonaws.com'),
+            region: configService.get('S3_REGION', 'us-east-1'),
+            bucket: configService.getOrThrow('S3_BUCKET'),
+            accessKeyId: configService.getOrThrow('S3_ACCESS_KEY_ID'),
+            secretAccessKey: configService.getOrThrow('S3_SECRET_ACCESS_KEY'),
+            forcePathStyle: configService.get('S3_FORCE_PATH_STYLE') === 'true',
+          });
+        }
+        return new LocalStorageDriver(configService.get('STORAGE_LOCAL_DIR', './uploads'));
+      },
+    },
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}
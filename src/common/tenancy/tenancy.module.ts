@@ -0,0 +1,14 @@
+import { Global, MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { TenantContext } from './tenant-context.service';
+import { TenantMiddleware } from './tenant.middleware';
+
+@Global()
+@Module({
+  providers: [TenantContext],
+  exports: [TenantContext],
+})
+export class TenancyModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(TenantMiddleware).forRoutes('*');
+  }
+}
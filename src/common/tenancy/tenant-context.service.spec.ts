@@ -0,0 +1,95 @@
+import { TenantContext } from './tenant-context.service';
+
+describe('TenantContext', () => {
+  const tenantContext = new TenantContext();
+
+  const inRequest = <T>(tenantId: string | undefined, callback: () => T) =>
+    tenantContext.run(() => {
+      if (tenantId) {
+        tenantContext.setTenantId(tenantId);
+      }
+      return callback();
+    });
+
+  it('scopes find conditions to the tenant', () => {
+    expect(inRequest('org-a', () => tenantContext.scope({ id: 'task-1' }))).toEqual({
+      id: 'task-1',
+      organizationId: 'org-a',
+    });
+  });
+
+  it('scopes query builders to the tenant', () => {
+    const query = { andWhere: jest.fn() };
+
+    inRequest('org-a', () => tenantContext.scopeQuery(query as never, 'task.organizationId'));
+
+    expect(query.andWhere).toHaveBeenCalledWith('task.organizationId = :tenantId', {
+      tenantId: 'org-a',
+    });
+  });
+
+  it.each([
+    [
+      'a request before authentication',
+      (callback: () => unknown) => inRequest(undefined, callback),
+    ],
+    ['code outside any request', (callback: () => unknown) => callback()],
+  ])('refuses to scope in %s', (_name, within) => {
+    const query = { andWhere: jest.fn() };
+
+    expect(() => within(() => tenantContext.scope({ id: 'task-1' }))).toThrow(
+      'No organization in the tenant context',
+    );
+    expect(() => within(() => tenantContext.scopeQuery(query as never, 'organization_id'))).toThrow(
+      'No organization in the tenant context',
+    );
+    expect(() => within(() => tenantContext.inScope('org-a'))).toThrow(
+      'No organization in the tenant context',
+    );
+    expect(query.andWhere).not.toHaveBeenCalled();
+  });
+
+  it('leaves queries unscoped only inside runUnscoped', () => {
+    const query = { andWhere: jest.fn() };
+
+    tenantContext.runUnscoped(() => {
+      expect(tenantContext.scope({ id: 'task-1' })).toEqual({ id: 'task-1' });
+      expect(tenantContext.inScope('org-b')).toBe(true);
+      tenantContext.scopeQuery(query as never, 'organization_id');
+    });
+
+    expect(query.andWhere).not.toHaveBeenCalled();
+  });
+
+  it('scopes again once an unscoped lookup names the tenant', () => {
+    tenantContext.runUnscoped(() => {
+      tenantContext.setTenantId('org-a');
+
+      expect(tenantContext.inScope('org-b')).toBe(false);
+      expect(tenantContext.scope({})).toEqual({ organizationId: 'org-a' });
+    });
+  });
+
+  it('does not leak an unscoped lookup into the surrounding request', () => {
+    inRequest(undefined, () => {
+      tenantContext.runUnscoped(() => tenantContext.scope({}));
+
+      expect(() => tenantContext.scope({})).toThrow('No organization in the tenant context');
+    });
+  });
+
+  it('keeps concurrent requests apart', async () => {
+    const tick = () => new Promise(resolve => setImmediate(resolve));
+
+    const results = await Promise.all(
+      ['org-a', 'org-b'].map(tenantId =>
+        inRequest(tenantId, async () => {
+          await tick();
+          return tenantContext.getTenantId();
+        }),
+      ),
+    );
+
+    expect(results).toEqual(['org-a', 'org-b']);
+  });
+});
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { WhereExpressionBuilder } from 'typeorm';
+
+interface TenantStore {
+  tenantId?: string;
+  // Set by runUnscoped(): queries may span organizations
+  unscoped?: boolean;
+}
+
+/**
+ * Holds the organization of the current request. TenantMiddleware opens an empty store per
+ * request and authentication fills in the tenant, so everything downstream (guards, handlers,
+ * services) sees it. Scoping fails closed: a scoped query without a tenant throws, unless the
+ * work opted out with runUnscoped(), as queue jobs and cron runs do.
+ */
+@Injectable()
+export class TenantContext {
+  private readonly storage = new AsyncLocalStorage<TenantStore>();
+
+  run<T>(callback: () => T): T {
+    return this.storage.run({}, callback);
+  }
+
+  // For work that isn't on behalf of one organization, or has to find out which one it is
+  runUnscoped<T>(callback: () => T): T {
+    return this.storage.run({ unscoped: true }, callback);
+  }
+
+  getTenantId(): string | undefined {
+    return this.storage.getStore()?.tenantId;
+  }
+
+  setTenantId(tenantId: string) {
+    const store = this.storage.getStore();
+    if (!store) {
+      throw new Error('Tenant context is not active for this request');
+    }
+    store.tenantId = tenantId;
+  }
+
+  // Adds the tenant to a find condition; left as is only inside runUnscoped()
+  scope<T extends object>(where: T): T {
+    const tenantId = this.requireTenantId();
+    return tenantId ? { ...where, organizationId: tenantId } : where;
+  }
+
+  // Query builder counterpart of scope(); column is the tenant column as the query names it
+  scopeQuery<Q extends WhereExpressionBuilder>(query: Q, column: string): Q {
+    const tenantId = this.requireTenantId();
+    if (tenantId) {
+      query.andWhere(`${column} = :tenantId`, { tenantId });
+    }
+    return query;
+  }
+
+  // For rows loaded without scope() (e.g. from the shared cache): whether they're visible here
+  inScope(organizationId: string): boolean {
+    const tenantId = this.requireTenantId();
+    return !tenantId || organizationId === tenantId;
+  }
+
+  private requireTenantId(): string | undefined {
+    const store = this.storage.getStore();
+    if (store?.tenantId) {
+      return store.tenantId;
+    }
+    if (store?.unscoped) {
+      return undefined;
+    }
+    throw new Error(
+      'No organization in the tenant context; use runUnscoped() for cross-tenant work',
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { Repository } from 'typeorm';
+import { TenantContext } from './tenant-context.service';
+import { CacheService } from '../cache/cache.service';
+import { MemoryCacheDriver } from '../cache/drivers/memory-cache.driver';
+import { TasksService } from '@modules/tasks/tasks.service';
+import { TaskActivityService } from '@modules/tasks/task-activity.service';
+import { Task } from '@modules/tasks/entities/task.entity';
+import { TaskStatus } from '@modules/tasks/enums/task-status.enum';
+import { UsersService } from '@modules/users/users.service';
+import { User } from '@modules/users/entities/user.entity';
+import { RolesService } from '@modules/roles/roles.service';
+
+type Row = { id: string; organizationId: string };
+
+/**
+ * Rows of two organizations behind the subset of the repository API the services use. Only
+ * plain equality conditions and the tenant condition of scopeQuery() filter rows, so anything
+ * from another organization that comes back was not scoped by the service.
+ */
+function createTable<T extends Row>(rows: T[]) {
+  const matches = (row: T, where: Record<string, unknown> = {}) =>
+    Object.entries(where).every(
+      ([key, value]) =>
+        (typeof value === 'object' && value !== null) || row[key as keyof T] === value,
+    );
+
+  const createQueryBuilder = () => {
+    let tenantId: string | undefined;
+    const query = {
+      leftJoinAndSelect: () => query,
+      orderBy: () => query,
+      skip: () => query,
+      take: () => query,
+      andWhere: (condition: string, parameters?: { tenantId?: string }) => {
+        if (/organizationId = :tenantId$/.test(condition)) {
+          tenantId = parameters?.tenantId;
+        }
+        return query;
+      },
+      getManyAndCount: async () => {
+        const found = rows.filter(row => !tenantId || row.organizationId === tenantId);
+        return [found, found.length];
+      },
+    };
+    return query;
+  };
+
+  const repository = {
+    findOne: async ({ where }: { where: Record<string, unknown> }) =>
+      rows.find(row => matches(row, where)) ?? null,
+    findAndCount: async ({ where }: { where: Record<string, unknown> }) => {
+      const found = rows.filter(row => matches(row, where));
+      return [found, found.length];
+    },
+    merge: (row: T, fields: Partial<T>) => Object.assign(row, fields),
+    save: async (row: T) => row,
+    createQueryBuilder,
+  };
+  return { rows, repository };
+}
+
+describe('Tenant isolation', () => {
+  const tenantContext = new TenantContext();
+
+  const taskOf = (id: string, organizationId: string): Task =>
+    Object.assign(new Task(), {
+      id,
+      organizationId,
+      title: `Task of ${organizationId}`,
+      status: TaskStatus.PENDING,
+      userId: `user-${organizationId}`,
+      parentId: null,
+      labels: [],
+      version: 1,
+    });
+  const userOf = (id: string, organizationId: string): User =>
+    Object.assign(new User(), {
+      id,
+      organizationId,
+      email: `${id}@example.com`,
+      name: id,
+      roles: [],
+    });
+
+  let tasks: ReturnType<typeof createTable<Task>>;
+  let users: ReturnType<typeof createTable<User>>;
+  let tasksService: TasksService;
+  let usersService: UsersService;
+
+  const asOrganization = <T>(organizationId: string, callback: () => Promise<T>) =>
+    tenantContext.run(() => {
+      tenantContext.setTenantId(organizationId);
+      return callback();
+    });
+
+  beforeEach(() => {
+    // Lookups of another organization's rows log the NotFoundException they end in
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    tasks = createTable([taskOf('task-a', 'org-a'), taskOf('task-b', 'org-b')]);
+    users = createTable([userOf('user-a', 'org-a'), userOf('user-b', 'org-b')]);
+
+    const manager = {
+      transaction: <T>(work: (manager: unknown) => Promise<T>) => work(manager),
+      findOne: (_entity: unknown, options: { where: Record<string, unknown> }) =>
+        tasks.repository.findOne(options),
+      find: async () => [],
+      merge: (_entity: unknown, row: Task, fields: Partial<Task>) => Object.assign(row, fields),
+      save: async (row: Task) => row,
+    };
+    const configService = new ConfigService({ CACHE_PREFIX: 'spec' });
+
+    tasksService = new TasksService(
+      { ...tasks.repository, manager } as unknown as Repository<Task>,
+      { add: jest.fn() } as unknown as Queue,
+      new CacheService(new MemoryCacheDriver(), configService),
+      configService,
+      tenantContext,
+      { record: jest.fn() } as unknown as TaskActivityService,
+    );
+    usersService = new UsersService(
+      users.repository as unknown as Repository<User>,
+      {} as RolesService,
+      tenantContext,
+      tasksService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('tasks', () => {
+    it("reads the organization's own task but not another's", async () => {
+      await expect(asOrganization('org-a', () => tasksService.findOne('task-a'))).resolves.toBe(
+        tasks.rows[0],
+      );
+      await expect(
+        asOrganization('org-a', () => tasksService.findOne('task-b')),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it("doesn't serve another organization's task from the shared cache", async () => {
+      await asOrganization('org-b', () => tasksService.findOne('task-b'));
+
+      await expect(
+        asOrganization('org-a', () => tasksService.findOne('task-b')),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it("updates the organization's own task but not another's", async () => {
+      await expect(
+        asOrganization('org-a', () => tasksService.update('task-a', { title: 'Renamed' })),
+      ).resolves.toMatchObject({ id: 'task-a', title: 'Renamed' });
+
+      await expect(
+        asOrganization('org-a', () => tasksService.update('task-b', { title: 'Hijacked' })),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(tasks.rows[1].title).toBe('Task of org-b');
+    });
+
+    it("lists only the organization's tasks", async () => {
+      const list = await asOrganization('org-a', () => tasksService.findAll({}));
+
+      expect(list.data.map(task => task.id)).toEqual(['task-a']);
+    });
+
+    it('keeps cached lists per organization', async () => {
+      await asOrganization('org-a', () => tasksService.findAll({}));
+      const list = await asOrganization('org-b', () => tasksService.findAll({}));
+
+      expect(list.data.map(task => task.id)).toEqual(['task-b']);
+    });
+  });
+
+  describe('users', () => {
+    it("reads the organization's own user but not another's", async () => {
+      await expect(asOrganization('org-a', () => usersService.findOne('user-a'))).resolves.toBe(
+        users.rows[0],
+      );
+      await expect(
+        asOrganization('org-a', () => usersService.findOne('user-b')),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it("updates the organization's own user but not another's", async () => {
+      await expect(
+        asOrganization('org-a', () => usersService.update('user-a', { name: 'Renamed' }, [])),
+      ).resolves.toMatchObject({ id: 'user-a', name: 'Renamed' });
+
+      await expect(
+        asOrganization('org-a', () => usersService.update('user-b', { name: 'Hijacked' }, [])),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(users.rows[1].name).toBe('user-b');
+    });
+
+    it("lists only the organization's users", async () => {
+      const list = await asOrganization('org-a', () => usersService.findAll({}));
+
+      expect(list.data.map(user => user.id)).toEqual(['user-a']);
+    });
+  });
+
+  it('refuses to query without an organization', async () => {
+    await expect(tenantContext.run(() => usersService.findOne('user-a'))).rejects.toThrow(
+      'No organization in the tenant context',
+    );
+    await expect(tenantContext.run(() => tasksService.findAll({}))).rejects.toThrow(
+      'No organization in the tenant context',
+    );
+  });
+});
@@ -0,0 +1,12 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { TenantContext } from './tenant-context.service';
+
+@Injectable()
+export class TenantMiddleware implements NestMiddleware {
+  constructor(private readonly tenantContext: TenantContext) {}
+
+  use(_req: Request, _res: Response, next: NextFunction) {
+    this.tenantContext.run(() => next());
+  }
+}
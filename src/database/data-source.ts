@@ -1,6 +1,27 @@
 import { DataSource, DataSourceOptions } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { CreateInitialSchema1710752400000 } from './migrations/1710752400000-CreateInitialSchema';
+import { CreateSessions1710838800000 } from './migrations/1710838800000-CreateSessions';
+import { AddAccountTokens1710925200000 } from './migrations/1710925200000-AddAccountTokens';
+import { AddUserMfa1711011600000 } from './migrations/1711011600000-AddUserMfa';
+import { CreatePersonalAccessTokens1711098000000 } from './migrations/1711098000000-CreatePersonalAccessTokens';
+import { CreateRolesAndPermissions1711184400000 } from './migrations/1711184400000-CreateRolesAndPermissions';
+import { AddUserAccountStatus1711270800000 } from './migrations/1711270800000-AddUserAccountStatus';
+import { CreateTaskComments1711357200000 } from './migrations/1711357200000-CreateTaskComments';
+import { AddTaskParent1711443600000 } from './migrations/1711443600000-AddTaskParent';
+import { CreateTaskDependencies1711530000000 } from './migrations/1711530000000-CreateTaskDependencies';
+import { CreateLabels1711616400000 } from './migrations/1711616400000-CreateLabels';
+import { CreateProjects1711702800000 } from './migrations/1711702800000-CreateProjects';
+import { AddOrganizations1711789200000 } from './migrations/1711789200000-AddOrganizations';
+import { AddTaskAssigneesAndWatchers1711875600000 } from './migrations/1711875600000-AddTaskAssigneesAndWatchers';
+import { CreateTaskRecurrences1711962000000 } from './migrations/1711962000000-CreateTaskRecurrences';
+import { CreateTaskTemplates1712048400000 } from './migrations/1712048400000-CreateTaskTemplates';
+import { CreateTaskChecklistItems1712134800000 } from './migrations/1712134800000-CreateTaskChecklistItems';
+import { CreateTaskAttachments1712221200000 } from './migrations/1712221200000-CreateTaskAttachments';
+import { AddTimeTracking1712307600000 } from './migrations/1712307600000-AddTimeTracking';
+import { CreateTaskActivities1712394000000 } from './migrations/1712394000000-CreateTaskActivities';
+import { AddTaskSoftDelete1712480400000 } from './migrations/1712480400000-AddTaskSoftDelete';
+import { AddTaskVersion1712566800000 } from './migrations/1712566800000-AddTaskVersion';
 
 // Load environment variables
 dotenv.config();
@@ -13,7 +34,30 @@ export const dataSourceOptions: DataSourceOptions = {
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
   entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-  migrations: [CreateInitialSchema1710752400000],
+  migrations: [
+    CreateInitialSchema1710752400000,
+    CreateSessions1710838800000,
+    AddAccountTokens1710925200000,
+    AddUserMfa1711011600000,
+    CreatePersonalAccessTokens1711098000000,
+    CreateRolesAndPermissions1711184400000,
+    AddUserAccountStatus1711270800000,
+    CreateTaskComments1711357200000,
+    AddTaskParent1711443600000,
+    CreateTaskDependencies1711530000000,
+    CreateLabels1711616400000,
+    CreateProjects1711702800000,
+    AddOrganizations1711789200000,
+    AddTaskAssigneesAndWatchers1711875600000,
+    CreateTaskRecurrences1711962000000,
+    CreateTaskTemplates1712048400000,
+    CreateTaskChecklistItems1712134800000,
+    CreateTaskAttachments1712221200000,
+    AddTimeTracking1712307600000,
+    CreateTaskActivities1712394000000,
+    AddTaskSoftDelete1712480400000,
+    AddTaskVersion1712566800000,
+  ],
   migrationsTableName: 'migrations',
   synchronize: false, // Important: Set to false for production
   logging: process.env.NODE_ENV === 'development',
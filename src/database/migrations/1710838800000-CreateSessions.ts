@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSessions1710838800000 implements MigrationInterface {
+  name = 'CreateSessions1710838800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // One row per issued refresh token, grouped into rotation families
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "sessions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "family_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "device_id" varchar,
+        "user_agent" varchar,
+        "ip_address" varchar,
+        "token_hash" varchar NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "rotated_at" TIMESTAMP,
+        "revoked_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_sessions_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_sessions_user_id" ON "sessions" ("user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_sessions_family_id" ON "sessions" ("family_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "sessions"`);
+  }
+}
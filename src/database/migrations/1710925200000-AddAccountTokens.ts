@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAccountTokens1710925200000 implements MigrationInterface {
+  name = 'AddAccountTokens1710925200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "email_verified_at" TIMESTAMP`,
+    );
+
+    // Accounts created before verification existed are treated as verified
+    await queryRunner.query(
+      `UPDATE "users" SET "email_verified_at" = "created_at" WHERE "email_verified_at" IS NULL`,
+    );
+
+    await queryRunner.query(`
+      CREATE TYPE "account_tokens_type_enum" AS ENUM('PASSWORD_RESET', 'EMAIL_VERIFICATION')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "account_tokens" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "type" "account_tokens_type_enum" NOT NULL,
+        "token_hash" varchar NOT NULL UNIQUE,
+        "expires_at" TIMESTAMP NOT NULL,
+        "used_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_account_tokens_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_account_tokens_user_type" ON "account_tokens" ("user_id", "type")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "account_tokens"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "account_tokens_type_enum"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "email_verified_at"`);
+  }
+}
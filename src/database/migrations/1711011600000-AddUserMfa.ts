@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserMfa1711011600000 implements MigrationInterface {
+  name = 'AddUserMfa1711011600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        ADD COLUMN IF NOT EXISTS "mfa_secret" varchar,
+        ADD COLUMN IF NOT EXISTS "mfa_enabled_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "mfa_recovery_codes" text[] NOT NULL DEFAULT '{}',
+        ADD COLUMN IF NOT EXISTS "mfa_last_used_step" bigint
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "mfa_authenticated" boolean NOT NULL DEFAULT false
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "sessions" DROP COLUMN IF EXISTS "mfa_authenticated"`);
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        DROP COLUMN IF EXISTS "mfa_last_used_step",
+        DROP COLUMN IF EXISTS "mfa_recovery_codes",
+        DROP COLUMN IF EXISTS "mfa_enabled_at",
+        DROP COLUMN IF EXISTS "mfa_secret"
+    `);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePersonalAccessTokens1711098000000 implements MigrationInterface {
+  name = 'CreatePersonalAccessTokens1711098000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "personal_access_tokens" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" varchar NOT NULL,
+        "token_prefix" varchar NOT NULL,
+        "token_hash" varchar NOT NULL UNIQUE,
+        "scopes" text[] NOT NULL,
+        "expires_at" TIMESTAMP,
+        "last_used_at" TIMESTAMP,
+        "revoked_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_personal_access_tokens_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_personal_access_tokens_user_id" ON "personal_access_tokens" ("user_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "personal_access_tokens"`);
+  }
+}
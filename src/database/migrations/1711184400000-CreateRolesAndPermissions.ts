@@ -0,0 +1,118 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const PERMISSIONS: [string, string][] = [
+  ['tasks:read', 'View tasks'],
+  ['tasks:write', 'Create and update tasks'],
+  ['tasks:delete', 'Delete tasks'],
+  ['tasks:manage', 'Act on tasks owned by other users'],
+  ['users:read', 'List user accounts'],
+  ['users:manage', 'Manage other user accounts and their roles'],
+  ['roles:manage', 'Manage role definitions'],
+];
+
+const ROLES: [string, string, string[]][] = [
+  ['user', 'Default role for new accounts', ['tasks:read', 'tasks:write']],
+  ['admin', 'Full access', PERMISSIONS.map(([key]) => key)],
+];
+
+export class CreateRolesAndPermissions1711184400000 implements MigrationInterface {
+  name = 'CreateRolesAndPermissions1711184400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "permissions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "key" varchar NOT NULL UNIQUE,
+        "description" varchar
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "roles" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL UNIQUE,
+        "description" varchar,
+        "is_system" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "role_permissions" (
+        "role_id" uuid NOT NULL,
+        "permission_id" uuid NOT NULL,
+        PRIMARY KEY ("role_id", "permission_id"),
+        CONSTRAINT "fk_role_permissions_role_id" FOREIGN KEY ("role_id") REFERENCES "roles" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_role_permissions_permission_id" FOREIGN KEY ("permission_id") REFERENCES "permissions" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "user_roles" (
+        "user_id" uuid NOT NULL,
+        "role_id" uuid NOT NULL,
+        PRIMARY KEY ("user_id", "role_id"),
+        CONSTRAINT "fk_user_roles_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_user_roles_role_id" FOREIGN KEY ("role_id") REFERENCES "roles" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_user_roles_role_id" ON "user_roles" ("role_id")`,
+    );
+
+    for (const [key, description] of PERMISSIONS) {
+      await queryRunner.query(
+        `INSERT INTO "permissions" ("key", "description") VALUES ($1, $2) ON CONFLICT ("key") DO NOTHING`,
+        [key, description],
+      );
+    }
+
+    for (const [name, description, permissionKeys] of ROLES) {
+      await queryRunner.query(
+        `INSERT INTO "roles" ("name", "description", "is_system") VALUES ($1, $2, true) ON CONFLICT ("name") DO NOTHING`,
+        [name, description],
+      );
+      await queryRunner.query(
+        `
+          INSERT INTO "role_permissions" ("role_id", "permission_id")
+          SELECT r."id", p."id" FROM "roles" r, "permissions" p
+          WHERE r."name" = $1 AND p."key" = ANY($2)
+          ON CONFLICT DO NOTHING
+        `,
+        [name, permissionKeys],
+      );
+    }
+
+    // Carry the old free-text role over; anything unrecognised falls back to the default role
+    const hasRoleColumn = await queryRunner.hasColumn('users', 'role');
+    if (hasRoleColumn) {
+      await queryRunner.query(`
+        INSERT INTO "user_roles" ("user_id", "role_id")
+        SELECT u."id", r."id" FROM "users" u
+        JOIN "roles" r ON r."name" = CASE WHEN u."role" = 'admin' THEN 'admin' ELSE 'user' END
+        ON CONFLICT DO NOTHING
+      `);
+      await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "role"`);
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "role" varchar NOT NULL DEFAULT 'user'`,
+    );
+    await queryRunner.query(`
+      UPDATE "users" u SET "role" = 'admin'
+      WHERE EXISTS (
+        SELECT 1 FROM "user_roles" ur JOIN "roles" r ON r."id" = ur."role_id"
+        WHERE ur."user_id" = u."id" AND r."name" = 'admin'
+      )
+    `);
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "user_roles"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "role_permissions"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "roles"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "permissions"`);
+  }
+}
@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserAccountStatus1711270800000 implements MigrationInterface {
+  name = 'AddUserAccountStatus1711270800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        ADD COLUMN IF NOT EXISTS "deactivated_at" TIMESTAMP,
+        ADD COLUMN IF NOT EXISTS "password_reset_required" boolean NOT NULL DEFAULT false
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_users_created_at" ON "users" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_users_created_at"`);
+    await queryRunner.query(`
+      ALTER TABLE "users"
+        DROP COLUMN IF EXISTS "password_reset_required",
+        DROP COLUMN IF EXISTS "deactivated_at"
+    `);
+  }
+}
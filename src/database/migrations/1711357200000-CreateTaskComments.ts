@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskComments1711357200000 implements MigrationInterface {
+  name = 'CreateTaskComments1711357200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_comments" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "author_id" uuid,
+        "parent_id" uuid,
+        "body" text NOT NULL,
+        "mentioned_user_ids" uuid[] NOT NULL DEFAULT '{}',
+        "edited_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_comments_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_comments_author_id" FOREIGN KEY ("author_id") REFERENCES "users" ("id") ON DELETE SET NULL,
+        CONSTRAINT "fk_task_comments_parent_id" FOREIGN KEY ("parent_id") REFERENCES "task_comments" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_comments_task_id_created_at" ON "task_comments" ("task_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_comments_parent_id" ON "task_comments" ("parent_id")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_comment_revisions" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "comment_id" uuid NOT NULL,
+        "body" text NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_comment_revisions_comment_id" FOREIGN KEY ("comment_id") REFERENCES "task_comments" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_comment_revisions_comment_id" ON "task_comment_revisions" ("comment_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comment_revisions"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_comments"`);
+  }
+}
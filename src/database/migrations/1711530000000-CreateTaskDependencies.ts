@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskDependencies1711530000000 implements MigrationInterface {
+  name = 'CreateTaskDependencies1711530000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_dependencies" (
+        "task_id" uuid NOT NULL,
+        "blocker_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("task_id", "blocker_id"),
+        CONSTRAINT "chk_task_dependencies_not_self" CHECK ("task_id" <> "blocker_id"),
+        CONSTRAINT "fk_task_dependencies_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_dependencies_blocker_id" FOREIGN KEY ("blocker_id") REFERENCES "tasks" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_dependencies_blocker_id" ON "task_dependencies" ("blocker_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_dependencies"`);
+  }
+}
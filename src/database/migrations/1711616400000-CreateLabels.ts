@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLabels1711616400000 implements MigrationInterface {
+  name = 'CreateLabels1711616400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "labels" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" character varying NOT NULL,
+        "color" character varying(7) NOT NULL DEFAULT '#6b7280',
+        "owner_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_labels_owner_id" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    // Names are unique per owner, and among global (ownerless) labels
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_labels_owner_id_name" ON "labels" ("owner_id", "name") WHERE "owner_id" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_labels_global_name" ON "labels" ("name") WHERE "owner_id" IS NULL`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_labels" (
+        "task_id" uuid NOT NULL,
+        "label_id" uuid NOT NULL,
+        PRIMARY KEY ("task_id", "label_id"),
+        CONSTRAINT "fk_task_labels_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_labels_label_id" FOREIGN KEY ("label_id") REFERENCES "labels" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_labels_label_id" ON "task_labels" ("label_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_labels"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "labels"`);
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateProjects1711702800000 implements MigrationInterface {
+  name = 'CreateProjects1711702800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "projects" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "description" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TYPE "project_members_role_enum" AS ENUM('owner', 'editor', 'viewer')
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "project_members" (
+        "project_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "role" "project_members_role_enum" NOT NULL DEFAULT 'viewer',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        PRIMARY KEY ("project_id", "user_id"),
+        CONSTRAINT "fk_project_members_project_id" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_project_members_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_project_members_user_id" ON "project_members" ("user_id")`,
+    );
+
+    // Existing tasks stay personal; deleting a project hands its tasks back to their owners
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "project_id" uuid`);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "tasks"
+          ADD CONSTRAINT "fk_tasks_project_id" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_tasks_project_id" ON "tasks" ("project_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_project_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "project_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "project_members"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "project_members_role_enum"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "projects"`);
+  }
+}
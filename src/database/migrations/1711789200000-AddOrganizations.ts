@@ -0,0 +1,160 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const ORG_ADMIN_PERMISSIONS = [
+  'tasks:read',
+  'tasks:write',
+  'tasks:delete',
+  'tasks:manage',
+  'users:read',
+  'users:manage',
+];
+
+export class AddOrganizations1711789200000 implements MigrationInterface {
+  name = 'AddOrganizations1711789200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "organizations" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "slug" varchar NOT NULL UNIQUE,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now()
+      )
+    `);
+
+    // Everything that exists today moves into the default organization
+    await queryRunner.query(`
+      INSERT INTO "organizations" ("name", "slug") VALUES ('Default', 'default')
+      ON CONFLICT ("slug") DO NOTHING
+    `);
+
+    await queryRunner.query(`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "organization_id" uuid`);
+    await queryRunner.query(`
+      UPDATE "users" SET "organization_id" = (SELECT "id" FROM "organizations" WHERE "slug" = 'default')
+      WHERE "organization_id" IS NULL
+    `);
+    await queryRunner.query(`ALTER TABLE "users" ALTER COLUMN "organization_id" SET NOT NULL`);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "users"
+          ADD CONSTRAINT "fk_users_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id");
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    // Email addresses only have to be unique within an organization
+    await queryRunner.query(`ALTER TABLE "users" DROP CONSTRAINT IF EXISTS "users_email_key"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_users_organization_id_email" ON "users" ("organization_id", "email")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "organization_id" uuid`);
+    await queryRunner.query(`
+      UPDATE "tasks" t SET "organization_id" = u."organization_id"
+      FROM "users" u WHERE u."id" = t."user_id" AND t."organization_id" IS NULL
+    `);
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "organization_id" SET NOT NULL`);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "tasks"
+          ADD CONSTRAINT "fk_tasks_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id");
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_tasks_organization_id" ON "tasks" ("organization_id")`,
+    );
+
+    // Projects follow their earliest owner, labels their owner; the rest is default
+    await queryRunner.query(
+      `ALTER TABLE "projects" ADD COLUMN IF NOT EXISTS "organization_id" uuid`,
+    );
+    await queryRunner.query(`
+      UPDATE "projects" p SET "organization_id" = COALESCE(
+        (
+          SELECT u."organization_id" FROM "project_members" m JOIN "users" u ON u."id" = m."user_id"
+          WHERE m."project_id" = p."id" AND m."role" = 'owner'
+          ORDER BY m."created_at" LIMIT 1
+        ),
+        (SELECT "id" FROM "organizations" WHERE "slug" = 'default')
+      )
+      WHERE "organization_id" IS NULL
+    `);
+    await queryRunner.query(`ALTER TABLE "projects" ALTER COLUMN "organization_id" SET NOT NULL`);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "projects"
+          ADD CONSTRAINT "fk_projects_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_projects_organization_id" ON "projects" ("organization_id")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "labels" ADD COLUMN IF NOT EXISTS "organization_id" uuid`);
+    await queryRunner.query(`
+      UPDATE "labels" l SET "organization_id" = COALESCE(
+        (SELECT u."organization_id" FROM "users" u WHERE u."id" = l."owner_id"),
+        (SELECT "id" FROM "organizations" WHERE "slug" = 'default')
+      )
+      WHERE "organization_id" IS NULL
+    `);
+    await queryRunner.query(`ALTER TABLE "labels" ALTER COLUMN "organization_id" SET NOT NULL`);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "labels"
+          ADD CONSTRAINT "fk_labels_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    // Global labels are now global to their organization
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_labels_global_name"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_labels_organization_id_name" ON "labels" ("organization_id", "name") WHERE "owner_id" IS NULL`,
+    );
+
+    await queryRunner.query(`
+      INSERT INTO "permissions" ("key", "description")
+      VALUES ('organizations:manage', 'Create and administer organizations')
+      ON CONFLICT ("key") DO NOTHING
+    `);
+    await queryRunner.query(`
+      INSERT INTO "roles" ("name", "description", "is_system")
+      VALUES ('org-admin', 'Administers tasks and users within its organization', true)
+      ON CONFLICT ("name") DO NOTHING
+    `);
+    await queryRunner.query(
+      `
+        INSERT INTO "role_permissions" ("role_id", "permission_id")
+        SELECT r."id", p."id" FROM "roles" r, "permissions" p
+        WHERE (r."name" = 'org-admin' AND p."key" = ANY($1))
+          OR (r."name" = 'admin' AND p."key" = 'organizations:manage')
+        ON CONFLICT DO NOTHING
+      `,
+      [ORG_ADMIN_PERMISSIONS],
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM "roles" WHERE "name" = 'org-admin'`);
+    await queryRunner.query(`DELETE FROM "permissions" WHERE "key" = 'organizations:manage'`);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_labels_organization_id_name"`);
+    await queryRunner.query(`ALTER TABLE "labels" DROP COLUMN IF EXISTS "organization_id"`);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_labels_global_name" ON "labels" ("name") WHERE "owner_id" IS NULL`,
+    );
+    await queryRunner.query(`ALTER TABLE "projects" DROP COLUMN IF EXISTS "organization_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "organization_id"`);
+
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_users_organization_id_email"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN IF EXISTS "organization_id"`);
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD CONSTRAINT "users_email_key" UNIQUE ("email")`,
+    );
+
+    await queryRunner.query(`DROP TABLE IF EXISTS "organizations"`);
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskAssigneesAndWatchers1711875600000 implements MigrationInterface {
+  name = 'AddTaskAssigneesAndWatchers1711875600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "created_by" uuid`);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "tasks"
+          ADD CONSTRAINT "fk_tasks_created_by" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE SET NULL;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_assignees" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "fk_task_assignees_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_assignees_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_watchers" (
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        PRIMARY KEY ("task_id", "user_id"),
+        CONSTRAINT "fk_task_watchers_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_watchers_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_assignees_user_id" ON "task_assignees" ("user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_watchers_user_id" ON "task_watchers" ("user_id")`,
+    );
+
+    // Until now the owner was both the creator and the only assignee
+    await queryRunner.query(
+      `UPDATE "tasks" SET "created_by" = "user_id" WHERE "created_by" IS NULL`,
+    );
+    await queryRunner.query(`
+      INSERT INTO "task_assignees" ("task_id", "user_id")
+      SELECT "id", "user_id" FROM "tasks"
+      ON CONFLICT DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_watchers"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_assignees"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_created_by"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "created_by"`);
+  }
+}
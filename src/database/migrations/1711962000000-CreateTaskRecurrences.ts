@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskRecurrences1711962000000 implements MigrationInterface {
+  name = 'CreateTaskRecurrences1711962000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "task_recurrences_frequency_enum" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_recurrences" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "frequency" "task_recurrences_frequency_enum" NOT NULL,
+        "interval" integer NOT NULL DEFAULT 1,
+        "timezone" character varying NOT NULL DEFAULT 'UTC',
+        "anchor_due_at" TIMESTAMP NOT NULL,
+        "anchor_index" integer NOT NULL DEFAULT 1,
+        "until" TIMESTAMP,
+        "count" integer,
+        "occurrence_count" integer NOT NULL DEFAULT 1,
+        "current_due_at" TIMESTAMP NOT NULL,
+        "ended_at" TIMESTAMP,
+        "title" character varying NOT NULL,
+        "description" text,
+        "priority" character varying NOT NULL DEFAULT 'MEDIUM',
+        "user_id" uuid NOT NULL,
+        "project_id" uuid,
+        "created_by" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_recurrences_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_recurrences_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_recurrences_project_id" FOREIGN KEY ("project_id") REFERENCES "projects" ("id") ON DELETE SET NULL,
+        CONSTRAINT "fk_task_recurrences_created_by" FOREIGN KEY ("created_by") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_recurrences_organization_id" ON "task_recurrences" ("organization_id")`,
+    );
+
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "recurrence_id" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "occurrence_index" integer`,
+    );
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "tasks"
+          ADD CONSTRAINT "fk_tasks_recurrence_id" FOREIGN KEY ("recurrence_id") REFERENCES "task_recurrences" ("id") ON DELETE SET NULL;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    // Backs the scheduler's row lock: an occurrence can only be generated once
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_tasks_recurrence_id_occurrence_index" ON "tasks" ("recurrence_id", "occurrence_index")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_recurrence_id_occurrence_index"`);
+    await queryRunner.query(
+      `ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_recurrence_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "occurrence_index"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "recurrence_id"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_recurrences"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "task_recurrences_frequency_enum"`);
+  }
+}
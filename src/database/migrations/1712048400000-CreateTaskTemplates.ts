@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskTemplates1712048400000 implements MigrationInterface {
+  name = 'CreateTaskTemplates1712048400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_templates" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "title" character varying NOT NULL,
+        "description" text,
+        "priority" character varying NOT NULL DEFAULT 'MEDIUM',
+        "due_offset_days" integer,
+        "parent_id" uuid,
+        "position" integer NOT NULL DEFAULT 0,
+        "owner_id" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_templates_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_templates_parent_id" FOREIGN KEY ("parent_id") REFERENCES "task_templates" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_templates_owner_id" FOREIGN KEY ("owner_id") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_templates_organization_id" ON "task_templates" ("organization_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_templates_parent_id" ON "task_templates" ("parent_id")`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_template_labels" (
+        "template_id" uuid NOT NULL,
+        "label_id" uuid NOT NULL,
+        PRIMARY KEY ("template_id", "label_id"),
+        CONSTRAINT "fk_task_template_labels_template_id" FOREIGN KEY ("template_id") REFERENCES "task_templates" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_template_labels_label_id" FOREIGN KEY ("label_id") REFERENCES "labels" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_template_labels_label_id" ON "task_template_labels" ("label_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_template_labels"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_templates"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskChecklistItems1712134800000 implements MigrationInterface {
+  name = 'CreateTaskChecklistItems1712134800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_checklist_items" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "text" text NOT NULL,
+        "position" integer NOT NULL DEFAULT 0,
+        "done" boolean NOT NULL DEFAULT false,
+        "completed_by" uuid,
+        "completed_at" TIMESTAMP,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_checklist_items_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_checklist_items_completed_by" FOREIGN KEY ("completed_by") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_checklist_items_task_id_position" ON "task_checklist_items" ("task_id", "position")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_checklist_items"`);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskAttachments1712221200000 implements MigrationInterface {
+  name = 'CreateTaskAttachments1712221200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_attachments" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "filename" character varying NOT NULL,
+        "mime_type" character varying NOT NULL,
+        "size" integer NOT NULL,
+        "checksum" character varying(64) NOT NULL,
+        "storage_key" character varying NOT NULL,
+        "uploaded_by" uuid,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "UQ_task_attachments_storage_key" UNIQUE ("storage_key"),
+        CONSTRAINT "fk_task_attachments_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_attachments_uploaded_by" FOREIGN KEY ("uploaded_by") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_attachments_task_id_created_at" ON "task_attachments" ("task_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_attachments"`);
+  }
+}
@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTimeTracking1712307600000 implements MigrationInterface {
+  name = 'AddTimeTracking1712307600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "estimate_minutes" integer`,
+    );
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "time_entries" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "task_id" uuid NOT NULL,
+        "user_id" uuid NOT NULL,
+        "started_at" TIMESTAMP NOT NULL,
+        "ended_at" TIMESTAMP,
+        "minutes" integer,
+        "manual" boolean NOT NULL DEFAULT false,
+        "note" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_time_entries_task_id" FOREIGN KEY ("task_id") REFERENCES "tasks" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_time_entries_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+      )
+    `);
+
+    // At most one running timer per user
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS "IDX_time_entries_running_user_id" ON "time_entries" ("user_id") WHERE "ended_at" IS NULL`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_time_entries_user_id_started_at" ON "time_entries" ("user_id", "started_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_time_entries_task_id" ON "time_entries" ("task_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "time_entries"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "estimate_minutes"`);
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTaskActivities1712394000000 implements MigrationInterface {
+  name = 'CreateTaskActivities1712394000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "task_activities_action_enum" AS ENUM ('CREATED', 'UPDATED', 'DELETED');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await queryRunner.query(`
+      DO $$ BEGIN
+        CREATE TYPE "task_activities_source_enum" AS ENUM ('API', 'BATCH', 'JOB');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    // No foreign key on task_id: the history of a task outlives it
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "task_activities" (
+        "id" uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+        "organization_id" uuid NOT NULL,
+        "task_id" uuid NOT NULL,
+        "task_title" character varying NOT NULL,
+        "actor_id" uuid,
+        "action" "task_activities_action_enum" NOT NULL,
+        "source" "task_activities_source_enum" NOT NULL,
+        "changes" jsonb NOT NULL DEFAULT '{}',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "fk_task_activities_organization_id" FOREIGN KEY ("organization_id") REFERENCES "organizations" ("id") ON DELETE CASCADE,
+        CONSTRAINT "fk_task_activities_actor_id" FOREIGN KEY ("actor_id") REFERENCES "users" ("id") ON DELETE SET NULL
+      )
+    `);
+
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_activities_task_id_created_at" ON "task_activities" ("task_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_activities_organization_id_created_at" ON "task_activities" ("organization_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_task_activities_actor_id_created_at" ON "task_activities" ("actor_id", "created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "task_activities"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "task_activities_source_enum"`);
+    await queryRunner.query(`DROP TYPE IF EXISTS "task_activities_action_enum"`);
+  }
+}
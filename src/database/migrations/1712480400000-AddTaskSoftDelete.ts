@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskSoftDelete1712480400000 implements MigrationInterface {
+  name = 'AddTaskSoftDelete1712480400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "deleted_at" TIMESTAMP`);
+    await queryRunner.query(`ALTER TABLE "tasks" ADD COLUMN IF NOT EXISTS "deleted_by" uuid`);
+
+    await queryRunner.query(`
+      DO $$ BEGIN
+        ALTER TABLE "tasks"
+          ADD CONSTRAINT "fk_tasks_deleted_by" FOREIGN KEY ("deleted_by") REFERENCES "users" ("id") ON DELETE SET NULL;
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+
+    // Deleting a user moves their tasks to the trash instead of cascading to them
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_user_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "user_id" DROP NOT NULL`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+        ADD CONSTRAINT "fk_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE SET NULL
+    `);
+
+    // Only trashed rows are indexed; the scheduled purge looks them up by age
+    await queryRunner.query(
+      `CREATE INDEX IF NOT EXISTS "IDX_tasks_deleted_at" ON "tasks" ("deleted_at") WHERE "deleted_at" IS NOT NULL`,
+    );
+
+    await queryRunner.query(
+      `ALTER TYPE "task_activities_action_enum" ADD VALUE IF NOT EXISTS 'RESTORED'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "task_activities_action_enum" ADD VALUE IF NOT EXISTS 'PURGED'`,
+    );
+  }
+
+  /**
+   * Refuses to run while tasks are in the trash or without an owner: the old schema can hold
+   * neither, and they're left for an operator to restore, reassign or purge rather than deleted
+   * here. Enum values can't be dropped; RESTORED and PURGED stay on the type.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const [{ trashed, ownerless }] = await queryRunner.query(`
+      SELECT
+        COUNT(*) FILTER (WHERE "deleted_at" IS NOT NULL)::int AS "trashed",
+        COUNT(*) FILTER (WHERE "user_id" IS NULL)::int AS "ownerless"
+      FROM "tasks"
+    `);
+    if (trashed || ownerless) {
+      throw new Error(
+        `Cannot revert task soft delete: ${trashed} trashed and ${ownerless} ownerless tasks ` +
+          'would be lost; restore or purge the trash and reassign ownerless tasks first',
+      );
+    }
+
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_user_id"`);
+    await queryRunner.query(`ALTER TABLE "tasks" ALTER COLUMN "user_id" SET NOT NULL`);
+    await queryRunner.query(`
+      ALTER TABLE "tasks"
+        ADD CONSTRAINT "fk_user_id" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_tasks_deleted_at"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP CONSTRAINT IF EXISTS "fk_tasks_deleted_by"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "deleted_by"`);
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN IF EXISTS "deleted_at"`);
+  }
+}
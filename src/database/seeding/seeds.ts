@@ -2,6 +2,9 @@ import { DataSource } from 'typeorm';
 import { config } from 'dotenv';
 import { User } from '../../modules/users/entities/user.entity';
 import { Task } from '../../modules/tasks/entities/task.entity';
+import { Role } from '../../modules/roles/entities/role.entity';
+import { Organization } from '../../modules/organizations/entities/organization.entity';
+import { DEFAULT_ORGANIZATION_SLUG } from '../../modules/organizations/organizations.constants';
 import { users } from './seed-data/users.seed';
 import { tasks } from './seed-data/tasks.seed';
 
@@ -16,7 +19,7 @@ const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME || 'postgres',
   password: process.env.DB_PASSWORD || 'postgres',
   database: process.env.DB_DATABASE || 'taskflow',
-  entities: [User, Task],
+  entities: [__dirname + '/../../**/*.entity{.ts,.js}'],
   synchronize: false,
 });
 
@@ -32,12 +35,25 @@ async function main() {
     await AppDataSource.getRepository(User).delete({});
     console.log('Existing data cleared');
 
-    // Seed users
-    await AppDataSource.getRepository(User).save(users);
+    // Seed users into the default organization; it, the roles and permissions are created by
+    // the migrations
+    const roles = await AppDataSource.getRepository(Role).find();
+    const organization = await AppDataSource.getRepository(Organization).findOneByOrFail({
+      slug: DEFAULT_ORGANIZATION_SLUG,
+    });
+    await AppDataSource.getRepository(User).save(
+      users.map(({ roles: roleNames, ...user }) => ({
+        ...user,
+        organizationId: organization.id,
+        roles: roles.filter(role => roleNames.includes(role.name)),
+      })),
+    );
     console.log('Users seeded successfully');
 
     // Seed tasks
-    await AppDataSource.getRepository(Task).save(tasks);
+    await AppDataSource.getRepository(Task).save(
+      tasks.map(task => ({ ...task, organizationId: organization.id })),
+    );
     console.log('Tasks seeded successfully');
 
     console.log('Database seeding completed');
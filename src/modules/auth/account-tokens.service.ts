@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { AccountToken } from './entities/account-token.entity';
+import { AccountTokenType } from './enums/account-token-type.enum';
+import * as crypto from 'crypto';
+
+@Injectable()
+export class AccountTokensService {
+  constructor(
+    @InjectRepository(AccountToken)
+    private accountTokensRepository: Repository<AccountToken>,
+  ) {}
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Issues a new token and invalidates any unused token of the same type,
+   * so only the most recently mailed link works. Returns the raw token.
+   */
+  async issue(userId: string, type: AccountTokenType, ttlMinutes: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.accountTokensRepository.manager.transaction(async manager => {
+      await manager.update(
+        AccountToken,
+        { userId, type, usedAt: IsNull() },
+        { usedAt: new Date() },
+      );
+      await manager.insert(AccountToken, {
+        userId,
+        type,
+        tokenHash: this.hash(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      });
+    });
+
+    return token;
+  }
+
+  /**
+   * Marks a valid token as used in a single statement and returns its owner,
+   * or null when the token is unknown, expired or already consumed.
+   */
+  async consume(token: string, type: AccountTokenType): Promise<string | null> {
+    const result = await this.accountTokensRepository
+      .createQueryBuilder()
+      .update(AccountToken)
+      .set({ usedAt: () => 'now()' })
+      .where('token_hash = :tokenHash', { tokenHash: this.hash(token) })
+      .andWhere('type = :type', { type })
+      .andWhere('used_at IS NULL')
+      .andWhere('expires_at > now()')
+      .returning(['user_id'])
+      .execute();
+
+    return result.raw[0]?.user_id ?? null;
+  }
+}
@@ -0,0 +1,35 @@
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { AuthController } from './auth.controller';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+
+const guardsOf = (handler: keyof AuthController) =>
+  Reflect.getMetadata(GUARDS_METADATA, AuthController.prototype[handler]);
+
+describe('AuthController', () => {
+  it('has no controller-wide guards', () => {
+    expect(Reflect.getMetadata(GUARDS_METADATA, AuthController)).toBeUndefined();
+  });
+
+  // Authenticating first lets the rate limit key on the user instead of the IP
+  it.each(['logout', 'logoutAll'] as const)('authenticates %s before rate limiting', handler => {
+    expect(guardsOf(handler)).toEqual([JwtAuthGuard, RateLimitGuard]);
+  });
+
+  it('checks the refresh token before rate limiting', () => {
+    expect(guardsOf('refresh')).toEqual([JwtRefreshGuard, RateLimitGuard]);
+  });
+
+  it.each([
+    'login',
+    'loginWithMfa',
+    'register',
+    'forgotPassword',
+    'resetPassword',
+    'verifyEmail',
+    'resendVerification',
+  ] as const)('rate limits %s', handler => {
+    expect(guardsOf(handler)).toEqual([RateLimitGuard]);
+  });
+});
@@ -1,30 +1,133 @@
-import { Body, Controller, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
-import { ApiTags } from '@nestjs/swagger';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthenticatedUser } from './strategies/jwt.strategy';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
 
 @ApiTags('auth')
 @Controller('auth')
+// RateLimitGuard is applied per route so that it runs after authentication where there is
+// any, and signed-in callers are limited per user rather than per IP
+@RateLimit({ limit: 30, windowMs: 60 * 1000 })
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
   @Post('login')
-  login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 60 * 1000 })
+  login(
+    @Body() loginDto: LoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.login(loginDto, { ipAddress, userAgent });
+  }
+
+  @Post('login/mfa')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 60 * 1000 })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with an authenticator or recovery code' })
+  loginWithMfa(
+    @Body() mfaLoginDto: MfaLoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.loginWithMfa(mfaLoginDto, { ipAddress, userAgent });
   }
 
   @Post('register')
-  register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 3, windowMs: 60 * 60 * 1000 })
+  register(
+    @Body() registerDto: RegisterDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.register(registerDto, { ipAddress, userAgent });
+  }
+
+  @Post('forgot-password')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 3, windowMs: 15 * 60 * 1000 })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Email a single-use password reset link' })
+  forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto);
+  }
+
+  @Post('reset-password')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 15 * 60 * 1000 })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set a new password using a reset token' })
+  resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(resetPasswordDto);
+  }
+
+  @Post('verify-email')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 5, windowMs: 15 * 60 * 1000 })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm ownership of the registered email address' })
+  verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto);
+  }
+
+  @Post('resend-verification')
+  @UseGuards(RateLimitGuard)
+  @RateLimit({ limit: 3, windowMs: 15 * 60 * 1000 })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Send a new email verification link' })
+  resendVerification(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.resendVerification(forgotPasswordDto);
   }
 
-  @UseGuards(JwtRefreshGuard)
+  @UseGuards(JwtRefreshGuard, RateLimitGuard)
   @Post('refresh-token')
-  async refresh(@Req() req: any) {
-    const userId = req.user.sub;
-    const refreshToken = req.user.refreshToken;
-    return this.authService.refreshTokens(userId, refreshToken);
+  async refresh(@Req() req: any, @Ip() ipAddress: string) {
+    const { sub: userId, sessionId, refreshToken } = req.user;
+    return this.authService.refreshTokens(userId, sessionId, refreshToken, {
+      ipAddress,
+      userAgent: req.get('user-agent'),
+    });
+  }
+
+  @UseGuards(JwtAuthGuard, RateLimitGuard)
+  @ApiBearerAuth()
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke the current device session' })
+  logout(@CurrentUser() user: AuthenticatedUser) {
+    return this.authService.logout(user.sessionId);
+  }
+
+  @UseGuards(JwtAuthGuard, RateLimitGuard)
+  @ApiBearerAuth()
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke every session of the current user' })
+  logoutAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.authService.logoutAll(user.id);
   }
-} 
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -6,12 +6,31 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { UsersModule } from '../users/users.module';
+import { RolesModule } from '../roles/roles.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
 import { JwtRefreshTokenStrategy } from './strategies/jwt-refresh.strategy';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Session } from './entities/session.entity';
+import { SessionsService } from './sessions.service';
+import { AccountToken } from './entities/account-token.entity';
+import { AccountTokensService } from './account-tokens.service';
+import { MailModule } from '../mail/mail.module';
+import { MfaService } from './mfa.service';
+import { MfaController } from './mfa.controller';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { PersonalAccessTokenStrategy } from './strategies/personal-access-token.strategy';
+import { UserPasswordResetController } from './user-password-reset.controller';
 
 @Module({
   imports: [
-    UsersModule,
+    forwardRef(() => UsersModule),
+    RolesModule,
+    OrganizationsModule,
+    TypeOrmModule.forFeature([Session, AccountToken, PersonalAccessToken]),
+    MailModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -24,9 +43,23 @@ import { JwtRefreshTokenStrategy } from './strategies/jwt-refresh.strategy';
       }),
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy,  JwtRefreshTokenStrategy,
-  JwtRefreshGuard, ],
-  exports: [AuthService,PassportModule],
+  controllers: [
+    AuthController,
+    MfaController,
+    PersonalAccessTokensController,
+    UserPasswordResetController,
+  ],
+  providers: [
+    AuthService,
+    SessionsService,
+    AccountTokensService,
+    MfaService,
+    PersonalAccessTokensService,
+    JwtStrategy,
+    JwtRefreshTokenStrategy,
+    PersonalAccessTokenStrategy,
+    JwtRefreshGuard,
+  ],
+  exports: [AuthService, PassportModule],
 })
-export class AuthModule {} 
\ No newline at end of file
+export class AuthModule {}
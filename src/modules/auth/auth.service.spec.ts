@@ -0,0 +1,140 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { AccountTokensService } from './account-tokens.service';
+import { MfaService } from './mfa.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { Role } from '../roles/entities/role.entity';
+import { Permission } from '../roles/entities/permission.entity';
+import { RolesService } from '../roles/roles.service';
+import { MailService } from '../mail/mail.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+const roleWith = (...keys: string[]) =>
+  Object.assign(new Role(), {
+    name: 'role',
+    permissions: keys.map(key => Object.assign(new Permission(), { key })),
+  });
+
+describe('AuthService', () => {
+  let user: User;
+  let usersService: {
+    findOne: jest.Mock;
+    findByEmail: jest.Mock;
+    create: jest.Mock;
+    requirePasswordReset: jest.Mock;
+    assertCanManage: UsersService['assertCanManage'];
+  };
+  let sessionsService: { create: jest.Mock; revokeAllForUser: jest.Mock };
+  let config: Record<string, string>;
+  const jwtService = new JwtService({ secret: 'spec' });
+  const tenantContext = new TenantContext();
+  let personalAccessTokensService: { revokeAllForUser: jest.Mock };
+  let service: AuthService;
+
+  beforeEach(() => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'ada@example.com',
+      name: 'Ada',
+      organizationId: 'org-1',
+      roles: [roleWith('users:manage', 'roles:manage')],
+    });
+    usersService = {
+      findOne: jest.fn(async () => user),
+      findByEmail: jest.fn(async () => null),
+      create: jest.fn(async () => user),
+      requirePasswordReset: jest.fn(async () => undefined),
+      assertCanManage: UsersService.prototype.assertCanManage,
+    };
+    sessionsService = {
+      create: jest.fn(async () => undefined),
+      revokeAllForUser: jest.fn(async () => 1),
+    };
+    config = { JWT_REFRESH_SECRET: 'spec-refresh' };
+    personalAccessTokensService = { revokeAllForUser: jest.fn(async () => 1) };
+
+    service = new AuthService(
+      usersService as unknown as UsersService,
+      jwtService,
+      sessionsService as unknown as SessionsService,
+      new ConfigService(config),
+      { issue: jest.fn(async () => 'reset-token') } as unknown as AccountTokensService,
+      { send: jest.fn(async () => true) } as unknown as MailService,
+      {} as MfaService,
+      {
+        resolveGrants: (roles: Role[]) => ({
+          roles: roles.map(role => role.name),
+          permissions: roles.flatMap(role => role.permissions.map(permission => permission.key)),
+        }),
+      } as unknown as RolesService,
+      personalAccessTokensService as unknown as PersonalAccessTokensService,
+      { findBySlug: jest.fn(async () => ({ id: 'org-1' })) } as unknown as OrganizationsService,
+      tenantContext,
+    );
+  });
+
+  describe('register', () => {
+    const registerDto = { email: 'ada@example.com', name: 'Ada', password: 'correct-horse' };
+    const register = () =>
+      tenantContext.run(() =>
+        service.register(registerDto, { ipAddress: '127.0.0.1', userAgent: 'spec' }),
+      );
+
+    it('signs the new user in with a session the access token belongs to', async () => {
+      const result = (await register()) as { access_token: string; refresh_token: string };
+
+      expect(result).toMatchObject({ user: { id: 'user-1', name: 'Ada' } });
+      const payload = jwtService.verify(result.access_token);
+      expect(payload).toMatchObject({ sub: 'user-1', org: 'org-1' });
+      expect(sessionsService.create).toHaveBeenCalledWith(
+        expect.any(String),
+        'user-1',
+        payload.sid,
+        result.refresh_token,
+        expect.any(Date),
+        expect.objectContaining({ ipAddress: '127.0.0.1', mfaAuthenticated: false }),
+      );
+    });
+
+    it('issues no tokens while logins wait for email verification', async () => {
+      config.AUTH_REQUIRE_EMAIL_VERIFICATION = 'true';
+
+      const result = await register();
+
+      expect(result).toEqual({
+        user: {
+          id: 'user-1',
+          email: 'ada@example.com',
+          name: 'Ada',
+          organizationId: 'org-1',
+          roles: ['role'],
+        },
+      });
+      expect(sessionsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('locks the account and signs it out everywhere', async () => {
+      await expect(
+        service.forcePasswordReset('user-1', ['users:manage', 'roles:manage']),
+      ).resolves.toEqual({ revokedSessions: 1, revokedTokens: 1, emailSent: true });
+      expect(usersService.requirePasswordReset).toHaveBeenCalledWith('user-1');
+    });
+
+    it('refuses a user holding permissions the actor lacks', async () => {
+      await expect(service.forcePasswordReset('user-1', ['users:manage'])).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(usersService.requirePasswordReset).not.toHaveBeenCalled();
+      expect(sessionsService.revokeAllForUser).not.toHaveBeenCalled();
+      expect(personalAccessTokensService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+});
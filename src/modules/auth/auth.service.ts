@@ -1,20 +1,59 @@
-import { ForbiddenException, Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { SessionContext, SessionsService } from './sessions.service';
+import { AccountTokensService } from './account-tokens.service';
+import { AccountTokenType } from './enums/account-token-type.enum';
+import { MailService } from '../mail/mail.service';
+import { MfaService } from './mfa.service';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { RolesService } from '../roles/roles.service';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { ADMIN_ROLES } from '../roles/roles.constants';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { DEFAULT_ORGANIZATION_SLUG } from '../organizations/organizations.constants';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+import { JwtPayload } from './strategies/jwt.strategy';
 import * as bcrypt from 'bcrypt';
+import { v4 as uuidv4 } from 'uuid';
+
+export const MFA_PENDING_TOKEN_TYPE = 'mfa_pending';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly configService: ConfigService,
+    private readonly accountTokensService: AccountTokensService,
+    private readonly mailService: MailService,
+    private readonly mfaService: MfaService,
+    private readonly rolesService: RolesService,
+    private readonly personalAccessTokensService: PersonalAccessTokensService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly tenantContext: TenantContext,
   ) {}
 
-  async login(loginDto: LoginDto) {
-    const { email, password } = loginDto;
+  async login(loginDto: LoginDto, context: SessionContext = {}) {
+    const { email, password, deviceId } = loginDto;
 
+    await this.enterOrganization(loginDto.organization);
     const user = await this.usersService.findByEmail(email);
     
     if (!user) {
@@ -27,59 +66,294 @@ export class AuthService {
       throw new UnauthorizedException('Invalid password');
     }
 
-    const payload = { 
-      sub: user.id, 
-      email: user.email, 
-      role: user.role
-    };
+    this.assertCanSignIn(user);
+
+    if (this.isEmailVerificationRequired() && !user.emailVerifiedAt) {
+      throw new UnauthorizedException('Email address has not been verified');
+    }
+
+    // Second step happens in loginWithMfa; the pending token is useless as an access token
+    if (user.mfaEnabledAt) {
+      const mfaToken = await this.jwtService.signAsync(
+        { sub: user.id, typ: MFA_PENDING_TOKEN_TYPE, deviceId },
+        { expiresIn: '5m' },
+      );
+      return { mfa_required: true, mfa_token: mfaToken };
+    }
+
+    return this.startSession(user, { ...context, deviceId, mfaAuthenticated: false });
+  }
+
+  async loginWithMfa(mfaLoginDto: MfaLoginDto, context: SessionContext = {}) {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(mfaLoginDto.mfaToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    if (payload.typ !== MFA_PENDING_TOKEN_TYPE) {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    const user = await this.enterUserOrganization(payload.sub);
+    this.assertCanSignIn(user);
 
-    const refreshPayload = { sub: user.id };
-    const refreshToken = await this.jwtService.signAsync(refreshPayload, {
-      expiresIn: '7d',
-      secret: process.env.JWT_REFRESH_SECRET,
+    if (!(await this.mfaService.verify(user, mfaLoginDto.code))) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    return this.startSession(user, {
+      ...context,
+      deviceId: payload.deviceId,
+      mfaAuthenticated: true,
     });
+  }
 
-     const hashed = await bcrypt.hash(refreshToken, 10);
-    //  await this.usersService.updateRefreshToken(user.id, hashed);
+  /**
+   * Unauthenticated requests name their organization by slug; everything after this, including
+   * the email lookup, runs scoped to it.
+   */
+  private async enterOrganization(slug = DEFAULT_ORGANIZATION_SLUG) {
+    const organization = await this.organizationsService.findBySlug(slug);
 
-    return {
-      access_token: this.jwtService.sign(payload),
-      refresh_token: refreshToken,
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-      },
-    };
+    if (!organization) {
+      throw new UnauthorizedException('Invalid organization');
+    }
+    this.tenantContext.setTenantId(organization.id);
+  }
+
+  // Token-based steps know the user rather than the organization, which the user record gives
+  private async enterUserOrganization(userId: string): Promise<User> {
+    const user = await this.tenantContext.runUnscoped(() => this.usersService.findOne(userId));
+    this.tenantContext.setTenantId(user.organizationId);
+    return user;
+  }
+
+  private assertCanSignIn(user: User) {
+    if (user.deactivatedAt) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    if (user.passwordResetRequired) {
+      throw new UnauthorizedException('Password reset required');
+    }
+  }
+
+  private async startSession(user: User, context: SessionContext) {
+    // A fresh login on a known device replaces whatever session that device held
+    if (context.deviceId) {
+      await this.sessionsService.revokeDevice(user.id, context.deviceId);
+    }
+
+    const tokens = await this.issueTokens(user, uuidv4(), context);
+
+    // Admins can still sign in to enroll, but admin routes stay closed until they do
+    if (this.isAdminMfaRequired(user) && !user.mfaEnabledAt) {
+      return { ...tokens, mfa_enrollment_required: true };
+    }
+
+    return tokens;
   }
 
-  async register(registerDto: RegisterDto) {
-    const existingUser = await this.usersService.findByEmail(registerDto.email);
+  private isEmailVerificationRequired(): boolean {
+    return this.configService.get('AUTH_REQUIRE_EMAIL_VERIFICATION') === 'true';
+  }
+
+  private isAdminMfaRequired(user: Pick<User, 'roles'>): boolean {
+    return (
+      this.configService.get('AUTH_REQUIRE_ADMIN_MFA') === 'true' &&
+      user.roles.some(role => ADMIN_ROLES.includes(role.name))
+    );
+  }
+
+  /**
+   * Signs the new user in as a login would, unless logins wait for the email address to be
+   * verified; then only the account comes back.
+   */
+  async register(registerDto: RegisterDto, context: SessionContext = {}) {
+    const { organization, ...fields } = registerDto;
+
+    await this.enterOrganization(organization);
+    const existingUser = await this.usersService.findByEmail(fields.email);
 
     if (existingUser) {
       throw new UnauthorizedException('Email already exists');
     }
 
-    const user = await this.usersService.create(registerDto);
+    const user = await this.usersService.create(fields);
+    await this.sendVerificationEmail(user);
+
+    if (this.isEmailVerificationRequired()) {
+      return {
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          organizationId: user.organizationId,
+          roles: user.roles.map(role => role.name),
+        },
+      };
+    }
+
+    const session = await this.startSession(user, { ...context, mfaAuthenticated: false });
+    return { ...session, user: { ...session.user, name: user.name } };
+  }
+
+  async forgotPassword({ email, organization }: ForgotPasswordDto) {
+    await this.enterOrganization(organization);
+    const user = await this.usersService.findByEmail(email);
+
+    // Same answer either way so the endpoint can't be used to probe for accounts
+    if (user) {
+      await this.sendPasswordResetEmail(
+        user,
+        'If you did not request this, you can ignore this email.',
+      );
+    }
+
+    return { message: 'If the email is registered, a password reset link has been sent' };
+  }
+
+  /**
+   * Admin action: locks the account until the owner picks a new password through the
+   * emailed link, and signs out every session and personal access token it holds.
+   */
+  async forcePasswordReset(userId: string, actorPermissions: string[]) {
+    const user = await this.usersService.findOne(userId);
+    this.usersService.assertCanManage(user, actorPermissions);
+
+    await this.usersService.requirePasswordReset(user.id);
+    const revokedSessions = await this.sessionsService.revokeAllForUser(user.id);
+    const revokedTokens = await this.personalAccessTokensService.revokeAllForUser(user.id);
+    const emailSent = await this.sendPasswordResetEmail(
+      user,
+      'An administrator has required a password change for your account.',
+    );
+
+    return { revokedSessions, revokedTokens, emailSent };
+  }
+
+  private async sendPasswordResetEmail(user: User, note: string) {
+    const token = await this.accountTokensService.issue(
+      user.id,
+      AccountTokenType.PASSWORD_RESET,
+      parseInt(this.configService.get('PASSWORD_RESET_TTL_MINUTES', '60'), 10),
+    );
+    return this.mailService.send({
+      to: user.email,
+      subject: 'Reset your TaskFlow password',
+      text: `Hi ${user.name},\n\nUse the link below to choose a new password:\n${this.buildLink('reset-password', token)}\n\n${note}`,
+    });
+  }
+
+  async resetPassword({ token, password }: ResetPasswordDto) {
+    const userId = await this.accountTokensService.consume(token, AccountTokenType.PASSWORD_RESET);
+
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.enterUserOrganization(userId);
+    await this.usersService.setPassword(userId, password);
+    // Anyone holding the old password may also hold a session
+    await this.sessionsService.revokeAllForUser(userId);
+
+    return { message: 'Password has been reset' };
+  }
+
+  async verifyEmail({ token }: VerifyEmailDto) {
+    const userId = await this.accountTokensService.consume(
+      token,
+      AccountTokenType.EMAIL_VERIFICATION,
+    );
+
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.enterUserOrganization(userId);
+    await this.usersService.markEmailVerified(userId);
+
+    return { message: 'Email address verified' };
+  }
+
+  async resendVerification({ email, organization }: ForgotPasswordDto) {
+    await this.enterOrganization(organization);
+    const user = await this.usersService.findByEmail(email);
+
+    if (user && !user.emailVerifiedAt) {
+      await this.sendVerificationEmail(user);
+    }
+
+    return { message: 'If the email awaits verification, a new link has been sent' };
+  }
 
-    const token = this.generateToken(user.id);
+  private async sendVerificationEmail(user: User) {
+    const token = await this.accountTokensService.issue(
+      user.id,
+      AccountTokenType.EMAIL_VERIFICATION,
+      parseInt(this.configService.get('EMAIL_VERIFICATION_TTL_MINUTES', '2880'), 10),
+    );
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Verify your TaskFlow email address',
+      text: `Hi ${user.name},\n\nConfirm your email address by opening:\n${this.buildLink('verify-email', token)}`,
+    });
+  }
+
+  private buildLink(path: string, token: string) {
+    const baseUrl = this.configService.get('APP_URL', 'http://localhost:3000');
+    return `${baseUrl}/${path}?token=${token}`;
+  }
+
+  private async issueTokens(user: User, familyId: string, context: SessionContext) {
+    const sessionId = uuidv4();
+
+    const refreshToken = await this.jwtService.signAsync(
+      { sub: user.id, jti: sessionId },
+      {
+        expiresIn: this.configService.get('JWT_REFRESH_EXPIRATION', '7d'),
+        secret: this.configService.get('JWT_REFRESH_SECRET'),
+      },
+    );
+    const { exp } = this.jwtService.decode(refreshToken);
+
+    await this.sessionsService.create(
+      sessionId,
+      user.id,
+      familyId,
+      refreshToken,
+      new Date(exp * 1000),
+      context,
+    );
+
+    const mfaAuthenticated = context.mfaAuthenticated === true;
+    const { roles, permissions } = this.rolesService.resolveGrants(user.roles, mfaAuthenticated);
+
+    const payload = {
+      sub: user.id,
+      email: user.email,
+      roles,
+      permissions,
+      org: user.organizationId,
+      sid: familyId,
+      mfa: mfaAuthenticated,
+    };
 
     return {
+      access_token: this.jwtService.sign(payload),
+      refresh_token: refreshToken,
       user: {
         id: user.id,
         email: user.email,
-        name: user.name,
-        role: user.role,
+        organizationId: user.organizationId,
+        roles,
+        permissions,
       },
-      token,
     };
   }
 
-  private generateToken(userId: string) {
-    const payload = { sub: userId };
-    return this.jwtService.sign(payload);
-  }
-
   async validateUser(userId: string): Promise<any> {
     const user = await this.usersService.findOne(userId);
     
@@ -91,25 +365,62 @@ export class AuthService {
   }
 
   async validateUserRoles(userId: string, requiredRoles: string[]): Promise<boolean> {
-    return true;
+    const user = await this.usersService.findOne(userId);
+    return user.roles.some(role => requiredRoles.includes(role.name));
   }
 
-  
-  async refreshTokens(userId: string, providedRt: string) {
-    const user:any = await this.usersService.findOne(userId);
+  async refreshTokens(
+    userId: string,
+    sessionId: string,
+    providedRt: string,
+    context: SessionContext = {},
+  ) {
+    const session = await this.sessionsService.findOne(sessionId);
 
-    if (!user || !user.refreshToken) {
+    if (
+      !session ||
+      session.userId !== userId ||
+      session.tokenHash !== this.sessionsService.hashToken(providedRt)
+    ) {
       throw new ForbiddenException('Access Denied');
     }
 
-    const isMatch = await bcrypt.compare(providedRt, user.refreshToken);
-    if (!isMatch) {
+    if (session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
       throw new ForbiddenException('Access Denied');
     }
 
-    const tokens = await this.login(user);
+    // rotate -> a token that was already exchanged means it leaked, so kill the whole family
+    const rotated = await this.sessionsService.markRotated(session.id);
+    if (!rotated) {
+      await this.sessionsService.revokeFamily(session.familyId);
+      this.logger.warn(
+        `Refresh token reuse detected for user ${userId}, revoked session family ${session.familyId}`,
+      );
+      throw new ForbiddenException('Access Denied');
+    }
 
-    // rotate -> overwrite old one
-    return tokens;
+    const user = await this.enterUserOrganization(userId);
+    this.assertCanSignIn(user);
+
+    return this.issueTokens(user, session.familyId, {
+      deviceId: session.deviceId,
+      mfaAuthenticated: session.mfaAuthenticated,
+      userAgent: context.userAgent ?? session.userAgent,
+      ipAddress: context.ipAddress ?? session.ipAddress,
+    });
+  }
+
+  async logout(sessionFamilyId?: string) {
+    const revokedSessions = sessionFamilyId
+      ? await this.sessionsService.revokeFamily(sessionFamilyId)
+      : 0;
+
+    return { revokedSessions };
+  }
+
+  async logoutAll(userId: string) {
+    const revokedSessions = await this.sessionsService.revokeAllForUser(userId);
+
+    return { revokedSessions };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { TokenScope } from '../enums/token-scope.enum';
+
+export const SCOPES_KEY = 'token_scopes';
+
+// Scopes a personal access token must carry to call the route; JWT sessions are not restricted
+export const RequireScopes = (...scopes: TokenScope[]) => SetMetadata(SCOPES_KEY, scopes);
@@ -0,0 +1,33 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TokenScope } from '../enums/token-scope.enum';
+
+export class CreatePersonalAccessTokenDto {
+  @ApiProperty({ example: 'CI reporting bot' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: TokenScope, isArray: true, example: [TokenScope.TASKS_READ] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(TokenScope, { each: true })
+  scopes: TokenScope[];
+
+  @ApiProperty({ example: '2025-12-31T23:59:59Z', required: false })
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
@@ -0,0 +1,19 @@
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ForgotPasswordDto {
+  @ApiProperty({ example: 'john.doe@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({
+    example: 'finance',
+    required: false,
+    description: 'Organization slug; defaults to the default organization',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  organization?: string;
+}
@@ -1,4 +1,4 @@
-import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class LoginDto {
@@ -11,4 +11,24 @@ export class LoginDto {
   @IsString()
   @IsNotEmpty()
   password: string;
-} 
\ No newline at end of file
+
+  @ApiProperty({
+    example: 'iphone-15-8f2c',
+    required: false,
+    description: 'Stable client device identifier; logging in again replaces that device session',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(128)
+  deviceId?: string;
+
+  @ApiProperty({
+    example: 'finance',
+    required: false,
+    description: 'Organization slug; defaults to the default organization',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  organization?: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MfaCodeDto {
+  @ApiProperty({ example: '123456', description: 'Authenticator code or recovery code' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
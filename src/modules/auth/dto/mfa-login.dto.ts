@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { MfaCodeDto } from './mfa-code.dto';
+
+export class MfaLoginDto extends MfaCodeDto {
+  @ApiProperty({ description: 'The mfa_token returned by POST /auth/login' })
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
@@ -1,4 +1,4 @@
-import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength, MinLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class RegisterDto {
@@ -17,4 +17,14 @@ export class RegisterDto {
   @IsNotEmpty()
   @MinLength(6)
   password: string;
+
+  @ApiProperty({
+    example: 'finance',
+    required: false,
+    description: 'Organization slug; defaults to the default organization',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  organization?: string;
 } 
\ No newline at end of file
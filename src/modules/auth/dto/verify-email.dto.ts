@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VerifyEmailDto {
+  @ApiProperty({ example: '5f2b8c...' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,45 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { AccountTokenType } from '../enums/account-token-type.enum';
+
+/**
+ * Single-use tokens mailed to users (password reset, email verification).
+ * Only the SHA-256 digest is stored.
+ */
+@Entity('account_tokens')
+@Index(['userId', 'type'])
+export class AccountToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: Relation<User>;
+
+  @Column({ type: 'enum', enum: AccountTokenType })
+  type: AccountTokenType;
+
+  @Column({ name: 'token_hash', unique: true })
+  tokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { TokenScope } from '../enums/token-scope.enum';
+
+@Entity('personal_access_tokens')
+@Index(['userId'])
+export class PersonalAccessToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: Relation<User>;
+
+  @Column()
+  name: string;
+
+  // First characters of the token, so users can tell their tokens apart
+  @Column({ name: 'token_prefix' })
+  tokenPrefix: string;
+
+  @Column({ name: 'token_hash', unique: true })
+  tokenHash: string;
+
+  @Column({ type: 'text', array: true })
+  scopes: TokenScope[];
+
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
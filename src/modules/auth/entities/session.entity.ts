@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * One row per issued refresh token. Rows sharing a `familyId` form the
+ * rotation chain of a single device login.
+ */
+@Entity('sessions')
+@Index(['userId'])
+@Index(['familyId'])
+export class Session {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'family_id', type: 'uuid' })
+  familyId: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: Relation<User>;
+
+  @Column({ name: 'device_id', nullable: true })
+  deviceId: string;
+
+  @Column({ name: 'user_agent', nullable: true })
+  userAgent: string;
+
+  @Column({ name: 'ip_address', nullable: true })
+  ipAddress: string;
+
+  @Column({ name: 'mfa_authenticated', default: false })
+  mfaAuthenticated: boolean;
+
+  @Column({ name: 'token_hash' })
+  tokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'rotated_at', type: 'timestamp', nullable: true })
+  rotatedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,5 +1,35 @@
-import { Injectable } from '@nestjs/common';
+import { ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import { TokenScope } from '../enums/token-scope.enum';
 
+// Accepts access-token JWTs and personal access tokens
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {} 
\ No newline at end of file
+export class JwtAuthGuard extends AuthGuard(['jwt', 'personal-access-token']) {
+  constructor(private reflector: Reflector) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const authenticated = (await super.canActivate(context)) as boolean;
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!authenticated || !user?.personalAccessTokenId) {
+      return authenticated;
+    }
+
+    // Routes without declared scopes are closed to personal access tokens
+    const requiredScopes =
+      this.reflector.getAllAndOverride<TokenScope[]>(SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
+    if (!requiredScopes.length || !requiredScopes.every(scope => user.scopes.includes(scope))) {
+      throw new ForbiddenException('Token is missing the required scope');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,46 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { MfaService } from './mfa.service';
+import { MfaCodeDto } from './dto/mfa-code.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthenticatedUser } from './strategies/jwt.strategy';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+
+@ApiTags('auth')
+@Controller('auth/mfa')
+@UseGuards(JwtAuthGuard, RateLimitGuard)
+@RateLimit({ limit: 10, windowMs: 60 * 1000 })
+@ApiBearerAuth()
+export class MfaController {
+  constructor(private readonly mfaService: MfaService) {}
+
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Generate a pending TOTP secret and otpauth URI' })
+  setup(@CurrentUser() user: AuthenticatedUser) {
+    return this.mfaService.setup(user.id);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Enable MFA with a first code and receive recovery codes' })
+  confirm(@CurrentUser() user: AuthenticatedUser, @Body() mfaCodeDto: MfaCodeDto) {
+    return this.mfaService.confirm(user.id, mfaCodeDto.code);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable MFA' })
+  disable(@CurrentUser() user: AuthenticatedUser, @Body() mfaCodeDto: MfaCodeDto) {
+    return this.mfaService.disable(user.id, mfaCodeDto.code);
+  }
+
+  @Post('recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace all recovery codes' })
+  regenerateRecoveryCodes(@CurrentUser() user: AuthenticatedUser, @Body() mfaCodeDto: MfaCodeDto) {
+    return this.mfaService.regenerateRecoveryCodes(user.id, mfaCodeDto.code);
+  }
+}
@@ -0,0 +1,139 @@
+import { ConfigService } from '@nestjs/config';
+import { MfaService } from './mfa.service';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { currentTotpStep, generateTotp } from './utils/totp.util';
+
+/**
+ * In-memory stand-in for the MFA columns of UsersService, with the same semantics as its
+ * conditional UPDATEs: a step is claimed only when it's later than the last one, and a recovery
+ * code hash is removed only when present.
+ */
+function createUsersService(user: User) {
+  return {
+    findOne: jest.fn(async () => user),
+    updateMfa: jest.fn(async (_id: string, fields: Partial<User>) => {
+      Object.assign(user, fields);
+    }),
+    claimMfaStep: jest.fn(async (_id: string, step: number) => {
+      if (user.mfaLastUsedStep !== null && Number(user.mfaLastUsedStep) >= step) {
+        return false;
+      }
+      user.mfaLastUsedStep = String(step);
+      return true;
+    }),
+    consumeMfaRecoveryCode: jest.fn(async (_id: string, codeHash: string) => {
+      if (!user.mfaRecoveryCodes.includes(codeHash)) {
+        return false;
+      }
+      user.mfaRecoveryCodes = user.mfaRecoveryCodes.filter(hash => hash !== codeHash);
+      return true;
+    }),
+  };
+}
+
+describe('MfaService', () => {
+  let user: User;
+  let usersService: ReturnType<typeof createUsersService>;
+  let service: MfaService;
+
+  const codeAt = (offsetSteps = 0) =>
+    generateTotp(user.mfaSecret as string, currentTotpStep() + offsetSteps);
+
+  beforeEach(async () => {
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'ada@example.com',
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaRecoveryCodes: [],
+      mfaLastUsedStep: null,
+    });
+    usersService = createUsersService(user);
+    service = new MfaService(
+      usersService as unknown as UsersService,
+      new ConfigService({ MFA_ISSUER: 'TaskFlow' }),
+    );
+
+    await service.setup(user.id);
+  });
+
+  it('returns an otpauth URI for the pending secret', async () => {
+    const result = await service.setup(user.id);
+
+    expect(result.otpauth_uri).toContain(`secret=${result.secret}`);
+    expect(result.otpauth_uri).toContain('issuer=TaskFlow');
+  });
+
+  describe('recovery codes', () => {
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+      ({ recovery_codes: recoveryCodes } = await service.confirm(user.id, codeAt()));
+    });
+
+    it('stores only SHA-256 hashes of the issued codes', () => {
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+      expect(user.mfaRecoveryCodes).toHaveLength(10);
+      for (const hash of user.mfaRecoveryCodes) {
+        expect(hash).toMatch(/^[0-9a-f]{64}$/);
+        expect(recoveryCodes).not.toContain(hash);
+      }
+    });
+
+    it('accepts each code once', async () => {
+      const [code] = recoveryCodes;
+
+      await expect(service.verify(user, code)).resolves.toBe(true);
+      await expect(service.verify(user, code)).resolves.toBe(false);
+      expect(user.mfaRecoveryCodes).toHaveLength(9);
+    });
+
+    it('ignores case and separators when matching a code', async () => {
+      const code = recoveryCodes[0].replace('-', '').toUpperCase();
+
+      await expect(service.verify(user, ` ${code} `)).resolves.toBe(true);
+    });
+
+    it('rejects unknown codes', async () => {
+      await expect(service.verify(user, 'aaaaa-bbbbb')).resolves.toBe(false);
+      expect(user.mfaRecoveryCodes).toHaveLength(10);
+    });
+
+    it('replaces every code on regeneration', async () => {
+      const { recovery_codes: regenerated } = await service.regenerateRecoveryCodes(
+        user.id,
+        codeAt(1),
+      );
+
+      expect(regenerated).not.toEqual(recoveryCodes);
+      await expect(service.verify(user, recoveryCodes[0])).resolves.toBe(false);
+      await expect(service.verify(user, regenerated[0])).resolves.toBe(true);
+    });
+  });
+
+  describe('TOTP replay', () => {
+    beforeEach(async () => {
+      await service.confirm(user.id, codeAt(-1));
+    });
+
+    it('rejects a code whose step was already used', async () => {
+      await expect(service.verify(user, codeAt(-1))).resolves.toBe(false);
+    });
+
+    it('accepts a later step once, then rejects it and anything earlier', async () => {
+      await expect(service.verify(user, codeAt())).resolves.toBe(true);
+      await expect(service.verify(user, codeAt())).resolves.toBe(false);
+      await expect(service.verify(user, codeAt(-1))).resolves.toBe(false);
+      expect(usersService.claimMfaStep).toHaveBeenLastCalledWith(user.id, currentTotpStep() - 1);
+    });
+
+    it('does not claim a step for a wrong code', async () => {
+      usersService.claimMfaStep.mockClear();
+
+      await expect(service.verify(user, '000000')).resolves.toBe(false);
+      expect(usersService.claimMfaStep).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { BadRequestException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './utils/totp.util';
+import * as crypto from 'crypto';
+
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+export class MfaService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async setup(userId: string) {
+    const user = await this.usersService.findOne(userId);
+
+    if (user.mfaEnabledAt) {
+      throw new BadRequestException('MFA is already enabled');
+    }
+
+    // Stored as pending until confirmed with a valid code
+    const secret = generateTotpSecret();
+    await this.usersService.updateMfa(user.id, { mfaSecret: secret, mfaLastUsedStep: null });
+
+    return {
+      secret,
+      otpauth_uri: buildOtpauthUri(
+        secret,
+        user.email,
+        this.configService.get('MFA_ISSUER', 'TaskFlow'),
+      ),
+    };
+  }
+
+  async confirm(userId: string, code: string) {
+    const user = await this.usersService.findOne(userId);
+
+    if (user.mfaEnabledAt) {
+      throw new BadRequestException('MFA is already enabled');
+    }
+    if (!user.mfaSecret) {
+      throw new BadRequestException('MFA setup has not been started');
+    }
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersService.updateMfa(user.id, {
+      mfaEnabledAt: new Date(),
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    });
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  async disable(userId: string, code: string) {
+    const user = await this.usersService.findOne(userId);
+
+    if (!user.mfaEnabledAt) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+    if (!(await this.verify(user, code))) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    await this.usersService.updateMfa(user.id, {
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaRecoveryCodes: [],
+      mfaLastUsedStep: null,
+    });
+
+    return { message: 'MFA disabled' };
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const user = await this.usersService.findOne(userId);
+
+    if (!user.mfaEnabledAt) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+    if (!(await this.verifyTotpCode(user, code))) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersService.updateMfa(user.id, {
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+    });
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Accepts either a current TOTP code or one of the unused recovery codes.
+   */
+  async verify(user: User, code: string): Promise<boolean> {
+    if (!user.mfaEnabledAt || !user.mfaSecret) {
+      return false;
+    }
+
+    const normalized = code.trim();
+    if (/^\d{6}$/.test(normalized)) {
+      return this.verifyTotpCode(user, normalized);
+    }
+
+    return this.usersService.consumeMfaRecoveryCode(user.id, this.hashRecoveryCode(normalized));
+  }
+
+  private async verifyTotpCode(user: User, code: string): Promise<boolean> {
+    const step = verifyTotp(user.mfaSecret as string, code);
+    if (step === null) {
+      return false;
+    }
+    return this.usersService.claimMfaStep(user.id, step);
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthenticatedUser } from './strategies/jwt.strategy';
+
+@ApiTags('auth')
+@Controller('auth/tokens')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class PersonalAccessTokensController {
+  constructor(private readonly personalAccessTokensService: PersonalAccessTokensService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a personal access token (returned once)' })
+  create(@CurrentUser() user: AuthenticatedUser, @Body() createDto: CreatePersonalAccessTokenDto) {
+    return this.personalAccessTokensService.create(user.id, createDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List active personal access tokens' })
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.personalAccessTokensService.findAllForUser(user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke a personal access token' })
+  revoke(@CurrentUser() user: AuthenticatedUser, @Param('id') id: string) {
+    return this.personalAccessTokensService.revoke(user.id, id);
+  }
+}
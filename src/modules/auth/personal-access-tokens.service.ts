@@ -0,0 +1,112 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+import * as crypto from 'crypto';
+
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'tfp_';
+
+@Injectable()
+export class PersonalAccessTokensService {
+  constructor(
+    @InjectRepository(PersonalAccessToken)
+    private tokensRepository: Repository<PersonalAccessToken>,
+  ) {}
+
+  private hash(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  async create(userId: string, createDto: CreatePersonalAccessTokenDto) {
+    const expiresAt = createDto.expiresAt ? new Date(createDto.expiresAt) : null;
+
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const saved = await this.tokensRepository.save(
+      this.tokensRepository.create({
+        userId,
+        name: createDto.name,
+        scopes: createDto.scopes,
+        expiresAt,
+        tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+        tokenHash: this.hash(token),
+      }),
+    );
+
+    // The raw token is only ever returned here
+    return { ...this.toResponse(saved), token };
+  }
+
+  async findAllForUser(userId: string) {
+    const tokens = await this.tokensRepository.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    return tokens.map(token => this.toResponse(token));
+  }
+
+  async revoke(userId: string, id: string) {
+    const result = await this.tokensRepository.update(
+      { id, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    if (!result.affected) {
+      throw new NotFoundException(`Token with ID ${id} not found`);
+    }
+  }
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    const result = await this.tokensRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Resolves a raw token to its record, or null when it is unknown, revoked or expired,
+   * or its owner is currently locked out.
+   */
+  async validate(token: string): Promise<PersonalAccessToken | null> {
+    const record = await this.tokensRepository.findOne({
+      where: { tokenHash: this.hash(token), revokedAt: IsNull() },
+      relations: ['user'],
+    });
+
+    if (!record || (record.expiresAt && record.expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+    if (record.user.deactivatedAt || record.user.passwordResetRequired) {
+      return null;
+    }
+
+    // Throttled so a busy integration doesn't write on every request
+    await this.tokensRepository
+      .createQueryBuilder()
+      .update(PersonalAccessToken)
+      .set({ lastUsedAt: () => 'now()' })
+      .where('id = :id', { id: record.id })
+      .andWhere("(last_used_at IS NULL OR last_used_at < now() - interval '1 minute')")
+      .execute();
+
+    return record;
+  }
+
+  private toResponse(token: PersonalAccessToken) {
+    return {
+      id: token.id,
+      name: token.name,
+      tokenPrefix: token.tokenPrefix,
+      scopes: token.scopes,
+      expiresAt: token.expiresAt,
+      lastUsedAt: token.lastUsedAt,
+      createdAt: token.createdAt,
+    };
+  }
+}
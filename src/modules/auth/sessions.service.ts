@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Session } from './entities/session.entity';
+import { CacheService } from '../../common/cache/cache.service';
+import * as crypto from 'crypto';
+
+// Access tokens are checked against their session on every request; revoking clears the entry
+const SESSION_ACTIVE_CACHE_TTL = 30;
+
+export interface SessionContext {
+  deviceId?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  mfaAuthenticated?: boolean;
+}
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    @InjectRepository(Session)
+    private sessionsRepository: Repository<Session>,
+    private cacheService: CacheService,
+  ) {}
+
+  // Refresh tokens are JWTs longer than bcrypt's 72-byte input limit, so a plain digest is used
+  hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  async create(
+    id: string,
+    userId: string,
+    familyId: string,
+    refreshToken: string,
+    expiresAt: Date,
+    context: SessionContext,
+  ): Promise<void> {
+    await this.sessionsRepository.insert({
+      id,
+      userId,
+      familyId,
+      deviceId: context.deviceId,
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      mfaAuthenticated: context.mfaAuthenticated === true,
+      tokenHash: this.hashToken(refreshToken),
+      expiresAt,
+    });
+  }
+
+  findOne(id: string): Promise<Session | null> {
+    return this.sessionsRepository.findOne({ where: { id } });
+  }
+
+  /**
+   * Atomically marks a session as rotated. Returns false when it was already
+   * rotated or revoked, which means the presented refresh token is being reused.
+   */
+  async markRotated(id: string): Promise<boolean> {
+    const result = await this.sessionsRepository
+      .createQueryBuilder()
+      .update(Session)
+      .set({ rotatedAt: () => 'now()' })
+      .where('id = :id', { id })
+      .andWhere('rotated_at IS NULL')
+      .andWhere('revoked_at IS NULL')
+      .execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Whether a session family still has an unrevoked session, i.e. whether access tokens
+   * issued for it may be used. Rotation keeps the family alive; logout and revocation end it.
+   */
+  isFamilyActive(familyId: string, userId: string): Promise<boolean> {
+    return this.cacheService.wrap(
+      this.familyCacheKey(familyId),
+      async () =>
+        (await this.sessionsRepository.count({
+          where: { familyId, userId, revokedAt: IsNull() },
+        })) > 0,
+      SESSION_ACTIVE_CACHE_TTL,
+      { tags: [this.userCacheTag(userId)] },
+    );
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    const result = await this.sessionsRepository.update(
+      { familyId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.cacheService.delete(this.familyCacheKey(familyId));
+    return result.affected ?? 0;
+  }
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    const result = await this.sessionsRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.cacheService.invalidateTags([this.userCacheTag(userId)]);
+    this.logger.log(`Revoked ${result.affected ?? 0} sessions for user ${userId}`);
+    return result.affected ?? 0;
+  }
+
+  async revokeDevice(userId: string, deviceId: string): Promise<number> {
+    const result = await this.sessionsRepository.update(
+      { userId, deviceId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    await this.cacheService.invalidateTags([this.userCacheTag(userId)]);
+    return result.affected ?? 0;
+  }
+
+  private familyCacheKey(familyId: string): string {
+    return `sessions:family:${familyId}`;
+  }
+
+  private userCacheTag(userId: string): string {
+    return `sessions:user:${userId}`;
+  }
+}
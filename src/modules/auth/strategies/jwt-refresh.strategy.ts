@@ -19,6 +19,7 @@ export class JwtRefreshTokenStrategy extends PassportStrategy(
     const refreshToken = req.get('authorization').replace('Bearer ', '');
     return {
       sub: payload.sub,
+      sessionId: payload.jti,
       refreshToken,
     };
   }
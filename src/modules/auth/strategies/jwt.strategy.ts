@@ -3,12 +3,45 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../../users/users.service';
+import { SessionsService } from '../sessions.service';
+import { TokenScope } from '../enums/token-scope.enum';
+import { TenantContext } from '../../../common/tenancy/tenant-context.service';
+
+// Claims of the tokens AuthService signs; `typ` marks tokens that aren't access tokens
+export interface JwtPayload {
+  sub: string;
+  email?: string;
+  roles?: string[];
+  permissions?: string[];
+  org?: string;
+  sid?: string;
+  mfa?: boolean;
+  typ?: string;
+  // Only on MFA-pending tokens, carried over to the session they turn into
+  deviceId?: string;
+}
+
+// What `@CurrentUser()` holds for both access tokens and personal access tokens
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  organizationId: string;
+  roles: string[];
+  permissions: string[];
+  mfaAuthenticated: boolean;
+  sessionId?: string;
+  personalAccessTokenId?: string;
+  scopes?: TokenScope[];
+}
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private configService: ConfigService,
     private usersService: UsersService,
+    private sessionsService: SessionsService,
+    private tenantContext: TenantContext,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -17,18 +50,48 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: any) {
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    if (payload.typ) {
+      // Only plain access tokens authenticate requests (not e.g. pending MFA tokens)
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    // Tokens issued before organizations existed carry no tenant and have to be renewed
+    if (!payload.org) {
+      throw new UnauthorizedException('Token has no organization');
+    }
+    // Scopes the rest of the request, starting with the user lookup below
+    this.tenantContext.setTenantId(payload.org);
+
+    // Logging out or revoking a session ends its access tokens too, not just its refresh token
+    if (!payload.sid || !(await this.sessionsService.isFamilyActive(payload.sid, payload.sub))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     const user = await this.usersService.findOne(payload.sub);
-    
+
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
-    
+
+    if (user.deactivatedAt) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    if (user.passwordResetRequired) {
+      throw new UnauthorizedException('Password reset required');
+    }
+
     return {
       id: user.id,
       email: user.email,
       name: user.name,
-      role: user.role,
+      organizationId: user.organizationId,
+      // Grants are fixed at sign-in and picked up again on the next refresh
+      roles: payload.roles ?? [],
+      permissions: payload.permissions ?? [],
+      sessionId: payload.sid,
+      mfaAuthenticated: payload.mfa === true,
     };
   }
-} 
\ No newline at end of file
+}
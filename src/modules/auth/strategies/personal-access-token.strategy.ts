@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { RolesService } from '../../roles/roles.service';
+import { TenantContext } from '../../../common/tenancy/tenant-context.service';
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokensService,
+} from '../personal-access-tokens.service';
+import { AuthenticatedUser } from './jwt.strategy';
+
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(
+  Strategy,
+  'personal-access-token',
+) {
+  constructor(
+    private personalAccessTokensService: PersonalAccessTokensService,
+    private rolesService: RolesService,
+    private tenantContext: TenantContext,
+  ) {
+    super();
+  }
+
+  async validate(token: string): Promise<AuthenticatedUser | false> {
+    // JWTs fall through to here when the jwt strategy rejects them; don't bother hashing those
+    if (!token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return false;
+    }
+
+    const record = await this.personalAccessTokensService.validate(token);
+
+    if (!record) {
+      return false;
+    }
+
+    this.tenantContext.setTenantId(record.user.organizationId);
+
+    return {
+      id: record.user.id,
+      email: record.user.email,
+      name: record.user.name,
+      organizationId: record.user.organizationId,
+      ...this.rolesService.resolveGrants(record.user.roles, false),
+      mfaAuthenticated: false,
+      personalAccessTokenId: record.id,
+      scopes: record.scopes,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Controller, HttpCode, HttpStatus, Param, Post, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthenticatedUser } from './strategies/jwt.strategy';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RequireScopes } from './decorators/require-scopes.decorator';
+import { TokenScope } from './enums/token-scope.enum';
+import { PermissionsGuard } from '../roles/guards/permissions.guard';
+import { RequirePermissions } from '../roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
+
+// Part of the admin user API, but lives here because it needs sessions, tokens and mail
+@ApiTags('users')
+@Controller('users')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class UserPasswordResetController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post(':id/force-password-reset')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
+  @ApiOperation({ summary: 'Lock an account until its owner resets the password' })
+  forcePasswordReset(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.authService.forcePasswordReset(id, user.permissions);
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  base32Decode,
+  base32Encode,
+  currentTotpStep,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp.util';
+
+// RFC 6238 appendix B, SHA-1 seed "12345678901234567890"; 6-digit codes are the low digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+const RFC_VECTORS: [seconds: number, code: string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+describe('totp.util', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('base32', () => {
+    it('encodes the RFC seed the way authenticator apps expect', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('round-trips random secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Encode(base32Decode(secret))).toBe(secret);
+    });
+
+    it('ignores padding, whitespace and case when decoding', () => {
+      expect(base32Decode('gezd gnbv gy======')).toEqual(base32Decode('GEZDGNBVGY'));
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character "1"');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each(RFC_VECTORS)('matches the RFC 6238 vector at T=%d', (seconds, code) => {
+      expect(generateTotp(RFC_SECRET, currentTotpStep(seconds * 1000))).toBe(code);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111111 * 1000;
+    const step = currentTotpStep(now);
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    it('returns the step of a current code', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step))).toBe(step);
+    });
+
+    it('accepts codes one step either side of the current one', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2))).toBeNull();
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2))).toBeNull();
+    });
+
+    it('widens the window when asked to', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 2)).toBe(step - 2);
+    });
+
+    it.each(['', '12345', '1234567', 'abcdef', '05047 '])(
+      'rejects the malformed code "%s"',
+      code => {
+        expect(verifyTotp(RFC_SECRET, code)).toBeNull();
+      },
+    );
+  });
+});
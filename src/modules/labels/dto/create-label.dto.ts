@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateLabelDto {
+  @ApiProperty({ example: 'backend' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#3b82f6', required: false })
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex color like #3b82f6' })
+  @IsOptional()
+  color?: string;
+
+  @ApiProperty({
+    example: false,
+    required: false,
+    description: 'Create a label visible to everyone (requires tasks:manage)',
+  })
+  @IsBoolean()
+  @IsOptional()
+  global?: boolean;
+}
@@ -0,0 +1,5 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateLabelDto } from './create-label.dto';
+
+// Scope is fixed at creation
+export class UpdateLabelDto extends PartialType(OmitType(CreateLabelDto, ['global'] as const)) {}
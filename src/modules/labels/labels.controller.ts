@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { LabelsService } from './labels.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { TokenScope } from '../auth/enums/token-scope.enum';
+import { PermissionsGuard } from '../roles/guards/permissions.guard';
+import { RequirePermissions } from '../roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
+import { hasPermission } from '../roles/permissions.util';
+
+@ApiTags('labels')
+@Controller('labels')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List your labels and the global ones' })
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.labelsService.findAllVisible(user.id);
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Create a label' })
+  create(@CurrentUser() user: AuthenticatedUser, @Body() createLabelDto: CreateLabelDto) {
+    return this.labelsService.create(
+      user.id,
+      createLabelDto,
+      hasPermission(user, PermissionKey.TASKS_MANAGE),
+    );
+  }
+
+  @Patch(':id')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Rename or recolor a label' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() updateLabelDto: UpdateLabelDto,
+  ) {
+    return this.labelsService.update(
+      id,
+      user.id,
+      updateLabelDto,
+      hasPermission(user, PermissionKey.TASKS_MANAGE),
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Delete a label and detach it from all tasks' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.labelsService.remove(id, user.id, hasPermission(user, PermissionKey.TASKS_MANAGE));
+  }
+}
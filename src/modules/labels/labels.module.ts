@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Label } from './entities/label.entity';
+import { LabelsService } from './labels.service';
+import { LabelsController } from './labels.controller';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Label]), TasksModule],
+  controllers: [LabelsController],
+  providers: [LabelsService],
+})
+export class LabelsModule {}
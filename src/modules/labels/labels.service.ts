@@ -0,0 +1,116 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Label } from './entities/label.entity';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { TasksService } from '../tasks/tasks.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+@Injectable()
+export class LabelsService {
+  constructor(
+    @InjectRepository(Label)
+    private labelsRepository: Repository<Label>,
+    private tasksService: TasksService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  // The caller's own labels plus the global ones of their organization
+  findAllVisible(userId: string): Promise<Label[]> {
+    return this.labelsRepository.find({
+      where: [
+        this.tenantContext.scope({ ownerId: userId }),
+        this.tenantContext.scope({ ownerId: IsNull() }),
+      ],
+      order: { name: 'ASC' },
+    });
+  }
+
+  async create(userId: string, createLabelDto: CreateLabelDto, canManageGlobal: boolean) {
+    const { global, ...fields } = createLabelDto;
+
+    if (global && !canManageGlobal) {
+      throw new ForbiddenException('Only task managers can create global labels');
+    }
+
+    const organizationId = this.tenantContext.getTenantId();
+    if (!organizationId) {
+      throw new BadRequestException('No organization to create the label in');
+    }
+
+    const ownerId = global ? null : userId;
+    await this.assertNameAvailable(fields.name, ownerId);
+
+    return this.labelsRepository.save(
+      this.labelsRepository.create({ ...fields, ownerId, organizationId }),
+    );
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    updateLabelDto: UpdateLabelDto,
+    canManageGlobal: boolean,
+  ): Promise<Label> {
+    const label = await this.findEditable(id, userId, canManageGlobal);
+
+    if (updateLabelDto.name && updateLabelDto.name.toLowerCase() !== label.name.toLowerCase()) {
+      await this.assertNameAvailable(updateLabelDto.name, label.ownerId);
+    }
+
+    this.labelsRepository.merge(label, updateLabelDto);
+    const saved = await this.labelsRepository.save(label);
+
+    // Cached tasks embed their labels
+    await this.tasksService.invalidateTaskCache(await this.findTaskIds(id));
+    return saved;
+  }
+
+  async remove(id: string, userId: string, canManageGlobal: boolean): Promise<void> {
+    const label = await this.findEditable(id, userId, canManageGlobal);
+    const taskIds = await this.findTaskIds(id);
+
+    await this.labelsRepository.remove(label);
+    await this.tasksService.invalidateTaskCache(taskIds);
+  }
+
+  // Other users' private labels are reported as missing rather than forbidden
+  private async findEditable(id: string, userId: string, canManageGlobal: boolean) {
+    const label = await this.labelsRepository.findOne({ where: this.tenantContext.scope({ id }) });
+
+    if (!label || (label.ownerId !== null && label.ownerId !== userId)) {
+      throw new NotFoundException(`Label with ID ${id} not found`);
+    }
+    if (label.ownerId === null && !canManageGlobal) {
+      throw new ForbiddenException('Only task managers can change global labels');
+    }
+    return label;
+  }
+
+  private async findTaskIds(labelId: string): Promise<string[]> {
+    const rows: Array<{ task_id: string }> = await this.labelsRepository.query(
+      'SELECT task_id FROM task_labels WHERE label_id = $1',
+      [labelId],
+    );
+    return rows.map(row => row.task_id);
+  }
+
+  private async assertNameAvailable(name: string, ownerId: string | null) {
+    const query = this.labelsRepository
+      .createQueryBuilder('label')
+      .where('LOWER(label.name) = LOWER(:name)', { name })
+      .andWhere(ownerId ? 'label.ownerId = :ownerId' : 'label.ownerId IS NULL', { ownerId });
+    const existing = await this.tenantContext.scopeQuery(query, 'label.organizationId').getExists();
+
+    if (existing) {
+      throw new ConflictException(`Label ${name} already exists`);
+    }
+  }
+}
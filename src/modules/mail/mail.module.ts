@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        if (configService.get('MAIL_TRANSPORT', 'file') === 'smtp') {
+          return new SmtpMailTransport({
+            host: configService.get('SMTP_HOST', 'localhost'),
+            port: parseInt(configService.get('SMTP_PORT', '587'), 10),
+            secure: configService.get('SMTP_SECURE') === 'true',
+            user: configService.get('SMTP_USER'),
+            password: configService.get('SMTP_PASSWORD'),
+          });
+        }
+        return new FileMailTransport(configService.get('MAIL_OUTPUT_DIR'));
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,32 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import type { MailMessage, MailTransport } from './transports/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(message: MailMessage): Promise<boolean> {
+    try {
+      await this.transport.send({
+        ...message,
+        from: this.configService.get('MAIL_FROM', 'TaskFlow <no-reply@taskflow.local>'),
+      });
+      return true;
+    } catch (error) {
+      // Mail delivery must never break the request that triggered it
+      this.logger.error(
+        `Failed to send "${message.subject}" to ${message.to}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Development/test transport. Writes each message as a JSON file when an
+ * output directory is configured, otherwise logs it to the console.
+ */
+export class FileMailTransport implements MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+
+  constructor(private readonly outputDir?: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    if (!this.outputDir) {
+      this.logger.log(`Mail to ${message.to} | Subject: ${message.subject}\n${message.text}`);
+      return;
+    }
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.outputDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateOrganizationDto } from './create-organization.dto';
+
+export class UpdateOrganizationDto extends PartialType(CreateOrganizationDto) {}
@@ -0,0 +1,2 @@
+// Seeded by the organizations migration; sign-ins without an organization go here
+export const DEFAULT_ORGANIZATION_SLUG = 'default';
@@ -0,0 +1,61 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../roles/guards/permissions.guard';
+import { RequirePermissions } from '../roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
+
+// Global administration across tenants; org admins don't hold organizations:manage
+@ApiTags('organizations')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.ORGANIZATIONS_MANAGE)
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List organizations' })
+  findAll() {
+    return this.organizationsService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find an organization by ID' })
+  findOne(@Param('id') id: string) {
+    return this.organizationsService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an organization' })
+  create(@Body() createOrganizationDto: CreateOrganizationDto) {
+    return this.organizationsService.create(createOrganizationDto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename an organization or change its slug' })
+  update(@Param('id') id: string, @Body() updateOrganizationDto: UpdateOrganizationDto) {
+    return this.organizationsService.update(id, updateOrganizationDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an organization without users' })
+  remove(@Param('id') id: string) {
+    return this.organizationsService.remove(id);
+  }
+}
@@ -0,0 +1,68 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Organization } from './entities/organization.entity';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { User } from '../users/entities/user.entity';
+
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    @InjectRepository(Organization)
+    private organizationsRepository: Repository<Organization>,
+  ) {}
+
+  findAll(): Promise<Organization[]> {
+    return this.organizationsRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<Organization> {
+    const organization = await this.organizationsRepository.findOne({ where: { id } });
+    if (!organization) {
+      throw new NotFoundException(`Organization with ID ${id} not found`);
+    }
+    return organization;
+  }
+
+  findBySlug(slug: string): Promise<Organization | null> {
+    return this.organizationsRepository.findOne({ where: { slug } });
+  }
+
+  async create(createOrganizationDto: CreateOrganizationDto): Promise<Organization> {
+    await this.assertSlugAvailable(createOrganizationDto.slug);
+    return this.organizationsRepository.save(
+      this.organizationsRepository.create(createOrganizationDto),
+    );
+  }
+
+  async update(id: string, updateOrganizationDto: UpdateOrganizationDto): Promise<Organization> {
+    const organization = await this.findOne(id);
+
+    if (updateOrganizationDto.slug && updateOrganizationDto.slug !== organization.slug) {
+      await this.assertSlugAvailable(updateOrganizationDto.slug);
+    }
+
+    this.organizationsRepository.merge(organization, updateOrganizationDto);
+    return this.organizationsRepository.save(organization);
+  }
+
+  // Only empty organizations can go; users (and through them tasks) have to be removed first
+  async remove(id: string): Promise<void> {
+    const organization = await this.findOne(id);
+
+    if (
+      await this.organizationsRepository.manager.exists(User, { where: { organizationId: id } })
+    ) {
+      throw new ConflictException('Organization still has users');
+    }
+
+    await this.organizationsRepository.remove(organization);
+  }
+
+  private async assertSlugAvailable(slug: string) {
+    if (await this.findBySlug(slug)) {
+      throw new ConflictException(`Organization ${slug} already exists`);
+    }
+  }
+}
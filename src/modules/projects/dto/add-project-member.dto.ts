@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsUUID } from 'class-validator';
+import { ProjectRole } from '../enums/project-role.enum';
+
+export class AddProjectMemberDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ enum: ProjectRole, example: ProjectRole.EDITOR })
+  @IsEnum(ProjectRole)
+  role: ProjectRole;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'Website relaunch' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Everything for the Q3 relaunch', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
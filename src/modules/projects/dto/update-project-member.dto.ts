@@ -0,0 +1,4 @@
+import { PickType } from '@nestjs/swagger';
+import { AddProjectMemberDto } from './add-project-member.dto';
+
+export class UpdateProjectMemberDto extends PickType(AddProjectMemberDto, ['role']) {}
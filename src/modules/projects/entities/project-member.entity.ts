@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ProjectRole } from '../enums/project-role.enum';
+import { Project } from './project.entity';
+
+@Entity('project_members')
+@Index(['userId'])
+export class ProjectMember {
+  @PrimaryColumn({ name: 'project_id', type: 'uuid' })
+  projectId: string;
+
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'enum', enum: ProjectRole, default: ProjectRole.VIEWER })
+  role: ProjectRole;
+
+  @ManyToOne(() => Project, project => project.members, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'project_id' })
+  project: Relation<Project>;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: Relation<User>;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,5 @@
+export enum ProjectRole {
+  OWNER = 'owner',
+  EDITOR = 'editor',
+  VIEWER = 'viewer',
+}
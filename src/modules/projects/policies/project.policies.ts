@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { PolicyHandler } from '../../../common/decorators/check-policies.decorator';
+import { PermissionKey } from '../../roles/enums/permission-key.enum';
+import { hasPermission } from '../../roles/permissions.util';
+import { ProjectRole } from '../enums/project-role.enum';
+import { PROJECT_ALL_ROLES } from '../projects.constants';
+import { ProjectsService } from '../projects.service';
+import type { AuthenticatedUser } from '../../auth/strategies/jwt.strategy';
+
+// The caller needs one of the subclass's roles in the project in :id; tasks:manage holders
+// may act on every project
+@Injectable()
+export abstract class ProjectRolePolicy implements PolicyHandler {
+  protected abstract readonly roles: ProjectRole[];
+
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    if (hasPermission(user, PermissionKey.TASKS_MANAGE)) {
+      return true;
+    }
+
+    const role = await this.projectsService.findRole(request.params.id, user.id);
+    return role !== null && this.roles.includes(role);
+  }
+}
+
+@Injectable()
+export class ProjectMemberPolicy extends ProjectRolePolicy {
+  protected readonly roles = PROJECT_ALL_ROLES;
+}
+
+@Injectable()
+export class ProjectOwnerPolicy extends ProjectRolePolicy {
+  protected readonly roles = [ProjectRole.OWNER];
+}
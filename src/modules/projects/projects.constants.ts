@@ -0,0 +1,6 @@
+import { ProjectRole } from './enums/project-role.enum';
+
+// Members with these roles may create and change the project's tasks; viewers only read them
+export const PROJECT_WRITE_ROLES = [ProjectRole.OWNER, ProjectRole.EDITOR];
+
+export const PROJECT_ALL_ROLES = Object.values(ProjectRole);
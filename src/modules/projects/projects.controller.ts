@@ -0,0 +1,147 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { UpdateProjectMemberDto } from './dto/update-project-member.dto';
+import { ProjectMemberPolicy, ProjectOwnerPolicy } from './policies/project.policies';
+import { TaskFilterDto } from '../tasks/dto/task-filter.dto';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { TokenScope } from '../auth/enums/token-scope.enum';
+import { PermissionsGuard } from '../roles/guards/permissions.guard';
+import { RequirePermissions } from '../roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
+import { hasPermission } from '../roles/permissions.util';
+
+@ApiTags('projects')
+@Controller('projects')
+@UseGuards(JwtAuthGuard, PermissionsGuard, PoliciesGuard)
+@ApiBearerAuth()
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List the projects you are a member of' })
+  findAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.projectsService.findAll(user.id, hasPermission(user, PermissionKey.TASKS_MANAGE));
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Create a project owned by you' })
+  create(@CurrentUser() user: AuthenticatedUser, @Body() createProjectDto: CreateProjectDto) {
+    return this.projectsService.create(user.id, createProjectDto);
+  }
+
+  @Get(':id')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(ProjectMemberPolicy)
+  @ApiOperation({ summary: 'Find a project by ID' })
+  findOne(@Param('id') id: string) {
+    return this.projectsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(ProjectOwnerPolicy)
+  @ApiOperation({ summary: 'Update a project (owners only)' })
+  update(@Param('id') id: string, @Body() updateProjectDto: UpdateProjectDto) {
+    return this.projectsService.update(id, updateProjectDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_DELETE)
+  @CheckPolicies(ProjectOwnerPolicy)
+  @ApiOperation({ summary: 'Delete a project; its tasks go back to their owners' })
+  remove(@Param('id') id: string) {
+    return this.projectsService.remove(id);
+  }
+
+  @Get(':id/tasks')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(ProjectMemberPolicy)
+  @ApiOperation({ summary: "List a project's tasks with optional filtering" })
+  findTasks(
+    @Param('id') id: string,
+    @Query() filterDto: TaskFilterDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.projectsService.findTasks(id, filterDto, user.id);
+  }
+
+  @Get(':id/stats')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(ProjectMemberPolicy)
+  @ApiOperation({ summary: "Get a project's task statistics" })
+  getStats(@Param('id') id: string) {
+    return this.projectsService.getStats(id);
+  }
+
+  @Get(':id/members')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(ProjectMemberPolicy)
+  @ApiOperation({ summary: 'List project members and their roles' })
+  findMembers(@Param('id') id: string) {
+    return this.projectsService.findMembers(id);
+  }
+
+  @Post(':id/members')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(ProjectOwnerPolicy)
+  @ApiOperation({ summary: 'Add a member to a project (owners only)' })
+  addMember(@Param('id') id: string, @Body() addMemberDto: AddProjectMemberDto) {
+    return this.projectsService.addMember(id, addMemberDto);
+  }
+
+  @Patch(':id/members/:userId')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(ProjectOwnerPolicy)
+  @ApiOperation({ summary: "Change a member's project role (owners only)" })
+  updateMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() updateMemberDto: UpdateProjectMemberDto,
+  ) {
+    return this.projectsService.updateMember(id, userId, updateMemberDto.role);
+  }
+
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(ProjectOwnerPolicy)
+  @ApiOperation({ summary: 'Remove a member from a project (owners only)' })
+  removeMember(@Param('id') id: string, @Param('userId') userId: string) {
+    return this.projectsService.removeMember(id, userId);
+  }
+}
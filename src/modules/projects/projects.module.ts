@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Project } from './entities/project.entity';
+import { ProjectMember } from './entities/project-member.entity';
+import { ProjectsService } from './projects.service';
+import { ProjectsController } from './projects.controller';
+import { ProjectMemberPolicy, ProjectOwnerPolicy } from './policies/project.policies';
+import { TasksModule } from '../tasks/tasks.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Project, ProjectMember]), TasksModule, UsersModule],
+  controllers: [ProjectsController],
+  providers: [ProjectsService, ProjectMemberPolicy, ProjectOwnerPolicy],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
@@ -0,0 +1,187 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Project } from './entities/project.entity';
+import { ProjectMember } from './entities/project-member.entity';
+import { ProjectRole } from './enums/project-role.enum';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { AddProjectMemberDto } from './dto/add-project-member.dto';
+import { Task } from '../tasks/entities/task.entity';
+import { TaskFilterDto } from '../tasks/dto/task-filter.dto';
+import { TasksService } from '../tasks/tasks.service';
+import { UsersService } from '../users/users.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+const MEMBER_FIELDS = ['id', 'name', 'email'];
+
+@Injectable()
+export class ProjectsService {
+  private readonly logger = new Logger(ProjectsService.name);
+
+  constructor(
+    @InjectRepository(Project)
+    private projectsRepository: Repository<Project>,
+    @InjectRepository(ProjectMember)
+    private membersRepository: Repository<ProjectMember>,
+    private tasksService: TasksService,
+    private usersService: UsersService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  // Projects the user is a member of, or every project when includeAll is set
+  findAll(userId: string, includeAll: boolean): Promise<Project[]> {
+    const query = this.projectsRepository.createQueryBuilder('project').orderBy('project.name');
+
+    if (!includeAll) {
+      query.innerJoin('project.members', 'member', 'member.userId = :userId', { userId });
+    }
+    return this.tenantContext.scopeQuery(query, 'project.organizationId').getMany();
+  }
+
+  async findOne(id: string): Promise<Project> {
+    const query = this.projectsRepository
+      .createQueryBuilder('project')
+      .leftJoinAndSelect('project.members', 'member')
+      .leftJoin('member.user', 'user')
+      .addSelect(MEMBER_FIELDS.map(field => `user.${field}`))
+      .where('project.id = :id', { id })
+      .orderBy('member.createdAt', 'ASC');
+    const project = await this.tenantContext.scopeQuery(query, 'project.organizationId').getOne();
+
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${id} not found`);
+    }
+    return project;
+  }
+
+  // The creator becomes the project's first owner; the project lives in their organization
+  async create(userId: string, createProjectDto: CreateProjectDto): Promise<Project> {
+    const { organizationId } = await this.usersService.findOne(userId);
+
+    const project = await this.projectsRepository.manager.transaction(async manager => {
+      const saved = await manager.save(
+        manager.create(Project, { ...createProjectDto, organizationId }),
+      );
+      await manager.insert(ProjectMember, {
+        projectId: saved.id,
+        userId,
+        role: ProjectRole.OWNER,
+      });
+      return saved;
+    });
+
+    return this.findOne(project.id);
+  }
+
+  async update(id: string, updateProjectDto: UpdateProjectDto): Promise<Project> {
+    const project = await this.findOne(id);
+
+    this.projectsRepository.merge(project, updateProjectDto);
+    await this.projectsRepository.save(project);
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const project = await this.findOne(id);
+    const tasks = await this.projectsRepository.manager.find(Task, {
+      select: { id: true },
+      where: { projectId: id },
+    });
+
+    // Tasks fall back to being personal tasks of their owners (ON DELETE SET NULL)
+    await this.projectsRepository.remove(project);
+    await this.tasksService.invalidateTaskCache(tasks.map(task => task.id));
+  }
+
+  /**
+   * The user's role in the project, or null when they aren't a member. Malformed ids count as
+   * no membership rather than surfacing a database error.
+   */
+  async findRole(projectId: string, userId: string): Promise<ProjectRole | null> {
+    try {
+      const member = await this.membersRepository.findOne({ where: { projectId, userId } });
+      return member?.role ?? null;
+    } catch (error) {
+      this.logger.warn(`Membership lookup failed for project ${projectId}: ${error}`);
+      return null;
+    }
+  }
+
+  async findMembers(projectId: string): Promise<ProjectMember[]> {
+    return (await this.findOne(projectId)).members;
+  }
+
+  async addMember(projectId: string, addMemberDto: AddProjectMemberDto): Promise<ProjectMember[]> {
+    await this.findOne(projectId);
+    const user = await this.usersService.findOne(addMemberDto.userId);
+
+    if (await this.membersRepository.exists({ where: { projectId, userId: user.id } })) {
+      throw new ConflictException(`User ${user.id} is already a member of this project`);
+    }
+
+    await this.membersRepository.insert({ projectId, userId: user.id, role: addMemberDto.role });
+    return this.findMembers(projectId);
+  }
+
+  async updateMember(
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ): Promise<ProjectMember[]> {
+    const member = await this.findMember(projectId, userId);
+
+    if (member.role === ProjectRole.OWNER && role !== ProjectRole.OWNER) {
+      await this.assertAnotherOwner(projectId);
+    }
+
+    await this.membersRepository.update({ projectId, userId }, { role });
+    return this.findMembers(projectId);
+  }
+
+  async removeMember(projectId: string, userId: string): Promise<void> {
+    const member = await this.findMember(projectId, userId);
+
+    if (member.role === ProjectRole.OWNER) {
+      await this.assertAnotherOwner(projectId);
+    }
+
+    await this.membersRepository.delete({ projectId, userId });
+  }
+
+  // Members see every task of the project; the viewer only matters for the watching filter
+  findTasks(projectId: string, filterDto: TaskFilterDto, viewerId: string) {
+    return this.tasksService.findAll({ ...filterDto, projectId }, { viewerId });
+  }
+
+  getStats(projectId: string) {
+    return this.tasksService.getStats(undefined, projectId);
+  }
+
+  private async findMember(projectId: string, userId: string): Promise<ProjectMember> {
+    const member = await this.membersRepository.findOne({ where: { projectId, userId } });
+
+    if (!member) {
+      throw new NotFoundException(`User ${userId} is not a member of this project`);
+    }
+    return member;
+  }
+
+  // A project must always keep at least one owner
+  private async assertAnotherOwner(projectId: string) {
+    const owners = await this.membersRepository.count({
+      where: { projectId, role: ProjectRole.OWNER },
+    });
+
+    if (owners <= 1) {
+      throw new BadRequestException('A project needs at least one owner');
+    }
+  }
+}
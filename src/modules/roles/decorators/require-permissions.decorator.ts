@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionKey } from '../enums/permission-key.enum';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+// All listed permissions are required; checked against the permissions embedded in the access token
+export const RequirePermissions = (...permissions: PermissionKey[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,35 @@
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PermissionKey } from '../enums/permission-key.enum';
+
+export class CreateRoleDto {
+  @ApiProperty({ example: 'reporter' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9_-]*$/, {
+    message: 'name must be lowercase letters, digits, "-" or "_"',
+  })
+  name: string;
+
+  @ApiProperty({ example: 'Read-only access to tasks', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+
+  @ApiProperty({ enum: PermissionKey, isArray: true, example: [PermissionKey.TASKS_READ] })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(PermissionKey, { each: true })
+  permissions: PermissionKey[];
+}
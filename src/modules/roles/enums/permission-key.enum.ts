@@ -0,0 +1,13 @@
+// Keys mirror the rows seeded into the permissions table
+export enum PermissionKey {
+  TASKS_READ = 'tasks:read',
+  TASKS_WRITE = 'tasks:write',
+  TASKS_DELETE = 'tasks:delete',
+  // Act on tasks owned by other users
+  TASKS_MANAGE = 'tasks:manage',
+  USERS_READ = 'users:read',
+  USERS_MANAGE = 'users:manage',
+  ROLES_MANAGE = 'roles:manage',
+  // Create and administer tenants; held by global admins only
+  ORGANIZATIONS_MANAGE = 'organizations:manage',
+}
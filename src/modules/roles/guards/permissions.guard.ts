@@ -0,0 +1,29 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { PermissionKey } from '../enums/permission-key.enum';
+import { hasPermission } from '../permissions.util';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<PermissionKey[]>(PERMISSIONS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredPermissions?.length) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+
+    if (!requiredPermissions.every(permission => hasPermission(user, permission))) {
+      throw new ForbiddenException('You do not have permission to perform this action');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,6 @@
+import { PermissionKey } from './enums/permission-key.enum';
+
+export const hasPermission = (
+  user: { permissions?: string[] } | undefined,
+  permission: PermissionKey,
+) => !!user?.permissions?.includes(permission);
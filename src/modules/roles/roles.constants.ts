@@ -0,0 +1,7 @@
+// Names of the built-in roles seeded by the roles migration
+export const DEFAULT_ROLE = 'user';
+export const ADMIN_ROLE = 'admin';
+// Administers tasks and users within its own organization
+export const ORG_ADMIN_ROLE = 'org-admin';
+// Roles covered by AUTH_REQUIRE_ADMIN_MFA
+export const ADMIN_ROLES = [ADMIN_ROLE, ORG_ADMIN_ROLE];
@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesService } from './roles.service';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { RequirePermissions } from './decorators/require-permissions.decorator';
+import { PermissionKey } from './enums/permission-key.enum';
+
+@ApiTags('roles')
+@Controller('roles')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.ROLES_MANAGE)
+@ApiBearerAuth()
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List role definitions' })
+  findAll() {
+    return this.rolesService.findAll();
+  }
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List the permissions that can be granted to roles' })
+  findAllPermissions() {
+    return this.rolesService.findAllPermissions();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Find a role by ID' })
+  findOne(@Param('id') id: string) {
+    return this.rolesService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a role' })
+  create(@Body() createRoleDto: CreateRoleDto) {
+    return this.rolesService.create(createRoleDto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a role and its permissions' })
+  update(@Param('id') id: string, @Body() updateRoleDto: UpdateRoleDto) {
+    return this.rolesService.update(id, updateRoleDto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a custom role' })
+  remove(@Param('id') id: string) {
+    return this.rolesService.remove(id);
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { Role } from './entities/role.entity';
+import { Permission } from './entities/permission.entity';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { PermissionKey } from './enums/permission-key.enum';
+import { ADMIN_ROLES, DEFAULT_ROLE } from './roles.constants';
+
+export interface RoleGrants {
+  roles: string[];
+  permissions: string[];
+}
+
+@Injectable()
+export class RolesService {
+  constructor(
+    @InjectRepository(Role)
+    private readonly rolesRepository: Repository<Role>,
+    @InjectRepository(Permission)
+    private readonly permissionsRepository: Repository<Permission>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  findAll(): Promise<Role[]> {
+    return this.rolesRepository.find({ order: { name: 'ASC' } });
+  }
+
+  findAllPermissions(): Promise<Permission[]> {
+    return this.permissionsRepository.find({ order: { key: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<Role> {
+    const role = await this.rolesRepository.findOne({ where: { id } });
+    if (!role) {
+      throw new NotFoundException(`Role with ID ${id} not found`);
+    }
+    return role;
+  }
+
+  async findByNames(names: string[]): Promise<Role[]> {
+    const uniqueNames = [...new Set(names)];
+    const roles = uniqueNames.length
+      ? await this.rolesRepository.find({ where: { name: In(uniqueNames) } })
+      : [];
+
+    const missing = uniqueNames.filter(name => !roles.some(role => role.name === name));
+    if (missing.length) {
+      throw new BadRequestException(`Unknown roles: ${missing.join(', ')}`);
+    }
+    return roles;
+  }
+
+  findDefaultRoles(): Promise<Role[]> {
+    return this.findByNames([DEFAULT_ROLE]);
+  }
+
+  async create(createRoleDto: CreateRoleDto): Promise<Role> {
+    await this.assertNameAvailable(createRoleDto.name);
+
+    const role = this.rolesRepository.create({
+      name: createRoleDto.name,
+      description: createRoleDto.description ?? null,
+      permissions: await this.findPermissions(createRoleDto.permissions),
+    });
+    return this.rolesRepository.save(role);
+  }
+
+  async update(id: string, updateRoleDto: UpdateRoleDto): Promise<Role> {
+    const role = await this.findOne(id);
+
+    if (updateRoleDto.name !== undefined && updateRoleDto.name !== role.name) {
+      if (role.isSystem) {
+        throw new BadRequestException('Built-in roles cannot be renamed');
+      }
+      await this.assertNameAvailable(updateRoleDto.name);
+      role.name = updateRoleDto.name;
+    }
+    if (updateRoleDto.description !== undefined) {
+      role.description = updateRoleDto.description;
+    }
+    if (updateRoleDto.permissions !== undefined) {
+      role.permissions = await this.findPermissions(updateRoleDto.permissions);
+    }
+
+    return this.rolesRepository.save(role);
+  }
+
+  async remove(id: string): Promise<void> {
+    const role = await this.findOne(id);
+    if (role.isSystem) {
+      throw new BadRequestException('Built-in roles cannot be deleted');
+    }
+    await this.rolesRepository.remove(role);
+  }
+
+  /**
+   * Flattens a user's roles into the names and permission keys carried in tokens.
+   * While the admin MFA policy is on, the admin role only counts for MFA-verified logins.
+   */
+  resolveGrants(roles: Role[] = [], mfaAuthenticated = false): RoleGrants {
+    const adminLocked =
+      this.configService.get('AUTH_REQUIRE_ADMIN_MFA') === 'true' && !mfaAuthenticated;
+    const activeRoles = roles.filter(role => !(adminLocked && ADMIN_ROLES.includes(role.name)));
+
+    return {
+      roles: activeRoles.map(role => role.name),
+      permissions: [
+        ...new Set(activeRoles.flatMap(role => (role.permissions ?? []).map(p => p.key))),
+      ],
+    };
+  }
+
+  private async findPermissions(keys: PermissionKey[]): Promise<Permission[]> {
+    if (!keys.length) {
+      return [];
+    }
+    return this.permissionsRepository.find({ where: { key: In(keys) } });
+  }
+
+  private async assertNameAvailable(name: string) {
+    if (await this.rolesRepository.exists({ where: { name } })) {
+      throw new ConflictException(`Role ${name} already exists`);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TaskPriority } from '../../tasks/enums/task-priority.enum';
+
+export class CreateTaskTemplateDto {
+  @ApiProperty({ example: 'Onboard {{customerName}}' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty({ example: 'Kick-off and account setup for {{customerName}}', required: false })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ enum: TaskPriority, example: TaskPriority.MEDIUM, required: false })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+
+  @ApiProperty({
+    example: 7,
+    required: false,
+    nullable: true,
+    description: 'Days from instantiation to the due date; no due date when left out',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  @IsOptional()
+  dueOffsetDays?: number | null;
+
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    required: false,
+    description: 'Global label ids to put on the created task',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiProperty({
+    type: () => [CreateTaskTemplateDto],
+    required: false,
+    description: 'Subtask templates, in order; on update they replace the existing ones',
+  })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => CreateTaskTemplateDto)
+  @IsOptional()
+  subtasks?: CreateTaskTemplateDto[];
+}
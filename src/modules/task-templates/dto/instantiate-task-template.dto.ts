@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsObject, IsOptional, IsUUID } from 'class-validator';
+
+export class InstantiateTaskTemplateDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description:
+      'Owner of the created tasks; defaults to the caller. Only admins may set another user',
+  })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Project to create the tasks in (editor role required)',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({
+    example: '2024-04-01T09:00:00Z',
+    required: false,
+    description: 'Due date offsets count from here; defaults to now',
+  })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiProperty({
+    example: { customerName: 'Acme Corp' },
+    required: false,
+    description: 'Values for the {{variables}} in titles and descriptions',
+  })
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string>;
+}
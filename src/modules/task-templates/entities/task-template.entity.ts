@@ -0,0 +1,86 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Label } from '../../labels/entities/label.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { TaskPriority } from '../../tasks/enums/task-priority.enum';
+
+/**
+ * A task blueprint shared within the organization. Templates nest like tasks do: a template
+ * without a parent is instantiated as a task tree with its subtask templates below it.
+ */
+@Entity('task_templates')
+@Index(['organizationId'])
+@Index(['parentId'])
+export class TaskTemplate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Relation<Organization>;
+
+  // May contain {{variables}}, as may the description
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'enum', enum: TaskPriority, default: TaskPriority.MEDIUM })
+  priority: TaskPriority;
+
+  // Days from instantiation to the task's due date; the task gets no due date when null
+  @Column({ name: 'due_offset_days', type: 'int', nullable: true })
+  dueOffsetDays: number | null;
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => TaskTemplate, template => template.subtasks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Relation<TaskTemplate> | null;
+
+  @OneToMany(() => TaskTemplate, template => template.parent)
+  subtasks: TaskTemplate[];
+
+  // Order among siblings
+  @Column({ type: 'int', default: 0 })
+  position: number;
+
+  @Column({ name: 'owner_id', type: 'uuid', nullable: true })
+  ownerId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'owner_id' })
+  owner: Relation<User> | null;
+
+  @ManyToMany(() => Label)
+  @JoinTable({
+    name: 'task_template_labels',
+    joinColumn: { name: 'template_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'label_id', referencedColumnName: 'id' },
+  })
+  labels: Label[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
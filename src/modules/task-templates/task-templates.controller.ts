@@ -0,0 +1,104 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskTemplatesService } from './task-templates.service';
+import { CreateTaskTemplateDto } from './dto/create-task-template.dto';
+import { UpdateTaskTemplateDto } from './dto/update-task-template.dto';
+import { InstantiateTaskTemplateDto } from './dto/instantiate-task-template.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { TokenScope } from '../auth/enums/token-scope.enum';
+import { PermissionsGuard } from '../roles/guards/permissions.guard';
+import { RequirePermissions } from '../roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
+import { hasPermission } from '../roles/permissions.util';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { TaskProjectPolicy, canAssignTask } from '../tasks/policies/task.policies';
+
+@ApiTags('task-templates')
+@Controller('task-templates')
+@UseGuards(JwtAuthGuard, PermissionsGuard, PoliciesGuard)
+@ApiBearerAuth()
+export class TaskTemplatesController {
+  constructor(private readonly taskTemplatesService: TaskTemplatesService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: "List the organization's task templates" })
+  findAll() {
+    return this.taskTemplatesService.findAll();
+  }
+
+  @Get(':id')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'Get a task template with its subtask templates' })
+  findOne(@Param('id') id: string) {
+    return this.taskTemplatesService.findOne(id);
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Create a task template' })
+  create(@CurrentUser() user: AuthenticatedUser, @Body() createTemplateDto: CreateTaskTemplateDto) {
+    return this.taskTemplatesService.create(user.id, createTemplateDto);
+  }
+
+  @Patch(':id')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Update a task template (creator or task managers)' })
+  update(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() updateTemplateDto: UpdateTaskTemplateDto,
+  ) {
+    return this.taskTemplatesService.update(
+      id,
+      user.id,
+      updateTemplateDto,
+      hasPermission(user, PermissionKey.TASKS_MANAGE),
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Delete a task template and its subtask templates' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.taskTemplatesService.remove(
+      id,
+      user.id,
+      hasPermission(user, PermissionKey.TASKS_MANAGE),
+    );
+  }
+
+  @Post(':id/instantiate')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(canAssignTask, TaskProjectPolicy)
+  @ApiOperation({ summary: 'Create the task tree described by a template' })
+  instantiate(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() instantiateDto: InstantiateTaskTemplateDto,
+  ) {
+    return this.taskTemplatesService.instantiate(id, user.id, instantiateDto);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TaskTemplate } from './entities/task-template.entity';
+import { TaskTemplatesService } from './task-templates.service';
+import { TaskTemplatesController } from './task-templates.controller';
+import { TasksModule } from '../tasks/tasks.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([TaskTemplate]), TasksModule],
+  controllers: [TaskTemplatesController],
+  providers: [TaskTemplatesService],
+})
+export class TaskTemplatesModule {}
@@ -0,0 +1,307 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { TaskTemplate } from './entities/task-template.entity';
+import { CreateTaskTemplateDto } from './dto/create-task-template.dto';
+import { UpdateTaskTemplateDto } from './dto/update-task-template.dto';
+import { InstantiateTaskTemplateDto } from './dto/instantiate-task-template.dto';
+import { findTemplateVariables, renderTemplate } from './utils/template-variables.util';
+import { Label } from '../labels/entities/label.entity';
+import { Task } from '../tasks/entities/task.entity';
+import { TasksService } from '../tasks/tasks.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface InstantiationContext {
+  userId: string;
+  projectId?: string;
+  startDate: Date;
+  variables: Record<string, string>;
+  actorId: string;
+}
+
+// Templates are shared within the organization; only their creator or task managers edit them
+@Injectable()
+export class TaskTemplatesService {
+  constructor(
+    @InjectRepository(TaskTemplate)
+    private templatesRepository: Repository<TaskTemplate>,
+    private tasksService: TasksService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  // Top-level templates only; their subtasks come with findOne
+  findAll(): Promise<TaskTemplate[]> {
+    return this.templatesRepository.find({
+      where: this.tenantContext.scope({ parentId: IsNull() }),
+      relations: ['labels'],
+      order: { title: 'ASC' },
+    });
+  }
+
+  /**
+   * The template with all of its subtask templates nested below it, siblings in order.
+   */
+  async findOne(id: string): Promise<TaskTemplate> {
+    const template = await this.templatesRepository.findOne({
+      where: this.tenantContext.scope({ id }),
+      relations: ['labels'],
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Task template with ID ${id} not found`);
+    }
+
+    const rows: Array<{ id: string }> = await this.templatesRepository.query(
+      `
+        WITH RECURSIVE descendants AS (
+          SELECT id FROM task_templates WHERE parent_id = $1
+          UNION
+          SELECT t.id FROM task_templates t JOIN descendants d ON t.parent_id = d.id
+        )
+        SELECT id FROM descendants
+      `,
+      [id],
+    );
+    const descendants = rows.length
+      ? await this.templatesRepository.find({
+          where: { id: In(rows.map(row => row.id)) },
+          relations: ['labels'],
+          order: { position: 'ASC' },
+        })
+      : [];
+
+    const byParent = new Map<string, TaskTemplate[]>();
+    for (const descendant of descendants) {
+      byParent.set(descendant.parentId!, [
+        ...(byParent.get(descendant.parentId!) ?? []),
+        descendant,
+      ]);
+    }
+    const attach = (node: TaskTemplate) => {
+      node.subtasks = byParent.get(node.id) ?? [];
+      node.subtasks.forEach(attach);
+    };
+    attach(template);
+
+    return template;
+  }
+
+  async create(userId: string, createTemplateDto: CreateTaskTemplateDto): Promise<TaskTemplate> {
+    const organizationId = this.tenantContext.getTenantId();
+    if (!organizationId) {
+      throw new BadRequestException('No organization to create the template in');
+    }
+
+    const saved = await this.templatesRepository.manager.transaction(async manager => {
+      const labels = await this.resolveLabels(manager, [createTemplateDto]);
+      return this.saveNode(manager, createTemplateDto, null, 0, {
+        ownerId: userId,
+        organizationId,
+        labels,
+      });
+    });
+
+    return this.findOne(saved.id);
+  }
+
+  async update(
+    id: string,
+    userId: string,
+    updateTemplateDto: UpdateTaskTemplateDto,
+    canManage: boolean,
+  ): Promise<TaskTemplate> {
+    const template = await this.findEditable(id, userId, canManage);
+    const { labelIds, subtasks, ...fields } = updateTemplateDto;
+
+    await this.templatesRepository.manager.transaction(async manager => {
+      const labels = await this.resolveLabels(manager, [{ labelIds, subtasks }]);
+
+      manager.merge(TaskTemplate, template, fields);
+      if (labelIds) {
+        template.labels = labelIds.map(labelId => labels.get(labelId)!);
+      }
+      await manager.save(template);
+
+      if (subtasks) {
+        // The old subtask templates' own subtasks go with them through the foreign key cascade
+        await manager.delete(TaskTemplate, { parentId: id });
+        for (const [position, subtask] of subtasks.entries()) {
+          await this.saveNode(manager, subtask, id, position, {
+            ownerId: template.ownerId,
+            organizationId: template.organizationId,
+            labels,
+          });
+        }
+      }
+    });
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string, userId: string, canManage: boolean): Promise<void> {
+    const template = await this.findEditable(id, userId, canManage);
+    await this.templatesRepository.remove(template);
+  }
+
+  /**
+   * Creates the template's task tree in one transaction, with {{variables}} filled in. Every
+   * variable used anywhere in the tree needs a value, otherwise nothing is created.
+   */
+  async instantiate(
+    id: string,
+    actorId: string,
+    instantiateDto: InstantiateTaskTemplateDto,
+  ): Promise<Task> {
+    const template = await this.findOne(id);
+    const variables = instantiateDto.variables ?? {};
+
+    const invalid = Object.entries(variables)
+      .filter(([, value]) => typeof value !== 'string')
+      .map(([name]) => name);
+    if (invalid.length) {
+      throw new BadRequestException(`Template variables must be strings: ${invalid.join(', ')}`);
+    }
+    const missing = this.collectVariables(template).filter(
+      name => !Object.prototype.hasOwnProperty.call(variables, name),
+    );
+    if (missing.length) {
+      throw new BadRequestException(`Missing template variables: ${missing.join(', ')}`);
+    }
+
+    const context: InstantiationContext = {
+      userId: instantiateDto.userId ?? actorId,
+      projectId: instantiateDto.projectId,
+      startDate: instantiateDto.startDate ? new Date(instantiateDto.startDate) : new Date(),
+      variables,
+      actorId,
+    };
+
+    const root = await this.templatesRepository.manager.transaction(manager =>
+      this.instantiateNode(manager, template, null, context),
+    );
+
+    await this.tasksService.invalidateTaskCache([]);
+    return this.tasksService.findOne(root.id);
+  }
+
+  private async instantiateNode(
+    manager: EntityManager,
+    template: TaskTemplate,
+    parentId: string | null,
+    context: InstantiationContext,
+  ): Promise<Task> {
+    const task = await this.tasksService.createInTransaction(
+      manager,
+      {
+        title: renderTemplate(template.title, context.variables),
+        description: template.description
+          ? renderTemplate(template.description, context.variables)
+          : undefined,
+        priority: template.priority,
+        dueDate:
+          template.dueOffsetDays !== null
+            ? new Date(context.startDate.getTime() + template.dueOffsetDays * DAY_MS)
+            : undefined,
+        userId: context.userId,
+        projectId: context.projectId,
+        parentId: parentId ?? undefined,
+        labelIds: template.labels.map(label => label.id),
+      },
+      context.actorId,
+    );
+
+    for (const subtask of template.subtasks) {
+      await this.instantiateNode(manager, subtask, task.id, context);
+    }
+    return task;
+  }
+
+  private collectVariables(template: TaskTemplate): string[] {
+    const names = new Set([
+      ...findTemplateVariables(template.title),
+      ...findTemplateVariables(template.description ?? ''),
+    ]);
+    for (const subtask of template.subtasks) {
+      this.collectVariables(subtask).forEach(name => names.add(name));
+    }
+    return [...names];
+  }
+
+  private async saveNode(
+    manager: EntityManager,
+    node: CreateTaskTemplateDto,
+    parentId: string | null,
+    position: number,
+    scope: { ownerId: string | null; organizationId: string; labels: Map<string, Label> },
+  ): Promise<TaskTemplate> {
+    const { labelIds, subtasks, ...fields } = node;
+
+    const saved = await manager.save(
+      manager.create(TaskTemplate, {
+        ...fields,
+        parentId,
+        position,
+        ownerId: scope.ownerId,
+        organizationId: scope.organizationId,
+        labels: (labelIds ?? []).map(labelId => scope.labels.get(labelId)!),
+      }),
+    );
+
+    for (const [index, subtask] of (subtasks ?? []).entries()) {
+      await this.saveNode(manager, subtask, saved.id, index, scope);
+    }
+    return saved;
+  }
+
+  /**
+   * Labels used anywhere in the given nodes, by id. Templates are shared, so only the
+   * organization's global labels can be used.
+   */
+  private async resolveLabels(
+    manager: EntityManager,
+    nodes: Array<Pick<CreateTaskTemplateDto, 'labelIds' | 'subtasks'>>,
+  ): Promise<Map<string, Label>> {
+    const ids = new Set<string>();
+    const collect = (node: Pick<CreateTaskTemplateDto, 'labelIds' | 'subtasks'>) => {
+      node.labelIds?.forEach(labelId => ids.add(labelId));
+      node.subtasks?.forEach(collect);
+    };
+    nodes.forEach(collect);
+    if (!ids.size) {
+      return new Map();
+    }
+
+    const labels = await manager.find(Label, {
+      where: this.tenantContext.scope({ id: In([...ids]), ownerId: IsNull() }),
+    });
+    if (labels.length !== ids.size) {
+      const found = new Set(labels.map(label => label.id));
+      throw new BadRequestException(
+        `Global labels not found: ${[...ids].filter(labelId => !found.has(labelId)).join(', ')}`,
+      );
+    }
+    return new Map(labels.map(label => [label.id, label]));
+  }
+
+  private async findEditable(id: string, userId: string, canManage: boolean) {
+    const template = await this.templatesRepository.findOne({
+      where: this.tenantContext.scope({ id }),
+      relations: ['labels'],
+    });
+
+    if (!template) {
+      throw new NotFoundException(`Task template with ID ${id} not found`);
+    }
+    if (template.ownerId !== userId && !canManage) {
+      throw new ForbiddenException('Only the creator can change a template');
+    }
+    return template;
+  }
+}
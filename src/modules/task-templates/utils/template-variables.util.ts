@@ -0,0 +1,16 @@
+// "{{customerName}}", optionally with spaces inside the braces
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export function findTemplateVariables(text: string): string[] {
+  return [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(([, name]) => name))];
+}
+
+/**
+ * Replaces every {{variable}} with its value. Callers check for missing variables first; any
+ * left over are kept as written.
+ */
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder,
+  );
+}
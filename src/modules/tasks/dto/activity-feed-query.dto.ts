@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+export class ActivityFeedQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only changes made by this user',
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes to this task, including its deletion',
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  taskId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes made at or after this time',
+    example: '2024-04-01T00:00:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only changes made before this time',
+    example: '2024-05-01T00:00:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
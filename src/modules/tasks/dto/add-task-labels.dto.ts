@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class AddTaskLabelsDto {
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: "Labels to attach (the task owner's labels or global ones)",
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  labelIds: string[];
+}
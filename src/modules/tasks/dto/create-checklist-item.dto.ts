@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class CreateChecklistItemDto {
+  @ApiProperty({ example: 'Send the kick-off email' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  text: string;
+
+  @ApiProperty({
+    example: 0,
+    required: false,
+    description: '0-based place in the list; appended at the end by default',
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  position?: number;
+}
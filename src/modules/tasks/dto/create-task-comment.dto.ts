@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateTaskCommentDto {
+  @ApiProperty({
+    example: 'Can @jane.doe@example.com or @JohnDoe take a look?',
+    description: 'Mention users with @email or @Name (name without spaces)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Top-level comment to reply to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+}
@@ -1,7 +1,22 @@
-import { IsDateString, IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { TaskRecurrenceDto } from './task-recurrence.dto';
 
 export class CreateTaskDto {
   @ApiProperty({ example: 'Complete project documentation' })
@@ -29,8 +44,61 @@ export class CreateTaskDto {
   @IsOptional()
   dueDate?: Date;
 
-  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiProperty({ example: 90, required: false, description: 'Expected effort in minutes' })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  estimateMinutes?: number;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'Owner of the task; defaults to the caller. Only admins may set another user',
+  })
   @IsUUID()
-  @IsNotEmpty()
-  userId: string;
-} 
\ No newline at end of file
+  @IsOptional()
+  userId?: string;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Project the task belongs to (editor role required); null makes it personal',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  @IsOptional()
+  projectId?: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    nullable: true,
+    description: 'Parent task; null moves a subtask back to the top level',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null;
+
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    required: false,
+    description: "Label ids (the owner's labels or global ones); replaces the task's labels",
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiProperty({
+    type: TaskRecurrenceDto,
+    required: false,
+    description: 'Makes the task the first occurrence of a recurring series (needs a due date)',
+  })
+  @ValidateNested()
+  @Type(() => TaskRecurrenceDto)
+  @IsOptional()
+  recurrence?: TaskRecurrenceDto;
+}
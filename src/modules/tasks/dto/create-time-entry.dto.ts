@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class CreateTimeEntryDto {
+  @ApiProperty({ example: 45, description: 'Time spent, in minutes' })
+  @IsInt()
+  @Min(1)
+  @Max(24 * 60)
+  minutes: number;
+
+  @ApiProperty({
+    example: '2024-04-02T09:00:00Z',
+    required: false,
+    description: 'When the work started; defaults to `minutes` before now',
+  })
+  @IsDateString()
+  @IsOptional()
+  startedAt?: string;
+
+  @ApiProperty({ example: 'Pairing on the migration', required: false })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderChecklistItemsDto {
+  @ApiProperty({
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    description: "All of the task's checklist item ids, in their new order",
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  itemIds: string[];
+}
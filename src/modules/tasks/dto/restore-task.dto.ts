@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class RestoreTaskDto {
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+    description: 'New owner for tasks whose owner has been deleted; required in that case',
+  })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class StartTimerDto {
+  @ApiProperty({ example: 'Reviewing the pull request', required: false })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+export type TaskEditScope = 'this' | 'future';
+
+export class TaskEditScopeDto {
+  @ApiPropertyOptional({
+    enum: ['this', 'future'],
+    description:
+      'For occurrences of a recurring task: change only this occurrence (default) or this and all future ones',
+    example: 'this',
+  })
+  @IsIn(['this', 'future'])
+  @IsOptional()
+  scope?: TaskEditScope;
+}
@@ -1,6 +1,17 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsEnum, IsOptional, IsString, IsUUID, IsDateString, IsNumber, Min } from 'class-validator';
-import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  IsDateString,
+  IsNumber,
+  Min,
+  IsBoolean,
+  IsArray,
+  IsIn,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
 
@@ -24,13 +35,91 @@ export class TaskFilterDto {
   priority?: TaskPriority;
 
   @ApiPropertyOptional({
-    description: 'Filter tasks assigned to a specific user',
+    description: 'Filter tasks owned by a specific user',
     example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
   })
   @IsUUID()
   @IsOptional()
   userId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Only return tasks this user is assigned to',
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  assigneeId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks the current user watches',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  watching?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'true: only tasks with unchecked checklist items; false: only tasks without any',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  checklistIncomplete?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks in this project',
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return subtasks of this task',
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only return tasks without a parent',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  topLevelOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated label names (case-insensitive)',
+    example: 'backend,urgent',
+    type: String,
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map(label => label.trim())
+          .filter(Boolean)
+      : value,
+  )
+  labels?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Match tasks having any of the labels (default) or all of them',
+    enum: ['any', 'all'],
+    example: 'any',
+  })
+  @IsIn(['any', 'all'])
+  @IsOptional()
+  labelMatch?: 'any' | 'all';
+
   @ApiPropertyOptional({
     description: 'Search term for task title or description',
     example: 'meeting',
@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsTimeZone,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { RecurrenceFrequency } from '../enums/recurrence-frequency.enum';
+
+// Counted from the task's due date; set at most one of until and count
+export class TaskRecurrenceDto {
+  @ApiProperty({ enum: RecurrenceFrequency, example: RecurrenceFrequency.WEEKLY })
+  @IsEnum(RecurrenceFrequency)
+  frequency: RecurrenceFrequency;
+
+  @ApiProperty({
+    example: 2,
+    required: false,
+    description: 'Every n days, weeks or months (default 1)',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @IsOptional()
+  interval?: number;
+
+  @ApiProperty({
+    example: 'Europe/Berlin',
+    required: false,
+    description: 'IANA timezone whose local time the occurrences keep (default UTC)',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiProperty({
+    example: '2024-12-31T23:59:59Z',
+    required: false,
+    nullable: true,
+    description: 'No occurrence is due after this date',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  @IsOptional()
+  until?: string | null;
+
+  @ApiProperty({
+    example: 10,
+    required: false,
+    nullable: true,
+    description: 'Total number of occurrences, the first one included',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  count?: number | null;
+}
@@ -21,12 +21,76 @@ export class TaskResponseDto {
   @ApiProperty({ example: '2023-12-31T23:59:59Z' })
   dueDate: Date;
 
+  @ApiProperty({ example: 90, nullable: true, description: 'Expected effort in minutes' })
+  estimateMinutes: number | null;
+
+  @ApiProperty({ example: 45, description: 'Minutes logged so far, excluding running timers' })
+  loggedMinutes: number;
+
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
   userId: string;
 
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    description: 'User who created the task',
+  })
+  createdById: string | null;
+
+  @ApiProperty({ example: [{ id: '123e4567-e89b-12d3-a456-426614174000', name: 'John Doe' }] })
+  assignees: Array<{ id: string; name: string }>;
+
+  @ApiProperty({
+    example: [{ id: '123e4567-e89b-12d3-a456-426614174000', name: 'John Doe' }],
+    description: 'Only included when fetching a single task',
+  })
+  watchers?: Array<{ id: string; name: string }>;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000', nullable: true })
+  projectId: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  parentId: string | null;
+
+  @ApiProperty({
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    nullable: true,
+    description: 'Recurring series the task is an occurrence of',
+  })
+  recurrenceId: string | null;
+
+  @ApiProperty({ example: 3, nullable: true, description: '1-based position in the series' })
+  occurrenceIndex: number | null;
+
+  @ApiProperty({
+    example: [{ id: '123e4567-e89b-12d3-a456-426614174000', name: 'backend', color: '#3b82f6' }],
+  })
+  labels: Array<{ id: string; name: string; color: string }>;
+
+  @ApiProperty({ example: 3 })
+  commentCount: number;
+
+  @ApiProperty({ example: 4 })
+  subtaskCount: number;
+
+  @ApiProperty({ example: 50, nullable: true, description: 'Percent of subtasks completed' })
+  subtaskProgress: number | null;
+
+  @ApiProperty({ example: 75, nullable: true, description: 'Percent of checklist items done' })
+  checklistProgress: number | null;
+
+  @ApiProperty({ example: false, description: 'Some blocking task is not completed yet' })
+  isBlocked: boolean;
+
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
   createdAt: Date;
 
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
   updatedAt: Date;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Incremented on every change; batch requests can send it as the expected version',
+  })
+  version: number;
 } 
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+
+export class TimeReportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only count entries started at or after this time',
+    example: '2024-04-01T00:00:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only count entries started before this time',
+    example: '2024-05-01T00:00:00Z',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: "Only this user's time; users without tasks:manage only ever see their own",
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only time logged on tasks in this project',
+    example: 'b7d8b29d-2d49-4efb-8f74-ff7d1d5a2e5c',
+  })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateChecklistItemDto {
+  @ApiProperty({ example: 'Send the kick-off email', required: false })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  @IsOptional()
+  text?: string;
+
+  @ApiProperty({ example: true, required: false, description: 'Check or uncheck the item' })
+  @IsBoolean()
+  @IsOptional()
+  done?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PickType } from '@nestjs/swagger';
+import { CreateTaskCommentDto } from './create-task-comment.dto';
+
+export class UpdateTaskCommentDto extends PickType(CreateTaskCommentDto, ['body'] as const) {}
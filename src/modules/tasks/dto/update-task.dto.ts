@@ -1,4 +1,5 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateTaskDto } from './create-task.dto';
 
-export class UpdateTaskDto extends PartialType(CreateTaskDto) {} 
\ No newline at end of file
+// Schedules are changed through PUT /tasks/:id/recurrence
+export class UpdateTaskDto extends PartialType(OmitType(CreateTaskDto, ['recurrence'] as const)) {}
@@ -0,0 +1,54 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Task } from './task.entity';
+
+@Entity('task_attachments')
+@Index(['taskId', 'createdAt'])
+export class Attachment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Relation<Task>;
+
+  @Column()
+  filename: string;
+
+  @Column({ name: 'mime_type' })
+  mimeType: string;
+
+  // Bytes
+  @Column({ type: 'int' })
+  size: number;
+
+  // Hex SHA-256 of the content
+  @Column({ length: 64 })
+  checksum: string;
+
+  // Where the blob lives in the configured storage driver
+  @Column({ name: 'storage_key', unique: true })
+  storageKey: string;
+
+  @Column({ name: 'uploaded_by', type: 'uuid', nullable: true })
+  uploadedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'uploaded_by' })
+  uploadedBy: Relation<User> | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
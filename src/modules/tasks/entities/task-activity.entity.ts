@@ -0,0 +1,61 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { TaskActivityAction } from '../enums/task-activity-action.enum';
+import { TaskActivitySource } from '../enums/task-activity-source.enum';
+import type { TaskChanges } from '../utils/task-diff.util';
+
+// Append-only; rows are never updated or deleted by the application
+@Entity('task_activities')
+@Index(['taskId', 'createdAt'])
+@Index(['organizationId', 'createdAt'])
+@Index(['actorId', 'createdAt'])
+export class TaskActivity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Relation<Organization>;
+
+  // Deliberately not a foreign key: the history outlives the task
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  // The title at the time, so entries stay readable once the task is renamed or deleted
+  @Column({ name: 'task_title' })
+  taskTitle: string;
+
+  // null for changes made by the system, e.g. scheduled jobs
+  @Column({ name: 'actor_id', type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actor_id' })
+  actor: Relation<User> | null;
+
+  @Column({ type: 'enum', enum: TaskActivityAction })
+  action: TaskActivityAction;
+
+  @Column({ type: 'enum', enum: TaskActivitySource })
+  source: TaskActivitySource;
+
+  // Changed fields with their old and new values; a creation lists the initial values
+  @Column({ type: 'jsonb', default: {} })
+  changes: TaskChanges;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,53 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Task } from './task.entity';
+
+@Entity('task_checklist_items')
+@Index(['taskId', 'position'])
+export class TaskChecklistItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Relation<Task>;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  // Items are listed by ascending position; gaps are fine
+  @Column({ type: 'int', default: 0 })
+  position: number;
+
+  @Column({ default: false })
+  done: boolean;
+
+  @Column({ name: 'completed_by', type: 'uuid', nullable: true })
+  completedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'completed_by' })
+  completedBy: Relation<User> | null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
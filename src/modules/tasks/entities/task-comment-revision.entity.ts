@@ -0,0 +1,30 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { TaskComment } from './task-comment.entity';
+
+// The body a comment had before an edit; newest revision is the one replaced last
+@Entity('task_comment_revisions')
+export class TaskCommentRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'comment_id' })
+  commentId: string;
+
+  @ManyToOne(() => TaskComment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'comment_id' })
+  comment: Relation<TaskComment>;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
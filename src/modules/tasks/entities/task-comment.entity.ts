@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Task } from './task.entity';
+
+@Entity('task_comments')
+@Index(['taskId', 'createdAt'])
+export class TaskComment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Relation<Task>;
+
+  // Kept when the author's account is deleted so the thread stays readable
+  @Column({ name: 'author_id', type: 'uuid', nullable: true })
+  authorId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'author_id' })
+  author: Relation<User> | null;
+
+  // Replies point at a top-level comment; threads are one level deep
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  @ManyToOne(() => TaskComment, comment => comment.replies, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Relation<TaskComment> | null;
+
+  @OneToMany(() => TaskComment, comment => comment.parent)
+  replies: TaskComment[];
+
+  @Column({ type: 'text' })
+  body: string;
+
+  @Column({ name: 'mentioned_user_ids', type: 'uuid', array: true, default: '{}' })
+  mentionedUserIds: string[];
+
+  @Column({ name: 'edited_at', type: 'timestamp', nullable: true })
+  editedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
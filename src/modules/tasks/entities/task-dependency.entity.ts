@@ -0,0 +1,25 @@
+import { CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import type { Relation } from 'typeorm';
+import { Task } from './task.entity';
+
+// "task is blocked by blocker": the task shouldn't start until the blocker is completed
+@Entity('task_dependencies')
+@Index(['blockerId'])
+export class TaskDependency {
+  @PrimaryColumn({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @PrimaryColumn({ name: 'blocker_id', type: 'uuid' })
+  blockerId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Relation<Task>;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blocker_id' })
+  blocker: Relation<Task>;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,108 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Project } from '../../projects/entities/project.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
+import { RecurrenceFrequency } from '../enums/recurrence-frequency.enum';
+import { TaskPriority } from '../enums/task-priority.enum';
+
+/**
+ * A series of tasks generated from one schedule. Occurrences are regular tasks pointing back at
+ * the series; the title, description, priority, owner and project here are what the next
+ * occurrence is created with ("all future occurrences" edits change them).
+ */
+@Entity('task_recurrences')
+@Index(['organizationId'])
+export class TaskRecurrence {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Relation<Organization>;
+
+  @Column({ type: 'enum', enum: RecurrenceFrequency })
+  frequency: RecurrenceFrequency;
+
+  // Every n days, weeks or months
+  @Column({ type: 'int', default: 1 })
+  interval: number;
+
+  // IANA name; occurrences keep their local time of day across DST changes
+  @Column({ default: 'UTC' })
+  timezone: string;
+
+  // Due dates are counted from this occurrence, re-anchored whenever the schedule changes
+  @Column({ name: 'anchor_due_at', type: 'timestamp' })
+  anchorDueAt: Date;
+
+  @Column({ name: 'anchor_index', type: 'int', default: 1 })
+  anchorIndex: number;
+
+  // No occurrence is due after this date
+  @Column({ type: 'timestamp', nullable: true })
+  until: Date | null;
+
+  // Total number of occurrences, the first one included
+  @Column({ type: 'int', nullable: true })
+  count: number | null;
+
+  @Column({ name: 'occurrence_count', type: 'int', default: 1 })
+  occurrenceCount: number;
+
+  // Due date of the latest occurrence, even if that task was edited or deleted since
+  @Column({ name: 'current_due_at', type: 'timestamp' })
+  currentDueAt: Date;
+
+  // Set once the schedule is exhausted or stopped; no more occurrences are generated
+  @Column({ name: 'ended_at', type: 'timestamp', nullable: true })
+  endedAt: Date | null;
+
+  @Column()
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'enum', enum: TaskPriority, default: TaskPriority.MEDIUM })
+  priority: TaskPriority;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: Relation<User>;
+
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne(() => Project, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'project_id' })
+  project: Relation<Project> | null;
+
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdBy: Relation<User> | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
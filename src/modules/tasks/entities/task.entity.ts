@@ -1,15 +1,46 @@
-import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn,Index } from 'typeorm';
+import {
+  Column,
+  CreateDateColumn,
+  DeleteDateColumn,
+  Entity,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  VersionColumn,
+  Index,
+  VirtualColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { Label } from '../../labels/entities/label.entity';
+import { Project } from '../../projects/entities/project.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
 import { TaskStatus } from '../enums/task-status.enum';
 import { TaskPriority } from '../enums/task-priority.enum';
+import { TaskRecurrence } from './task-recurrence.entity';
 
 @Entity('tasks')
 @Index(['status'])
 @Index(['priority'])
+@Index(['projectId'])
+@Index(['organizationId'])
+@Index(['recurrenceId', 'occurrenceIndex'], { unique: true })
+@Index(['deletedAt'], { where: '"deleted_at" IS NOT NULL' })
 export class Task {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  // Always the owner's organization
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization)
+  @JoinColumn({ name: 'organization_id' })
+  organization: Relation<Organization>;
+
   @Column()
   title: string;
 
@@ -33,16 +64,149 @@ export class Task {
   @Column({ name: 'due_date', nullable: true })
   dueDate: Date;
 
-  @Column({ name: 'user_id' })
+  @Column({ name: 'estimate_minutes', type: 'int', nullable: true })
+  estimateMinutes: number | null;
+
+  // Only ever null in the trash: deleting a user moves their tasks there
+  @Column({ name: 'user_id', type: 'uuid', nullable: true })
   userId: string;
 
-  @ManyToOne(() => User, (user) => user.tasks)
+  @ManyToOne(() => User, user => user.tasks, { onDelete: 'SET NULL' })
   @JoinColumn({ name: 'user_id' })
-  user: User;
+  user: Relation<User>;
+
+  // Whoever created the task, which isn't necessarily its owner; kept when that user is deleted
+  @Column({ name: 'created_by', type: 'uuid', nullable: true })
+  createdById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdBy: Relation<User> | null;
+
+  @ManyToMany(() => User)
+  @JoinTable({
+    name: 'task_assignees',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  assignees: User[];
+
+  @ManyToMany(() => User)
+  @JoinTable({
+    name: 'task_watchers',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'user_id', referencedColumnName: 'id' },
+  })
+  watchers: User[];
+
+  // Personal tasks have no project; tasks go back to being personal when their project is deleted
+  @Column({ name: 'project_id', type: 'uuid', nullable: true })
+  projectId: string | null;
+
+  @ManyToOne(() => Project, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'project_id' })
+  project: Relation<Project> | null;
+
+  @Column({ name: 'parent_id', type: 'uuid', nullable: true })
+  parentId: string | null;
+
+  // Subtasks become top-level tasks when their parent is deleted
+  @ManyToOne(() => Task, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parent_id' })
+  parent: Relation<Task> | null;
+
+  // Set on occurrences of a recurring series; they stay as plain tasks if the series is deleted
+  @Column({ name: 'recurrence_id', type: 'uuid', nullable: true })
+  recurrenceId: string | null;
+
+  @ManyToOne(() => TaskRecurrence, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'recurrence_id' })
+  recurrence: Relation<TaskRecurrence> | null;
+
+  // 1-based position in the series
+  @Column({ name: 'occurrence_index', type: 'int', nullable: true })
+  occurrenceIndex: number | null;
+
+  @ManyToMany(() => Label)
+  @JoinTable({
+    name: 'task_labels',
+    joinColumn: { name: 'task_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'label_id', referencedColumnName: 'id' },
+  })
+  labels: Label[];
+
+  @VirtualColumn({
+    type: 'int',
+    query: alias =>
+      `SELECT COUNT(*)::int FROM task_comments WHERE task_comments.task_id = ${alias}.id`,
+  })
+  commentCount: number;
+
+  @VirtualColumn({
+    type: 'int',
+    query: alias => `
+      SELECT COUNT(*)::int FROM tasks sub
+      WHERE sub.parent_id = ${alias}.id AND sub.deleted_at IS NULL`,
+  })
+  subtaskCount: number;
+
+  // Percentage of direct subtasks that are completed; null when there are none
+  @VirtualColumn({
+    type: 'int',
+    query: alias => `
+      SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE sub.status = 'COMPLETED') / NULLIF(COUNT(*), 0))::int
+      FROM tasks sub WHERE sub.parent_id = ${alias}.id AND sub.deleted_at IS NULL`,
+  })
+  subtaskProgress: number | null;
+
+  // Percentage of checklist items that are done; null when the checklist is empty
+  @VirtualColumn({
+    type: 'int',
+    query: alias => `
+      SELECT ROUND(100.0 * COUNT(*) FILTER (WHERE item.done) / NULLIF(COUNT(*), 0))::int
+      FROM task_checklist_items item WHERE item.task_id = ${alias}.id`,
+  })
+  checklistProgress: number | null;
+
+  // Time logged on the task so far, not counting running timers
+  @VirtualColumn({
+    type: 'int',
+    query: alias => `
+      SELECT COALESCE(SUM(entry.minutes), 0)::int
+      FROM time_entries entry WHERE entry.task_id = ${alias}.id`,
+  })
+  loggedMinutes: number;
+
+  // True while any task this one depends on is not completed (trashed blockers don't count)
+  @VirtualColumn({
+    type: 'boolean',
+    query: alias => `
+      SELECT EXISTS (
+        SELECT 1 FROM task_dependencies d JOIN tasks blocker ON blocker.id = d.blocker_id
+        WHERE d.task_id = ${alias}.id AND blocker.status != 'COMPLETED'
+          AND blocker.deleted_at IS NULL
+      )`,
+  })
+  isBlocked: boolean;
 
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Goes up with every write to the row (saves and update queries alike); see task-etag.util
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  // Set while the task is in the trash; queries leave trashed tasks out unless asked otherwise
+  @DeleteDateColumn({ name: 'deleted_at' })
+  deletedAt: Date | null;
+
+  @Column({ name: 'deleted_by', type: 'uuid', nullable: true })
+  deletedById: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deleted_by' })
+  deletedBy: Relation<User> | null;
 } 
\ No newline at end of file
@@ -0,0 +1,56 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Task } from './task.entity';
+
+// A running timer has no end yet; each user has at most one
+@Entity('time_entries')
+@Index(['userId'], { unique: true, where: '"ended_at" IS NULL' })
+@Index(['userId', 'startedAt'])
+@Index(['taskId'])
+export class TimeEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'task_id', type: 'uuid' })
+  taskId: string;
+
+  @ManyToOne(() => Task, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'task_id' })
+  task: Relation<Task>;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: Relation<User>;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ name: 'ended_at', type: 'timestamp', nullable: true })
+  endedAt: Date | null;
+
+  // Whole minutes, set once the entry is finished
+  @Column({ type: 'int', nullable: true })
+  minutes: number | null;
+
+  // Entered by hand rather than measured by a timer
+  @Column({ default: false })
+  manual: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
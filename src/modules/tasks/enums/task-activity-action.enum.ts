@@ -0,0 +1,9 @@
+export enum TaskActivityAction {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  // Moved to the trash
+  DELETED = 'DELETED',
+  RESTORED = 'RESTORED',
+  // Permanently removed from the trash
+  PURGED = 'PURGED',
+}
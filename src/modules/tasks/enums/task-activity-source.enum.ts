@@ -0,0 +1,6 @@
+// Where a change came from: a single API call, a batch request or a background job
+export enum TaskActivitySource {
+  API = 'API',
+  BATCH = 'BATCH',
+  JOB = 'JOB',
+}
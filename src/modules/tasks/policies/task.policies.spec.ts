@@ -0,0 +1,66 @@
+import { Request } from 'express';
+import { TaskReassignPolicy, canAssignTask } from './task.policies';
+import { TasksService } from '../tasks.service';
+import type { AuthenticatedUser } from '../../auth/strategies/jwt.strategy';
+
+const member: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  organizationId: 'org-1',
+  roles: ['user'],
+  permissions: ['tasks:read', 'tasks:write'],
+  mfaAuthenticated: false,
+};
+
+const manager: AuthenticatedUser = {
+  ...member,
+  id: 'admin-1',
+  permissions: [...member.permissions, 'tasks:manage'],
+};
+
+const requestOf = (user: AuthenticatedUser, body: Record<string, unknown>) =>
+  ({ user, body, params: { id: 'task-1' } }) as unknown as Request;
+
+describe('canAssignTask', () => {
+  it.each([
+    ['no owner', member, {}, true],
+    ['the caller as owner', member, { userId: 'user-1' }, true],
+    ['another owner', member, { userId: 'user-2' }, false],
+    ['another owner with tasks:manage', manager, { userId: 'user-2' }, true],
+  ])('allows a new task for %s: %p', (_name, user, body, allowed) => {
+    expect(canAssignTask(requestOf(user, body))).toBe(allowed);
+  });
+});
+
+describe('TaskReassignPolicy', () => {
+  let tasksService: { canReassign: jest.Mock };
+  let policy: TaskReassignPolicy;
+
+  beforeEach(() => {
+    tasksService = { canReassign: jest.fn(async () => false) };
+    policy = new TaskReassignPolicy(tasksService as unknown as TasksService);
+  });
+
+  it('allows changes that leave the owner out', async () => {
+    await expect(policy.handle(requestOf(member, { title: 'Renamed' }))).resolves.toBe(true);
+    expect(tasksService.canReassign).not.toHaveBeenCalled();
+  });
+
+  it('allows tasks:manage holders to reassign any task', async () => {
+    await expect(policy.handle(requestOf(manager, { userId: 'user-2' }))).resolves.toBe(true);
+    expect(tasksService.canReassign).not.toHaveBeenCalled();
+  });
+
+  it('refuses an assignee or editor taking over the task', async () => {
+    await expect(policy.handle(requestOf(member, { userId: 'user-1' }))).resolves.toBe(false);
+    expect(tasksService.canReassign).toHaveBeenCalledWith('task-1', 'user-1', 'user-1');
+  });
+
+  it('leaves other owner changes to the task and project check', async () => {
+    tasksService.canReassign.mockResolvedValue(true);
+
+    await expect(policy.handle(requestOf(member, { userId: 'user-2' }))).resolves.toBe(true);
+    expect(tasksService.canReassign).toHaveBeenCalledWith('task-1', 'user-1', 'user-2');
+  });
+});
@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { PolicyHandler } from '../../../common/decorators/check-policies.decorator';
+import { PermissionKey } from '../../roles/enums/permission-key.enum';
+import { hasPermission } from '../../roles/permissions.util';
+import { PROJECT_WRITE_ROLES } from '../../projects/projects.constants';
+import { TaskAccess, TasksService } from '../tasks.service';
+import type { AuthenticatedUser } from '../../auth/strategies/jwt.strategy';
+
+const canManageAnyTask = (user: AuthenticatedUser) =>
+  hasPermission(user, PermissionKey.TASKS_MANAGE);
+
+// Reads are open to every project member, anything else needs the editor or owner role
+const accessFor = (request: Request): TaskAccess => (request.method === 'GET' ? 'read' : 'write');
+
+// The owner, an assignee, a member of the task's project or a tasks:manage holder may act on the
+// task in :id (watchers may only read it); a missing task (or one of another organization) is
+// treated like someone else's
+@Injectable()
+export class TaskOwnerPolicy implements PolicyHandler {
+  constructor(private readonly tasksService: TasksService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    return this.tasksService.canAccess(
+      [request.params.id],
+      user.id,
+      accessFor(request),
+      canManageAnyTask(user),
+    );
+  }
+}
+
+// Like TaskOwnerPolicy, but read access is enough whatever the method, e.g. to watch a task
+@Injectable()
+export class TaskViewerPolicy implements PolicyHandler {
+  constructor(private readonly tasksService: TasksService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    return this.tasksService.canAccess(
+      [request.params.id],
+      user.id,
+      'read',
+      canManageAnyTask(user),
+    );
+  }
+}
+
+// A task id given in the body (the field is set per subclass) must point at a task the
+// caller may act on
+@Injectable()
+export abstract class ReferencedTaskPolicy implements PolicyHandler {
+  protected abstract readonly field: string;
+
+  constructor(private readonly tasksService: TasksService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    const taskId = request.body?.[this.field];
+    if (!taskId) {
+      return true;
+    }
+    return this.tasksService.canAccess([taskId], user.id, 'write', canManageAnyTask(user));
+  }
+}
+
+@Injectable()
+export class TaskParentPolicy extends ReferencedTaskPolicy {
+  protected readonly field = 'parentId';
+}
+
+@Injectable()
+export class TaskBlockerPolicy extends ReferencedTaskPolicy {
+  protected readonly field = 'blockerId';
+}
+
+// Putting a task into a project needs the editor or owner role there
+@Injectable()
+export class TaskProjectPolicy implements PolicyHandler {
+  constructor(private readonly tasksService: TasksService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    const projectId = request.body?.projectId;
+    if (!projectId || canManageAnyTask(user)) {
+      return true;
+    }
+    return this.tasksService.hasProjectRole(projectId, user.id, PROJECT_WRITE_ROLES);
+  }
+}
+
+// Batch operations: every task must be writable by the caller (with tasks:manage, any task of the
+// organization), and batch deletes need tasks:delete like the single-task delete
+@Injectable()
+export class TaskBatchPolicy implements PolicyHandler {
+  constructor(private readonly tasksService: TasksService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    const { tasks, action } = request.body ?? {};
+
+    if (action === 'delete' && !hasPermission(user, PermissionKey.TASKS_DELETE)) {
+      return false;
+    }
+    if (!Array.isArray(tasks) || !tasks.length) {
+      // Malformed bodies are left for the handler to report
+      return true;
+    }
+    return this.tasksService.canAccess(tasks, user.id, 'write', canManageAnyTask(user));
+  }
+}
+
+// Changing the owner of the task in :id needs tasks:manage or the owner role in its project;
+// sending the current owner along is no change
+@Injectable()
+export class TaskReassignPolicy implements PolicyHandler {
+  constructor(private readonly tasksService: TasksService) {}
+
+  async handle(request: Request): Promise<boolean> {
+    const user = request.user as AuthenticatedUser;
+    const userId = request.body?.userId;
+    if (userId === undefined || canManageAnyTask(user)) {
+      return true;
+    }
+    return this.tasksService.canReassign(request.params.id, user.id, userId);
+  }
+}
+
+// Only tasks:manage holders may create tasks for other users (existing tasks are covered by
+// TaskReassignPolicy)
+export const canAssignTask = (request: Request) => {
+  const user = request.user as AuthenticatedUser;
+  const userId = request.body?.userId;
+  return canManageAnyTask(user) || userId === undefined || userId === user.id;
+};
+
+// Without tasks:manage users can't filter by another owner (the list itself is limited to tasks
+// they own, are assigned to or watch)
+export const canListTasks = (request: Request) => {
+  const user = request.user as AuthenticatedUser;
+  const userId = request.query.userId;
+  return canManageAnyTask(user) || userId === undefined || userId === user.id;
+};
@@ -0,0 +1,48 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskActivityService } from './task-activity.service';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { ActivityFeedQueryDto } from './dto/activity-feed-query.dto';
+import { TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+import { hasPermission } from '@modules/roles/permissions.util';
+
+@ApiTags('tasks')
+@Controller()
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskActivityController {
+  constructor(private readonly taskActivityService: TaskActivityService) {}
+
+  @Get('tasks/:id/history')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: "List a task's changes, latest first" })
+  findHistory(@Param('id') taskId: string, @Query() paginationDto: PaginationQueryDto) {
+    return this.taskActivityService.findForTask(taskId, paginationDto);
+  }
+
+  @Get('activity')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List recent task changes across the organization' })
+  findFeed(@CurrentUser() user: AuthenticatedUser, @Query() filter: ActivityFeedQueryDto) {
+    return this.taskActivityService.findFeed(filter, {
+      id: user.id,
+      canManage: hasPermission(user, PermissionKey.TASKS_MANAGE),
+    });
+  }
+}
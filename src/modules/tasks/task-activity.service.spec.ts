@@ -0,0 +1,92 @@
+import { EntityManager, Repository } from 'typeorm';
+import { TaskActivityRecord, TaskActivityService } from './task-activity.service';
+import { TaskActivity } from './entities/task-activity.entity';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+const task = { id: 'task-1', organizationId: 'org-1', title: 'Write specs' };
+
+describe('TaskActivityService', () => {
+  let history: TaskActivity[];
+  let manager: { create: jest.Mock; save: jest.Mock };
+  let service: TaskActivityService;
+
+  const record = (...records: TaskActivityRecord[]) =>
+    service.record(manager as unknown as EntityManager, records);
+
+  beforeEach(() => {
+    history = [];
+    // Only inserts are possible: the manager has no update or delete to call
+    manager = {
+      create: jest.fn((_entity, fields) => Object.assign(new TaskActivity(), fields)),
+      save: jest.fn(async (entries: TaskActivity[]) => {
+        entries.forEach(entry => history.push({ ...entry, id: `activity-${history.length + 1}` }));
+        return entries;
+      }),
+    };
+    service = new TaskActivityService({} as Repository<TaskActivity>, new TenantContext());
+  });
+
+  describe('record', () => {
+    it('writes an entry per record through the given transaction', async () => {
+      await record(
+        {
+          task,
+          action: TaskActivityAction.UPDATED,
+          source: TaskActivitySource.API,
+          actorId: 'user-1',
+          changes: { title: { from: 'Write spec', to: 'Write specs' } },
+        },
+        { task, action: TaskActivityAction.DELETED, source: TaskActivitySource.JOB },
+      );
+
+      expect(history).toEqual([
+        expect.objectContaining({
+          organizationId: 'org-1',
+          taskId: 'task-1',
+          taskTitle: 'Write specs',
+          actorId: 'user-1',
+          action: TaskActivityAction.UPDATED,
+          changes: { title: { from: 'Write spec', to: 'Write specs' } },
+        }),
+        expect.objectContaining({ actorId: null, action: TaskActivityAction.DELETED, changes: {} }),
+      ]);
+    });
+
+    it('adds to the history of a task rather than replacing its entries', async () => {
+      await record({ task, action: TaskActivityAction.CREATED, source: TaskActivitySource.API });
+      const [created] = history;
+
+      await record({
+        task: { ...task, title: 'Write more specs' },
+        action: TaskActivityAction.UPDATED,
+        source: TaskActivitySource.API,
+      });
+
+      expect(history).toHaveLength(2);
+      expect(history[0]).toEqual(created);
+      expect(history[1]).toMatchObject({ taskTitle: 'Write more specs' });
+    });
+
+    it('only saves new entries', async () => {
+      await record({ task, action: TaskActivityAction.CREATED, source: TaskActivitySource.API });
+
+      // Without an id TypeORM inserts; it can't overwrite an existing row
+      const [saved] = manager.save.mock.calls[0][0] as TaskActivity[];
+      expect(saved.id).toBeUndefined();
+    });
+
+    it('writes nothing without records', async () => {
+      await record();
+
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  it('offers no way to change or remove entries', () => {
+    const methods = Object.getOwnPropertyNames(TaskActivityService.prototype);
+
+    expect(methods.filter(name => /update|edit|remove|delete|purge|clear/i.test(name))).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository, SelectQueryBuilder } from 'typeorm';
+import { TaskActivity } from './entities/task-activity.entity';
+import { Task } from './entities/task.entity';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { TaskChanges } from './utils/task-diff.util';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { ActivityFeedQueryDto } from './dto/activity-feed-query.dto';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+import { PaginatedResponse } from '../../types/pagination.interface';
+
+export interface TaskActivityRecord {
+  task: Pick<Task, 'id' | 'organizationId' | 'title'>;
+  action: TaskActivityAction;
+  source: TaskActivitySource;
+  actorId?: string | null;
+  changes?: TaskChanges;
+}
+
+/**
+ * Who is reading the feed: without canManage it's limited to their own changes and to tasks they
+ * own, are assigned to, watch or can see through a project.
+ */
+export interface ActivityViewer {
+  id: string;
+  canManage: boolean;
+}
+
+@Injectable()
+export class TaskActivityService {
+  constructor(
+    @InjectRepository(TaskActivity)
+    private activityRepository: Repository<TaskActivity>,
+    private tenantContext: TenantContext,
+  ) {}
+
+  // Part of the caller's transaction, so a change and its history entry commit together
+  async record(manager: EntityManager, records: TaskActivityRecord[]): Promise<void> {
+    if (!records.length) {
+      return;
+    }
+
+    await manager.save(
+      records.map(({ task, action, source, actorId, changes }) =>
+        manager.create(TaskActivity, {
+          organizationId: task.organizationId,
+          taskId: task.id,
+          taskTitle: task.title,
+          actorId: actorId ?? null,
+          action,
+          source,
+          changes: changes ?? {},
+        }),
+      ),
+    );
+  }
+
+  // Latest first
+  findForTask(
+    taskId: string,
+    { page = 1, limit = 20 }: PaginationQueryDto,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    const query = this.baseQuery().andWhere('activity.taskId = :taskId', { taskId });
+    return this.paginate(query, page, limit);
+  }
+
+  findFeed(
+    filter: ActivityFeedQueryDto,
+    viewer: ActivityViewer,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    const { page = 1, limit = 20, userId, taskId, from, to } = filter;
+    const query = this.baseQuery();
+
+    if (userId) {
+      query.andWhere('activity.actorId = :userId', { userId });
+    }
+    if (taskId) {
+      query.andWhere('activity.taskId = :taskId', { taskId });
+    }
+    if (from) {
+      query.andWhere('activity.createdAt >= :from', { from: new Date(from) });
+    }
+    if (to) {
+      query.andWhere('activity.createdAt < :to', { to: new Date(to) });
+    }
+    if (!viewer.canManage) {
+      query.andWhere(
+        `(activity.actorId = :viewerId OR activity.taskId IN (
+          SELECT id FROM tasks WHERE user_id = :viewerId
+          UNION SELECT task_id FROM task_assignees WHERE user_id = :viewerId
+          UNION SELECT task_id FROM task_watchers WHERE user_id = :viewerId
+          UNION SELECT t.id FROM tasks t
+            JOIN project_members member ON member.project_id = t.project_id
+            WHERE member.user_id = :viewerId
+        ))`,
+        { viewerId: viewer.id },
+      );
+    }
+
+    return this.paginate(query, page, limit);
+  }
+
+  private baseQuery(): SelectQueryBuilder<TaskActivity> {
+    const query = this.activityRepository
+      .createQueryBuilder('activity')
+      .leftJoin('activity.actor', 'actor')
+      .addSelect(['actor.id', 'actor.name'])
+      .orderBy('activity.createdAt', 'DESC')
+      .addOrderBy('activity.id', 'DESC');
+    return this.tenantContext.scopeQuery(query, 'activity.organizationId');
+  }
+
+  private async paginate(
+    query: SelectQueryBuilder<TaskActivity>,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<TaskActivity>> {
+    const [data, total] = await query
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiBody, ApiConsumes, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskAttachmentsService } from './task-attachments.service';
+import type { UploadedAttachment } from './task-attachments.service';
+import { TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/attachments')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@CheckPolicies(TaskOwnerPolicy)
+@ApiBearerAuth()
+export class TaskAttachmentsController {
+  constructor(private readonly taskAttachmentsService: TaskAttachmentsService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: "List a task's attachments" })
+  findAll(@Param('id') taskId: string) {
+    return this.taskAttachmentsService.findAll(taskId);
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiOperation({ summary: 'Upload a file to a task' })
+  upload(
+    @Param('id') taskId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @UploadedFile() file: UploadedAttachment | undefined,
+  ) {
+    return this.taskAttachmentsService.upload(taskId, user.id, file);
+  }
+
+  @Get(':attachmentId/download')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: "Download an attachment's content" })
+  async download(@Param('id') taskId: string, @Param('attachmentId') attachmentId: string) {
+    const { attachment, body } = await this.taskAttachmentsService.download(taskId, attachmentId);
+
+    return new StreamableFile(body, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+    });
+  }
+
+  @Delete(':attachmentId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Delete an attachment and its content' })
+  remove(@Param('id') taskId: string, @Param('attachmentId') attachmentId: string) {
+    return this.taskAttachmentsService.remove(taskId, attachmentId);
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { TaskAttachmentsService, UploadedAttachment } from './task-attachments.service';
+import { Attachment } from './entities/attachment.entity';
+import type { StorageDriver } from '../../common/storage/drivers/storage-driver.interface';
+
+function createFile(overrides: Partial<UploadedAttachment> = {}): UploadedAttachment {
+  const buffer = Buffer.from('hello');
+  return {
+    originalname: 'notes.txt',
+    mimetype: 'text/plain',
+    size: buffer.length,
+    buffer,
+    ...overrides,
+  };
+}
+
+describe('TaskAttachmentsService', () => {
+  let attachmentsRepository: { create: jest.Mock; save: jest.Mock };
+  let storage: { put: jest.Mock; get: jest.Mock; delete: jest.Mock };
+
+  const createService = (config: Record<string, string> = {}) =>
+    new TaskAttachmentsService(
+      attachmentsRepository as unknown as Repository<Attachment>,
+      storage as unknown as StorageDriver,
+      new ConfigService(config),
+    );
+
+  beforeEach(() => {
+    attachmentsRepository = {
+      create: jest.fn(fields => Object.assign(new Attachment(), fields)),
+      save: jest.fn(async attachment => attachment),
+    };
+    storage = {
+      put: jest.fn(async () => undefined),
+      get: jest.fn(async () => null),
+      delete: jest.fn(async () => undefined),
+    };
+  });
+
+  describe('upload', () => {
+    it('stores the file and records its metadata', async () => {
+      const attachment = await createService().upload('task-1', 'user-1', createFile());
+
+      expect(attachment).toMatchObject({
+        taskId: 'task-1',
+        filename: 'notes.txt',
+        mimeType: 'text/plain',
+        size: 5,
+        uploadedById: 'user-1',
+        storageKey: `tasks/task-1/${attachment.id}`,
+      });
+      expect(storage.put).toHaveBeenCalledWith(
+        attachment.storageKey,
+        createFile().buffer,
+        'text/plain',
+      );
+    });
+
+    it('requires a file', async () => {
+      await expect(createService().upload('task-1', 'user-1', undefined)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('refuses files over the configured size', async () => {
+      const service = createService({ ATTACHMENT_MAX_SIZE_MB: '1' });
+
+      await expect(
+        service.upload('task-1', 'user-1', createFile({ size: 1024 * 1024 + 1 })),
+      ).rejects.toBeInstanceOf(PayloadTooLargeException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('accepts a file of exactly the configured size', async () => {
+      const service = createService({ ATTACHMENT_MAX_SIZE_MB: '1' });
+
+      await expect(
+        service.upload('task-1', 'user-1', createFile({ size: 1024 * 1024 })),
+      ).resolves.toBeInstanceOf(Attachment);
+    });
+
+    it.each([
+      ['a default type', {}, 'application/pdf', true],
+      ['a type outside the defaults', {}, 'application/x-msdownload', false],
+      [
+        'a type in a configured family',
+        { ATTACHMENT_ALLOWED_TYPES: 'image/*' },
+        'image/svg+xml',
+        true,
+      ],
+      [
+        'a type outside the configured list',
+        { ATTACHMENT_ALLOWED_TYPES: 'image/*' },
+        'text/plain',
+        false,
+      ],
+      ['a type in another case', { ATTACHMENT_ALLOWED_TYPES: ' Text/Plain ' }, 'TEXT/PLAIN', true],
+    ])('checks %s', async (_name, config, mimetype, allowed) => {
+      const upload = createService(config).upload('task-1', 'user-1', createFile({ mimetype }));
+
+      if (allowed) {
+        await expect(upload).resolves.toMatchObject({ mimeType: mimetype.toLowerCase() });
+      } else {
+        await expect(upload).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+        expect(storage.put).not.toHaveBeenCalled();
+      }
+    });
+
+    it.each([
+      ['a path', '../../etc/passwd', 'passwd'],
+      ['a Windows path', 'C:\\Users\\ada\\notes.txt', 'notes.txt'],
+      ['control characters', 'notes\u0000\n.txt', 'notes.txt'],
+      ['nothing left', '\u0007', 'attachment'],
+    ])('strips %s from the file name', async (_name, originalname, filename) => {
+      await expect(
+        createService().upload('task-1', 'user-1', createFile({ originalname })),
+      ).resolves.toMatchObject({ filename });
+    });
+
+    it('removes the stored file when the row cannot be saved', async () => {
+      const failure = new Error('connection reset');
+      attachmentsRepository.save.mockRejectedValue(failure);
+
+      await expect(createService().upload('task-1', 'user-1', createFile())).rejects.toBe(failure);
+      expect(storage.delete).toHaveBeenCalledWith([storage.put.mock.calls[0][0]]);
+    });
+  });
+});
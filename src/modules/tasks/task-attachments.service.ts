@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { Attachment } from './entities/attachment.entity';
+import { STORAGE_DRIVER } from '../../common/storage/drivers/storage-driver.interface';
+import type { StorageDriver } from '../../common/storage/drivers/storage-driver.interface';
+
+export const ATTACHMENT_CLEANUP_JOB = 'attachment-cleanup';
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/zip',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+].join(',');
+
+// The parts of a multer file the service relies on (memory storage)
+export interface UploadedAttachment {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export function maxAttachmentBytes(configService: ConfigService): number {
+  return parseInt(configService.get('ATTACHMENT_MAX_SIZE_MB', '10'), 10) * 1024 * 1024;
+}
+
+// Blobs are written before their row and removed after it, so a failure leaves at most an orphan
+@Injectable()
+export class TaskAttachmentsService {
+  private readonly logger = new Logger(TaskAttachmentsService.name);
+  private readonly maxBytes: number;
+  private readonly allowedTypes: string[];
+
+  constructor(
+    @InjectRepository(Attachment)
+    private attachmentsRepository: Repository<Attachment>,
+    @Inject(STORAGE_DRIVER)
+    private storage: StorageDriver,
+    configService: ConfigService,
+  ) {
+    this.maxBytes = maxAttachmentBytes(configService);
+    this.allowedTypes = configService
+      .get('ATTACHMENT_ALLOWED_TYPES', DEFAULT_ALLOWED_TYPES)
+      .split(',')
+      .map((type: string) => type.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  findAll(taskId: string): Promise<Attachment[]> {
+    return this.attachmentsRepository.find({
+      where: { taskId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async upload(
+    taskId: string,
+    userId: string,
+    file: UploadedAttachment | undefined,
+  ): Promise<Attachment> {
+    if (!file) {
+      throw new BadRequestException('Expected a file in the "file" field');
+    }
+    if (file.size > this.maxBytes) {
+      throw new PayloadTooLargeException(`Attachments are limited to ${this.maxBytes} bytes`);
+    }
+    const mimeType = file.mimetype.toLowerCase();
+    if (!this.isAllowedType(mimeType)) {
+      throw new UnsupportedMediaTypeException(`Files of type ${mimeType} can't be attached`);
+    }
+
+    const id = crypto.randomUUID();
+    const storageKey = `tasks/${taskId}/${id}`;
+    await this.storage.put(storageKey, file.buffer, mimeType);
+
+    try {
+      return await this.attachmentsRepository.save(
+        this.attachmentsRepository.create({
+          id,
+          taskId,
+          filename: this.sanitizeFilename(file.originalname),
+          mimeType,
+          size: file.size,
+          checksum: crypto.createHash('sha256').update(file.buffer).digest('hex'),
+          storageKey,
+          uploadedById: userId,
+        }),
+      );
+    } catch (error) {
+      await this.deleteBlobs([storageKey]).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async download(
+    taskId: string,
+    attachmentId: string,
+  ): Promise<{ attachment: Attachment; body: Readable }> {
+    const attachment = await this.findOne(taskId, attachmentId);
+    const body = await this.storage.get(attachment.storageKey);
+
+    if (!body) {
+      throw new NotFoundException(`The content of attachment ${attachmentId} is missing`);
+    }
+    return { attachment, body };
+  }
+
+  async remove(taskId: string, attachmentId: string): Promise<void> {
+    const attachment = await this.findOne(taskId, attachmentId);
+
+    await this.attachmentsRepository.remove(attachment);
+    // The attachment is gone either way; a blob that couldn't be deleted is only logged
+    await this.deleteBlobs([attachment.storageKey]).catch(() => undefined);
+  }
+
+  // Also used by the queue once a task is deleted; errors are rethrown so the job retries
+  async deleteBlobs(storageKeys: string[]): Promise<void> {
+    try {
+      await this.storage.delete(storageKeys);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete attachment blobs ${storageKeys.join(', ')}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      throw error;
+    }
+  }
+
+  private async findOne(taskId: string, attachmentId: string): Promise<Attachment> {
+    const attachment = await this.attachmentsRepository.findOneBy({ id: attachmentId, taskId });
+
+    if (!attachment) {
+      throw new NotFoundException(`Attachment with ID ${attachmentId} not found`);
+    }
+    return attachment;
+  }
+
+  // Entries like "image/*" allow a whole family of types
+  private isAllowedType(mimeType: string): boolean {
+    return this.allowedTypes.some(type =>
+      type.endsWith('/*') ? mimeType.startsWith(type.slice(0, -1)) : type === mimeType,
+    );
+  }
+
+  private sanitizeFilename(filename: string): string {
+    // eslint-disable-next-line no-control-regex
+    const name = path.basename(filename.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f]/g, '');
+    return name.slice(0, 255) || 'attachment';
+  }
+}
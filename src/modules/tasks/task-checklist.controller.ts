@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskChecklistService } from './task-checklist.service';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+import { ReorderChecklistItemsDto } from './dto/reorder-checklist-items.dto';
+import { TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/checklist')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@CheckPolicies(TaskOwnerPolicy)
+@ApiBearerAuth()
+export class TaskChecklistController {
+  constructor(private readonly taskChecklistService: TaskChecklistService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: "List a task's checklist items in order" })
+  findAll(@Param('id') taskId: string) {
+    return this.taskChecklistService.findAll(taskId);
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Add a checklist item to a task' })
+  create(@Param('id') taskId: string, @Body() createItemDto: CreateChecklistItemDto) {
+    return this.taskChecklistService.create(taskId, createItemDto);
+  }
+
+  @Put('order')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: "Reorder a task's checklist items" })
+  reorder(@Param('id') taskId: string, @Body() reorderDto: ReorderChecklistItemsDto) {
+    return this.taskChecklistService.reorder(taskId, reorderDto.itemIds);
+  }
+
+  @Patch(':itemId')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Edit or check off a checklist item' })
+  update(
+    @Param('id') taskId: string,
+    @Param('itemId') itemId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() updateItemDto: UpdateChecklistItemDto,
+  ) {
+    return this.taskChecklistService.update(taskId, itemId, user.id, updateItemDto);
+  }
+
+  @Delete(':itemId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Remove a checklist item' })
+  remove(@Param('id') taskId: string, @Param('itemId') itemId: string) {
+    return this.taskChecklistService.remove(taskId, itemId);
+  }
+}
@@ -0,0 +1,164 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { FindOperator, Repository } from 'typeorm';
+import { TaskChecklistService } from './task-checklist.service';
+import { TasksService } from './tasks.service';
+import { Task } from './entities/task.entity';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+
+/**
+ * Checklist items behind the parts of the repository and EntityManager the service uses; position
+ * conditions support the MoreThanOrEqual operator only.
+ */
+function createItemsTable(taskIds: string[]) {
+  const rows: TaskChecklistItem[] = [];
+  let created = 0;
+
+  const matches = (row: TaskChecklistItem, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, condition]) => {
+      const value = row[key as keyof TaskChecklistItem];
+      return condition instanceof FindOperator
+        ? (value as number) >= (condition.value as number)
+        : value === condition;
+    });
+  const ordered = (taskId: string) =>
+    rows
+      .filter(row => row.taskId === taskId)
+      .sort((a, b) => a.position - b.position || a.createdAt.getTime() - b.createdAt.getTime());
+
+  const manager = {
+    transaction: <T>(work: (manager: unknown) => Promise<T>) => work(manager),
+    findOne: async (_entity: unknown, { where }: { where: { id: string } }) =>
+      taskIds.includes(where.id) ? Object.assign(new Task(), { id: where.id }) : null,
+    createQueryBuilder: (_entity: unknown, _alias: string) => {
+      let taskId: string;
+      const query = {
+        select: () => query,
+        where: (_condition: string, parameters: { taskId: string }) => {
+          taskId = parameters.taskId;
+          return query;
+        },
+        getRawOne: async () => {
+          const positions = ordered(taskId).map(row => row.position);
+          return { max: positions.length ? String(Math.max(...positions)) : null };
+        },
+      };
+      return query;
+    },
+    increment: jest.fn(
+      async (_entity: unknown, where: Record<string, unknown>, column: 'position', by: number) => {
+        rows.filter(row => matches(row, where)).forEach(row => (row[column] += by));
+      },
+    ),
+    create: (_entity: unknown, fields: Partial<TaskChecklistItem>) =>
+      Object.assign(new TaskChecklistItem(), fields),
+    save: async (item: TaskChecklistItem) => {
+      created += 1;
+      // Spaced out so that the tie-break on createdAt is deterministic
+      Object.assign(item, { id: `item-${created}`, done: false, createdAt: new Date(created) });
+      rows.push(item);
+      return item;
+    },
+    find: async (_entity: unknown, { where }: { where: { taskId: string } }) =>
+      ordered(where.taskId),
+    update: jest.fn(async (_entity: unknown, id: string, fields: Partial<TaskChecklistItem>) => {
+      Object.assign(rows.find(row => row.id === id) ?? {}, fields);
+    }),
+  };
+
+  return {
+    order: (taskId: string) => ordered(taskId).map(row => row.text),
+    manager,
+    repository: {
+      manager,
+      find: async ({ where }: { where: { taskId: string } }) => ordered(where.taskId),
+    },
+  };
+}
+
+describe('TaskChecklistService', () => {
+  let items: ReturnType<typeof createItemsTable>;
+  let service: TaskChecklistService;
+
+  const add = (text: string, position?: number) => service.create('task-1', { text, position });
+
+  beforeEach(async () => {
+    items = createItemsTable(['task-1', 'task-2']);
+    service = new TaskChecklistService(
+      items.repository as unknown as Repository<TaskChecklistItem>,
+      { invalidateTaskCache: jest.fn(async () => undefined) } as unknown as TasksService,
+    );
+  });
+
+  describe('create', () => {
+    it('appends items by default', async () => {
+      await add('Draft');
+      await add('Review');
+      await add('Publish');
+
+      expect(items.order('task-1')).toEqual(['Draft', 'Review', 'Publish']);
+      expect(items.manager.increment).not.toHaveBeenCalled();
+    });
+
+    it('moves later items down when inserting at a position', async () => {
+      await add('Draft');
+      await add('Publish');
+
+      await add('Review', 1);
+
+      expect(items.order('task-1')).toEqual(['Draft', 'Review', 'Publish']);
+      await expect(service.findAll('task-1')).resolves.toMatchObject([
+        { position: 0 },
+        { position: 1 },
+        { position: 2 },
+      ]);
+    });
+
+    it('appends items positioned past the end', async () => {
+      await add('Draft');
+
+      await expect(add('Publish', 5)).resolves.toMatchObject({ position: 1 });
+    });
+
+    it('numbers each checklist separately', async () => {
+      await add('Draft');
+
+      await expect(service.create('task-2', { text: 'Plan' })).resolves.toMatchObject({
+        position: 0,
+      });
+    });
+
+    it('refuses items for a missing task', async () => {
+      await expect(service.create('task-3', { text: 'Draft' })).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('reorder', () => {
+    let ids: string[];
+
+    beforeEach(async () => {
+      ids = [(await add('Draft')).id, (await add('Review')).id, (await add('Publish')).id];
+    });
+
+    it('numbers the items in the given order', async () => {
+      const [draft, review, publish] = ids;
+
+      await expect(service.reorder('task-1', [publish, draft, review])).resolves.toMatchObject([
+        { text: 'Publish', position: 0 },
+        { text: 'Draft', position: 1 },
+        { text: 'Review', position: 2 },
+      ]);
+    });
+
+    it.each([
+      ['leaves an item out', () => ids.slice(1)],
+      ['lists an item twice', () => [ids[0], ids[0], ids[1]]],
+      ['lists an item of another checklist', () => [...ids.slice(1), 'item-99']],
+    ])('refuses an order that %s', async (_name, order) => {
+      await expect(service.reorder('task-1', order())).rejects.toBeInstanceOf(BadRequestException);
+      expect(items.manager.update).not.toHaveBeenCalled();
+      expect(items.order('task-1')).toEqual(['Draft', 'Review', 'Publish']);
+    });
+  });
+});
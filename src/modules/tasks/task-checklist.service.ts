@@ -0,0 +1,132 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, MoreThanOrEqual, Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { CreateChecklistItemDto } from './dto/create-checklist-item.dto';
+import { UpdateChecklistItemDto } from './dto/update-checklist-item.dto';
+import { TasksService } from './tasks.service';
+
+// Every change invalidates the task's cache entry, since it embeds the checklist progress
+@Injectable()
+export class TaskChecklistService {
+  constructor(
+    @InjectRepository(TaskChecklistItem)
+    private itemsRepository: Repository<TaskChecklistItem>,
+    private tasksService: TasksService,
+  ) {}
+
+  findAll(taskId: string): Promise<TaskChecklistItem[]> {
+    return this.itemsRepository.find({
+      where: { taskId },
+      order: { position: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async create(taskId: string, createItemDto: CreateChecklistItemDto): Promise<TaskChecklistItem> {
+    const item = await this.itemsRepository.manager.transaction(async manager => {
+      await this.lockTask(manager, taskId);
+
+      const { max } = await manager
+        .createQueryBuilder(TaskChecklistItem, 'item')
+        .select('MAX(item.position)', 'max')
+        .where('item.taskId = :taskId', { taskId })
+        .getRawOne();
+      const end = max === null ? 0 : Number(max) + 1;
+      const position = Math.min(createItemDto.position ?? end, end);
+
+      if (position < end) {
+        await manager.increment(
+          TaskChecklistItem,
+          { taskId, position: MoreThanOrEqual(position) },
+          'position',
+          1,
+        );
+      }
+      return manager.save(
+        manager.create(TaskChecklistItem, { taskId, text: createItemDto.text, position }),
+      );
+    });
+
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return item;
+  }
+
+  async update(
+    taskId: string,
+    itemId: string,
+    userId: string,
+    updateItemDto: UpdateChecklistItemDto,
+  ): Promise<TaskChecklistItem> {
+    const item = await this.findOne(taskId, itemId);
+
+    if (updateItemDto.text !== undefined) {
+      item.text = updateItemDto.text;
+    }
+    // Checking an already checked item keeps who did it first
+    if (updateItemDto.done !== undefined && updateItemDto.done !== item.done) {
+      item.done = updateItemDto.done;
+      item.completedById = item.done ? userId : null;
+      item.completedAt = item.done ? new Date() : null;
+    }
+
+    const saved = await this.itemsRepository.save(item);
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return saved;
+  }
+
+  async reorder(taskId: string, itemIds: string[]): Promise<TaskChecklistItem[]> {
+    await this.itemsRepository.manager.transaction(async manager => {
+      await this.lockTask(manager, taskId);
+
+      const items = await manager.find(TaskChecklistItem, {
+        select: { id: true },
+        where: { taskId },
+      });
+      const current = new Set(items.map(item => item.id));
+      if (
+        items.length !== itemIds.length ||
+        new Set(itemIds).size !== itemIds.length ||
+        itemIds.some(id => !current.has(id))
+      ) {
+        throw new BadRequestException('The new order must list every checklist item exactly once');
+      }
+
+      await Promise.all(
+        itemIds.map((id, position) => manager.update(TaskChecklistItem, id, { position })),
+      );
+    });
+
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return this.findAll(taskId);
+  }
+
+  async remove(taskId: string, itemId: string): Promise<void> {
+    const item = await this.findOne(taskId, itemId);
+
+    await this.itemsRepository.remove(item);
+    await this.tasksService.invalidateTaskCache([taskId]);
+  }
+
+  private async findOne(taskId: string, itemId: string): Promise<TaskChecklistItem> {
+    const item = await this.itemsRepository.findOneBy({ id: itemId, taskId });
+
+    if (!item) {
+      throw new NotFoundException(`Checklist item with ID ${itemId} not found`);
+    }
+    return item;
+  }
+
+  // Serializes position changes on one task's checklist
+  private async lockTask(manager: EntityManager, taskId: string) {
+    const task = await manager.findOne(Task, {
+      select: { id: true },
+      where: { id: taskId },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+  }
+}
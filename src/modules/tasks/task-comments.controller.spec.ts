@@ -0,0 +1,20 @@
+import { TaskCommentsController } from './task-comments.controller';
+import { TaskViewerPolicy } from './policies/task.policies';
+import { CHECK_POLICIES_KEY } from '../../common/decorators/check-policies.decorator';
+
+describe('TaskCommentsController', () => {
+  it('lets anyone who can see the task take part in the discussion', () => {
+    expect(Reflect.getMetadata(CHECK_POLICIES_KEY, TaskCommentsController)).toEqual([
+      TaskViewerPolicy,
+    ]);
+  });
+
+  it.each(['findAll', 'create', 'findHistory', 'update', 'remove'] as const)(
+    'keeps the policy of the controller for %s',
+    handler => {
+      expect(
+        Reflect.getMetadata(CHECK_POLICIES_KEY, TaskCommentsController.prototype[handler]),
+      ).toBeUndefined();
+    },
+  );
+});
@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskCommentsService } from './task-comments.service';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { TaskViewerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+import { hasPermission } from '@modules/roles/permissions.util';
+
+// Anyone who can see the task (TaskViewerPolicy on :id, watchers included) can read and join the
+// discussion; only authors edit their comments
+@ApiTags('tasks')
+@Controller('tasks/:id/comments')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@CheckPolicies(TaskViewerPolicy)
+@ApiBearerAuth()
+export class TaskCommentsController {
+  constructor(private readonly taskCommentsService: TaskCommentsService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List comments on a task' })
+  findAll(@Param('id') taskId: string, @Query() paginationDto: PaginationQueryDto) {
+    return this.taskCommentsService.findAll(taskId, paginationDto);
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Comment on a task or reply to a comment' })
+  create(
+    @Param('id') taskId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() createCommentDto: CreateTaskCommentDto,
+  ) {
+    return this.taskCommentsService.create(taskId, user.id, createCommentDto);
+  }
+
+  @Get(':commentId/history')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List previous versions of a comment' })
+  findHistory(@Param('id') taskId: string, @Param('commentId') commentId: string) {
+    return this.taskCommentsService.findHistory(taskId, commentId);
+  }
+
+  @Patch(':commentId')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Edit a comment (author only)' })
+  update(
+    @Param('id') taskId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() updateCommentDto: UpdateTaskCommentDto,
+  ) {
+    return this.taskCommentsService.update(taskId, commentId, user.id, updateCommentDto);
+  }
+
+  @Delete(':commentId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Delete a comment and its replies' })
+  remove(
+    @Param('id') taskId: string,
+    @Param('commentId') commentId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskCommentsService.remove(
+      taskId,
+      commentId,
+      user.id,
+      hasPermission(user, PermissionKey.TASKS_MANAGE),
+    );
+  }
+}
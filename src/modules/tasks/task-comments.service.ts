@@ -0,0 +1,194 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Repository } from 'typeorm';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { TasksService } from './tasks.service';
+import { UsersService } from '../users/users.service';
+import { parseMentions } from './utils/mentions.util';
+import { PaginatedResponse } from '../../types/pagination.interface';
+
+export const COMMENT_MENTION_JOB = 'comment-mention';
+
+const AUTHOR_FIELDS = ['id', 'name', 'email'];
+
+@Injectable()
+export class TaskCommentsService {
+  private readonly logger = new Logger(TaskCommentsService.name);
+
+  constructor(
+    @InjectRepository(TaskComment)
+    private commentsRepository: Repository<TaskComment>,
+    @InjectRepository(TaskCommentRevision)
+    private revisionsRepository: Repository<TaskCommentRevision>,
+    @InjectQueue('task-processing')
+    private taskQueue: Queue,
+    private tasksService: TasksService,
+    private usersService: UsersService,
+  ) {}
+
+  /**
+   * Top-level comments, oldest first, each with all of its replies.
+   */
+  async findAll(
+    taskId: string,
+    { page = 1, limit = 20 }: PaginationQueryDto,
+  ): Promise<PaginatedResponse<TaskComment>> {
+    const [data, total] = await this.commentsRepository
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(AUTHOR_FIELDS.map(field => `author.${field}`))
+      .leftJoinAndSelect('comment.replies', 'reply')
+      .leftJoin('reply.author', 'replyAuthor')
+      .addSelect(AUTHOR_FIELDS.map(field => `replyAuthor.${field}`))
+      .where('comment.taskId = :taskId', { taskId })
+      .andWhere('comment.parentId IS NULL')
+      .orderBy('comment.createdAt', 'ASC')
+      .addOrderBy('reply.createdAt', 'ASC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async findOne(taskId: string, commentId: string): Promise<TaskComment> {
+    const comment = await this.commentsRepository
+      .createQueryBuilder('comment')
+      .leftJoin('comment.author', 'author')
+      .addSelect(AUTHOR_FIELDS.map(field => `author.${field}`))
+      .where('comment.id = :commentId', { commentId })
+      .andWhere('comment.taskId = :taskId', { taskId })
+      .getOne();
+
+    if (!comment) {
+      throw new NotFoundException(`Comment with ID ${commentId} not found`);
+    }
+    return comment;
+  }
+
+  async create(
+    taskId: string,
+    authorId: string,
+    createCommentDto: CreateTaskCommentDto,
+  ): Promise<TaskComment> {
+    if (createCommentDto.parentId) {
+      const parent = await this.findOne(taskId, createCommentDto.parentId);
+      if (parent.parentId) {
+        throw new BadRequestException('Replies can only be added to top-level comments');
+      }
+    }
+
+    const mentionedUserIds = await this.resolveMentions(createCommentDto.body, authorId);
+
+    const saved = await this.commentsRepository.save(
+      this.commentsRepository.create({
+        taskId,
+        authorId,
+        parentId: createCommentDto.parentId ?? null,
+        body: createCommentDto.body,
+        mentionedUserIds,
+      }),
+    );
+
+    await this.tasksService.invalidateTaskCache([taskId]);
+    await this.notifyMentions(saved, mentionedUserIds);
+
+    return this.findOne(taskId, saved.id);
+  }
+
+  async update(
+    taskId: string,
+    commentId: string,
+    userId: string,
+    updateCommentDto: UpdateTaskCommentDto,
+  ): Promise<TaskComment> {
+    const comment = await this.findOne(taskId, commentId);
+
+    if (comment.authorId !== userId) {
+      throw new ForbiddenException('Only the author can edit a comment');
+    }
+    if (comment.body === updateCommentDto.body) {
+      return comment;
+    }
+
+    const mentionedUserIds = await this.resolveMentions(updateCommentDto.body, userId);
+    const newlyMentioned = mentionedUserIds.filter(id => !comment.mentionedUserIds.includes(id));
+
+    await this.commentsRepository.manager.transaction(async manager => {
+      await manager.insert(TaskCommentRevision, { commentId, body: comment.body });
+      await manager.update(TaskComment, commentId, {
+        body: updateCommentDto.body,
+        mentionedUserIds,
+        editedAt: new Date(),
+      });
+    });
+
+    await this.notifyMentions(comment, newlyMentioned);
+
+    return this.findOne(taskId, commentId);
+  }
+
+  async remove(taskId: string, commentId: string, userId: string, canModerate: boolean) {
+    const comment = await this.findOne(taskId, commentId);
+
+    if (comment.authorId !== userId && !canModerate) {
+      throw new ForbiddenException('Only the author can delete a comment');
+    }
+
+    // Replies go with their parent through the foreign key cascade
+    await this.commentsRepository.delete(comment.id);
+    await this.tasksService.invalidateTaskCache([taskId]);
+  }
+
+  async findHistory(taskId: string, commentId: string): Promise<TaskCommentRevision[]> {
+    await this.findOne(taskId, commentId);
+
+    return this.revisionsRepository.find({
+      where: { commentId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  private async resolveMentions(body: string, authorId: string): Promise<string[]> {
+    const { emails, handles } = parseMentions(body);
+    const users = await this.usersService.findByMentions(emails, handles);
+
+    return users.map(user => user.id).filter(id => id !== authorId);
+  }
+
+  private async notifyMentions(comment: TaskComment, userIds: string[]) {
+    if (!userIds.length) {
+      return;
+    }
+
+    try {
+      await this.taskQueue.add(COMMENT_MENTION_JOB, {
+        taskId: comment.taskId,
+        commentId: comment.id,
+        authorId: comment.authorId,
+        userIds,
+      });
+    } catch (queueError) {
+      // The comment is already saved; a missed notification shouldn't fail the request
+      this.logger.error(
+        `Failed to enqueue mention notifications for comment ${comment.id}`,
+        queueError instanceof Error ? queueError.stack : String(queueError),
+      );
+    }
+  }
+}
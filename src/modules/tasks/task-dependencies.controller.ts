@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { AddTaskBlockerDto } from './dto/add-task-blocker.dto';
+import { TaskBlockerPolicy, TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+
+@ApiTags('tasks')
+@Controller('tasks/:id')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskDependenciesController {
+  constructor(private readonly taskDependenciesService: TaskDependenciesService) {}
+
+  @Get('blockers')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'List the tasks blocking a task' })
+  findBlockers(@Param('id') taskId: string) {
+    return this.taskDependenciesService.findBlockers(taskId);
+  }
+
+  @Get('dependents')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'List the tasks waiting on a task' })
+  findDependents(@Param('id') taskId: string) {
+    return this.taskDependenciesService.findDependents(taskId);
+  }
+
+  @Post('blockers')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskOwnerPolicy, TaskBlockerPolicy)
+  @ApiOperation({ summary: 'Mark a task as blocked by another task' })
+  addBlocker(@Param('id') taskId: string, @Body() addBlockerDto: AddTaskBlockerDto) {
+    return this.taskDependenciesService.addBlocker(taskId, addBlockerDto.blockerId);
+  }
+
+  @Delete('blockers/:blockerId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'Remove a blocker from a task' })
+  removeBlocker(@Param('id') taskId: string, @Param('blockerId') blockerId: string) {
+    return this.taskDependenciesService.removeBlocker(taskId, blockerId);
+  }
+}
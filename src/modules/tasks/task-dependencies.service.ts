@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TasksService } from './tasks.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+export const TASK_UNBLOCKED_JOB = 'task-unblocked';
+
+// Serializes dependency inserts so two concurrent requests can't close a cycle between them
+const DEPENDENCY_LOCK_KEY = 'task_dependencies';
+
+@Injectable()
+export class TaskDependenciesService {
+  constructor(
+    @InjectRepository(TaskDependency)
+    private dependenciesRepository: Repository<TaskDependency>,
+    private tasksService: TasksService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  async findBlockers(taskId: string): Promise<Task[]> {
+    const dependencies = await this.dependenciesRepository.find({
+      where: { taskId },
+      relations: ['blocker'],
+      order: { createdAt: 'ASC' },
+    });
+    // Blockers in the trash are left out of the join
+    return dependencies.map(dependency => dependency.blocker).filter(blocker => !!blocker);
+  }
+
+  async findDependents(taskId: string): Promise<Task[]> {
+    const dependencies = await this.dependenciesRepository.find({
+      where: { blockerId: taskId },
+      relations: ['task'],
+      order: { createdAt: 'ASC' },
+    });
+    return dependencies.map(dependency => dependency.task).filter(task => !!task);
+  }
+
+  /**
+   * Dependents of the blocker that aren't completed themselves and have no open blockers left.
+   */
+  async findUnblockedDependents(blockerId: string): Promise<Task[]> {
+    return this.dependenciesRepository.manager
+      .createQueryBuilder(Task, 'task')
+      .innerJoin(TaskDependency, 'dependency', 'dependency.taskId = task.id')
+      .where('dependency.blockerId = :blockerId', { blockerId })
+      .andWhere('task.status != :completed', { completed: TaskStatus.COMPLETED })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM task_dependencies open_dependency
+          JOIN tasks open_blocker ON open_blocker.id = open_dependency.blocker_id
+          WHERE open_dependency.task_id = task.id AND open_blocker.status != :completed
+            AND open_blocker.deleted_at IS NULL
+        )`,
+      )
+      .getMany();
+  }
+
+  async addBlocker(taskId: string, blockerId: string): Promise<Task[]> {
+    if (taskId === blockerId) {
+      throw new BadRequestException('A task cannot block itself');
+    }
+
+    await this.dependenciesRepository.manager.transaction(async manager => {
+      await manager.query('SELECT pg_advisory_xact_lock(hashtext($1))', [DEPENDENCY_LOCK_KEY]);
+
+      const found = await manager.count(Task, {
+        where: this.tenantContext.scope({ id: In([taskId, blockerId]) }),
+      });
+      if (found !== 2) {
+        throw new NotFoundException('Task not found');
+      }
+      if (await manager.exists(TaskDependency, { where: { taskId, blockerId } })) {
+        throw new ConflictException(`Task ${blockerId} already blocks this task`);
+      }
+
+      // Adding the edge closes a cycle if the blocker already (transitively) waits on the task
+      const [{ cyclic }] = await manager.query(
+        `
+          WITH RECURSIVE upstream AS (
+            SELECT blocker_id FROM task_dependencies WHERE task_id = $1
+            UNION
+            SELECT d.blocker_id FROM task_dependencies d JOIN upstream u ON d.task_id = u.blocker_id
+          )
+          SELECT EXISTS (SELECT 1 FROM upstream WHERE blocker_id = $2) AS cyclic
+        `,
+        [blockerId, taskId],
+      );
+      if (cyclic) {
+        throw new BadRequestException('This dependency would create a cycle');
+      }
+
+      await manager.insert(TaskDependency, { taskId, blockerId });
+    });
+
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return this.findBlockers(taskId);
+  }
+
+  async removeBlocker(taskId: string, blockerId: string): Promise<void> {
+    const result = await this.dependenciesRepository.delete({ taskId, blockerId });
+
+    if (!result.affected) {
+      throw new NotFoundException(`Task ${blockerId} does not block this task`);
+    }
+
+    await this.tasksService.invalidateTaskCache([taskId]);
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TasksService } from './tasks.service';
+import { AddTaskLabelsDto } from './dto/add-task-labels.dto';
+import { TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/labels')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@CheckPolicies(TaskOwnerPolicy)
+@ApiBearerAuth()
+export class TaskLabelsController {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Attach labels to a task' })
+  attach(@Param('id') taskId: string, @Body() addLabelsDto: AddTaskLabelsDto) {
+    return this.tasksService.addLabels(taskId, addLabelsDto.labelIds);
+  }
+
+  @Delete(':labelId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Detach a label from a task' })
+  detach(@Param('id') taskId: string, @Param('labelId') labelId: string) {
+    return this.tasksService.removeLabel(taskId, labelId);
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskParticipantsService } from './task-participants.service';
+import { AddTaskAssigneeDto } from './dto/add-task-assignee.dto';
+import { TaskOwnerPolicy, TaskViewerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+
+// Anyone who can edit the task manages its assignees; anyone who can see it may watch it
+@ApiTags('tasks')
+@Controller('tasks/:id')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TaskParticipantsController {
+  constructor(private readonly taskParticipantsService: TaskParticipantsService) {}
+
+  @Get('assignees')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'List the users assigned to a task' })
+  findAssignees(@Param('id') taskId: string) {
+    return this.taskParticipantsService.findAssignees(taskId);
+  }
+
+  @Post('assignees')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'Assign a user to a task' })
+  addAssignee(@Param('id') taskId: string, @Body() addAssigneeDto: AddTaskAssigneeDto) {
+    return this.taskParticipantsService.addAssignee(taskId, addAssigneeDto.userId);
+  }
+
+  @Delete('assignees/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'Unassign a user from a task' })
+  removeAssignee(@Param('id') taskId: string, @Param('userId') userId: string) {
+    return this.taskParticipantsService.removeAssignee(taskId, userId);
+  }
+
+  @Get('watchers')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'List the users watching a task' })
+  findWatchers(@Param('id') taskId: string) {
+    return this.taskParticipantsService.findWatchers(taskId);
+  }
+
+  @Post('watch')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskViewerPolicy)
+  @ApiOperation({ summary: 'Watch a task to hear about its status changes' })
+  watch(@Param('id') taskId: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.taskParticipantsService.watch(taskId, user.id);
+  }
+
+  @Delete('watch')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskViewerPolicy)
+  @ApiOperation({ summary: 'Stop watching a task' })
+  unwatch(@Param('id') taskId: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.taskParticipantsService.unwatch(taskId, user.id);
+  }
+}
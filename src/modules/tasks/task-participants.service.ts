@@ -0,0 +1,114 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TasksService } from './tasks.service';
+import { User } from '../users/entities/user.entity';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+type ParticipantRelation = 'assignees' | 'watchers';
+
+const PARTICIPANT_FIELDS = { id: true, name: true, email: true };
+
+/**
+ * Assignees work on a task, watchers just follow it; both hear about status changes. Adding
+ * someone twice is a no-op.
+ */
+@Injectable()
+export class TaskParticipantsService {
+  constructor(
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private tasksService: TasksService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  findAssignees(taskId: string): Promise<User[]> {
+    return this.findParticipants(taskId, 'assignees');
+  }
+
+  findWatchers(taskId: string): Promise<User[]> {
+    return this.findParticipants(taskId, 'watchers');
+  }
+
+  async addAssignee(taskId: string, userId: string): Promise<User[]> {
+    const user = await this.tasksRepository.manager.findOne(User, {
+      where: this.tenantContext.scope({ id: userId }),
+    });
+    if (!user) {
+      throw new BadRequestException(`User ${userId} not found`);
+    }
+
+    await this.add(taskId, 'assignees', userId);
+    return this.findAssignees(taskId);
+  }
+
+  async removeAssignee(taskId: string, userId: string): Promise<void> {
+    if (!(await this.remove(taskId, 'assignees', userId))) {
+      throw new NotFoundException(`User ${userId} is not assigned to this task`);
+    }
+  }
+
+  async watch(taskId: string, userId: string): Promise<void> {
+    await this.add(taskId, 'watchers', userId);
+  }
+
+  async unwatch(taskId: string, userId: string): Promise<void> {
+    await this.remove(taskId, 'watchers', userId);
+  }
+
+  /**
+   * Everyone to tell about a change to the task: its assignees and watchers, once each, except
+   * whoever made the change.
+   */
+  async findRecipients(taskId: string, excludeUserId?: string): Promise<User[]> {
+    const [assignees, watchers] = await Promise.all([
+      this.findAssignees(taskId),
+      this.findWatchers(taskId),
+    ]);
+    const recipients = new Map([...assignees, ...watchers].map(user => [user.id, user]));
+    if (excludeUserId) {
+      recipients.delete(excludeUserId);
+    }
+    return [...recipients.values()];
+  }
+
+  private async findParticipants(taskId: string, relation: ParticipantRelation) {
+    const task = await this.tasksRepository.findOne({
+      where: this.tenantContext.scope({ id: taskId }),
+      relations: [relation],
+      select: { id: true, [relation]: PARTICIPANT_FIELDS },
+      order: { [relation]: { name: 'ASC' } },
+    });
+    return task?.[relation] ?? [];
+  }
+
+  private async isParticipant(taskId: string, relation: ParticipantRelation, userId: string) {
+    return this.tasksRepository.exists({
+      where: this.tenantContext.scope({ id: taskId, [relation]: { id: userId } }),
+    });
+  }
+
+  private async add(taskId: string, relation: ParticipantRelation, userId: string) {
+    if (await this.isParticipant(taskId, relation, userId)) {
+      return;
+    }
+
+    await this.tasksRepository.createQueryBuilder().relation(Task, relation).of(taskId).add(userId);
+    await this.tasksService.invalidateTaskCache([taskId]);
+  }
+
+  private async remove(taskId: string, relation: ParticipantRelation, userId: string) {
+    if (!(await this.isParticipant(taskId, relation, userId))) {
+      return false;
+    }
+
+    await this.tasksRepository
+      .createQueryBuilder()
+      .relation(Task, relation)
+      .of(taskId)
+      .remove(userId);
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return true;
+  }
+}
@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaskRecurrencesService } from './task-recurrences.service';
+import { TaskRecurrenceDto } from './dto/task-recurrence.dto';
+import { TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/recurrence')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@CheckPolicies(TaskOwnerPolicy)
+@ApiBearerAuth()
+export class TaskRecurrencesController {
+  constructor(private readonly taskRecurrencesService: TaskRecurrencesService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'Get the recurring series a task belongs to' })
+  findOne(@Param('id') taskId: string) {
+    return this.taskRecurrencesService.findForTask(taskId);
+  }
+
+  @Put()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: "Make a task recur, or change its series' schedule from now on" })
+  set(
+    @Param('id') taskId: string,
+    @Body() recurrenceDto: TaskRecurrenceDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.taskRecurrencesService.setRecurrence(taskId, recurrenceDto, user.id);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Stop generating occurrences (existing ones are kept)' })
+  stop(@Param('id') taskId: string) {
+    return this.taskRecurrencesService.stopRecurrence(taskId);
+  }
+}
@@ -0,0 +1,96 @@
+import { Repository } from 'typeorm';
+import { TaskRecurrencesService } from './task-recurrences.service';
+import { TasksService } from './tasks.service';
+import { TaskActivityService } from './task-activity.service';
+import { Task } from './entities/task.entity';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return Object.assign(new Task(), {
+    id: 'task-2',
+    title: 'Water the plants',
+    status: TaskStatus.PENDING,
+    recurrenceId: 'series-1',
+    occurrenceIndex: 2,
+    labels: [],
+    ...overrides,
+  });
+}
+
+describe('TaskRecurrencesService', () => {
+  let manager: { findOne: jest.Mock; find: jest.Mock; update: jest.Mock };
+  let transaction: jest.Mock;
+  let tasksService: { updateInTransaction: jest.Mock; invalidateTaskCache: jest.Mock };
+  let taskActivityService: { record: jest.Mock };
+  let service: TaskRecurrencesService;
+
+  beforeEach(() => {
+    manager = {
+      findOne: jest.fn(async () => createTask()),
+      find: jest.fn(async () => [createTask({ id: 'task-3', occurrenceIndex: 3 })]),
+      update: jest.fn(async () => ({ affected: 1 })),
+    };
+    transaction = jest.fn(async work => work(manager));
+    tasksService = {
+      updateInTransaction: jest.fn(async () => ({
+        task: createTask({ title: 'Water the garden' }),
+        staleIds: ['task-2'],
+      })),
+      invalidateTaskCache: jest.fn(async () => undefined),
+    };
+    taskActivityService = { record: jest.fn(async () => undefined) };
+
+    service = new TaskRecurrencesService(
+      { manager: { ...manager, transaction } } as unknown as Repository<TaskRecurrence>,
+      { manager } as unknown as Repository<Task>,
+      tasksService as unknown as TasksService,
+      taskActivityService as unknown as TaskActivityService,
+      { scope: (where: object) => where } as unknown as TenantContext,
+    );
+  });
+
+  describe('updateFuture', () => {
+    it('edits the occurrence and the rest of the series in one transaction', async () => {
+      const updated = await service.updateFuture('task-2', { title: 'Water the garden' }, 'user-1');
+
+      expect(updated.title).toBe('Water the garden');
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(tasksService.updateInTransaction).toHaveBeenCalledWith(
+        manager,
+        'task-2',
+        { title: 'Water the garden' },
+        'user-1',
+        expect.anything(),
+        undefined,
+      );
+      expect(manager.update).toHaveBeenCalledWith(TaskRecurrence, 'series-1', {
+        title: 'Water the garden',
+      });
+      expect(manager.update).toHaveBeenCalledWith(Task, expect.anything(), {
+        title: 'Water the garden',
+      });
+      expect(tasksService.invalidateTaskCache).toHaveBeenCalledWith(['task-2', 'task-3']);
+    });
+
+    it('fails as a whole when the rest of the series cannot be updated', async () => {
+      const failure = new Error('deadlock detected');
+      manager.update.mockRejectedValue(failure);
+
+      await expect(
+        service.updateFuture('task-2', { title: 'Water the garden' }, 'user-1'),
+      ).rejects.toBe(failure);
+      // The occurrence's edit shares the transaction and is rolled back with it
+      expect(tasksService.updateInTransaction.mock.calls[0][0]).toBe(manager);
+      expect(tasksService.invalidateTaskCache).not.toHaveBeenCalled();
+    });
+
+    it('leaves the series alone without template fields among the changes', async () => {
+      await service.updateFuture('task-2', { status: TaskStatus.IN_PROGRESS }, 'user-1');
+
+      expect(manager.update).not.toHaveBeenCalled();
+      expect(tasksService.invalidateTaskCache).toHaveBeenCalledWith(['task-2']);
+    });
+  });
+});
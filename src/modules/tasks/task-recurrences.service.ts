@@ -0,0 +1,297 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, EntityManager, In, MoreThan, Not, Repository } from 'typeorm';
+import { Task } from './entities/task.entity';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
+import { TaskRecurrenceDto } from './dto/task-recurrence.dto';
+import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskStatus } from './enums/task-status.enum';
+import { TasksService } from './tasks.service';
+import { TaskActivityService } from './task-activity.service';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { diffSnapshots, snapshotTask } from './utils/task-diff.util';
+import { occurrenceDueDate, recurrenceLimitError } from './utils/recurrence.util';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+import { User } from '../users/entities/user.entity';
+
+// Task fields an "all future occurrences" edit copies into the series template
+const TEMPLATE_FIELDS = ['title', 'description', 'priority', 'userId', 'projectId'] as const;
+
+/**
+ * Recurring series: a new occurrence is generated once the latest one is completed or due, one
+ * at a time, until the schedule runs out or is stopped.
+ */
+@Injectable()
+export class TaskRecurrencesService {
+  private readonly logger = new Logger(TaskRecurrencesService.name);
+
+  constructor(
+    @InjectRepository(TaskRecurrence)
+    private recurrencesRepository: Repository<TaskRecurrence>,
+    @InjectRepository(Task)
+    private tasksRepository: Repository<Task>,
+    private tasksService: TasksService,
+    private taskActivityService: TaskActivityService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  async findForTask(taskId: string): Promise<TaskRecurrence> {
+    const task = await this.findOccurrence(taskId);
+    const series = task.recurrenceId
+      ? await this.recurrencesRepository.findOneBy({ id: task.recurrenceId })
+      : null;
+
+    if (!series) {
+      throw new NotFoundException(`Task ${taskId} does not recur`);
+    }
+    return series;
+  }
+
+  /**
+   * Starts a series with the task as its first occurrence, or changes the schedule of the series
+   * it belongs to. A new schedule counts from the latest occurrence, so occurrences that already
+   * exist keep their due dates.
+   */
+  async setRecurrence(
+    taskId: string,
+    recurrenceDto: TaskRecurrenceDto,
+    actorId?: string,
+  ): Promise<TaskRecurrence> {
+    const series = await this.recurrencesRepository.manager.transaction(async manager => {
+      const task = await this.findOccurrence(taskId, manager);
+
+      if (!task.recurrenceId) {
+        return this.tasksService.startRecurrence(manager, task, recurrenceDto, actorId);
+      }
+
+      const existing = await this.lockSeries(manager, task.recurrenceId);
+      if (!existing) {
+        throw new NotFoundException(`Task ${taskId} does not recur`);
+      }
+      const limitError = recurrenceLimitError(recurrenceDto, existing.currentDueAt);
+      if (limitError) {
+        throw new BadRequestException(limitError);
+      }
+
+      const count = recurrenceDto.count ?? null;
+      manager.merge(TaskRecurrence, existing, {
+        frequency: recurrenceDto.frequency,
+        interval: recurrenceDto.interval ?? 1,
+        timezone: recurrenceDto.timezone ?? 'UTC',
+        until: recurrenceDto.until ? new Date(recurrenceDto.until) : null,
+        count,
+        anchorDueAt: existing.currentDueAt,
+        anchorIndex: existing.occurrenceCount,
+        // A longer or open-ended schedule picks a finished series back up
+        endedAt: count && count <= existing.occurrenceCount ? new Date() : null,
+      });
+      return manager.save(existing);
+    });
+
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return series;
+  }
+
+  // Existing occurrences stay; no new ones are generated
+  async stopRecurrence(taskId: string): Promise<void> {
+    const series = await this.findForTask(taskId);
+
+    if (!series.endedAt) {
+      await this.recurrencesRepository.update(series.id, { endedAt: new Date() });
+    }
+  }
+
+  /**
+   * Edits the occurrence, then copies the template fields among the changes into the series and
+   * into later occurrences that aren't completed yet. expectedVersion applies to the edited
+   * occurrence only.
+   */
+  async updateFuture(
+    taskId: string,
+    updateTaskDto: UpdateTaskDto,
+    actorId?: string,
+    expectedVersion?: number,
+  ) {
+    const occurrence = await this.findOccurrence(taskId);
+    if (!occurrence.recurrenceId) {
+      throw new BadRequestException(`Task ${taskId} does not recur`);
+    }
+
+    const template: Pick<UpdateTaskDto, (typeof TEMPLATE_FIELDS)[number]> = {};
+    for (const field of TEMPLATE_FIELDS) {
+      if (updateTaskDto[field] !== undefined) {
+        Object.assign(template, { [field]: updateTaskDto[field] });
+      }
+    }
+
+    // The occurrence and the rest of its series change together or not at all
+    const { task, staleIds } = await this.recurrencesRepository.manager.transaction(
+      async manager => {
+        const updated = await this.tasksService.updateInTransaction(
+          manager,
+          taskId,
+          updateTaskDto,
+          actorId,
+          TaskActivitySource.API,
+          expectedVersion,
+        );
+        if (!Object.keys(template).length) {
+          return updated;
+        }
+
+        await manager.update(TaskRecurrence, occurrence.recurrenceId, template);
+
+        const later = await manager.find(Task, {
+          where: {
+            recurrenceId: occurrence.recurrenceId!,
+            occurrenceIndex: MoreThan(occurrence.occurrenceIndex ?? 0),
+            status: Not(TaskStatus.COMPLETED),
+          },
+        });
+        const ids = later.map(task => task.id);
+        if (ids.length) {
+          await manager.update(Task, { id: In(ids) }, template);
+          await this.taskActivityService.record(
+            manager,
+            later
+              .map(task => ({
+                task,
+                action: TaskActivityAction.UPDATED,
+                source: TaskActivitySource.API,
+                actorId,
+                changes: diffSnapshots(snapshotTask(task), snapshotTask({ ...task, ...template })),
+              }))
+              .filter(record => Object.keys(record.changes).length),
+          );
+        }
+        return { task: updated.task, staleIds: [...updated.staleIds, ...ids] };
+      },
+    );
+
+    await this.tasksService.invalidateTaskCache(staleIds);
+    return task;
+  }
+
+  /**
+   * Called by the scheduler, possibly from several instances at once: each series is handled
+   * under a row lock that other instances skip, and the unique (series, index) pair on tasks
+   * rules out duplicates regardless. Returns the number of occurrences created.
+   */
+  async generateDueOccurrences(now = new Date()): Promise<number> {
+    const due = await this.recurrencesRepository
+      .createQueryBuilder('recurrence')
+      .select('recurrence.id')
+      .leftJoin(
+        Task,
+        'latest',
+        'latest.recurrenceId = recurrence.id AND latest.occurrenceIndex = recurrence.occurrenceCount',
+      )
+      .where('recurrence.endedAt IS NULL')
+      .andWhere(
+        new Brackets(qb =>
+          qb
+            .where('latest.status = :completed', { completed: TaskStatus.COMPLETED })
+            .orWhere('COALESCE(latest.dueDate, recurrence.currentDueAt) <= :now', { now }),
+        ),
+      )
+      .getMany();
+
+    let generated = 0;
+    for (const { id } of due) {
+      try {
+        const occurrence = await this.generateNext(id, now);
+        if (occurrence) {
+          generated++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to generate the next occurrence of series ${id}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+    }
+
+    if (generated) {
+      await this.tasksService.invalidateTaskCache([]);
+    }
+    return generated;
+  }
+
+  private async generateNext(seriesId: string, now: Date): Promise<Task | null> {
+    return this.recurrencesRepository.manager.transaction(async manager => {
+      const series = await this.lockSeries(manager, seriesId, true);
+      if (!series || series.endedAt) {
+        return null;
+      }
+
+      // Another instance may have moved the series on between the lookup and the lock
+      const latest = await manager.findOneBy(Task, {
+        recurrenceId: series.id,
+        occurrenceIndex: series.occurrenceCount,
+      });
+      const latestDueAt = latest?.dueDate ?? series.currentDueAt;
+      if (latest?.status !== TaskStatus.COMPLETED && new Date(latestDueAt) > now) {
+        return null;
+      }
+
+      const index = series.occurrenceCount + 1;
+      const dueDate = occurrenceDueDate(series, index);
+      if ((series.count && index > series.count) || (series.until && dueDate > series.until)) {
+        await manager.update(TaskRecurrence, series.id, { endedAt: now });
+        return null;
+      }
+
+      const occurrence = await manager.save(
+        manager.create(Task, {
+          organizationId: series.organizationId,
+          title: series.title,
+          description: series.description ?? undefined,
+          priority: series.priority,
+          status: TaskStatus.PENDING,
+          dueDate,
+          userId: series.userId,
+          projectId: series.projectId,
+          createdById: series.createdById,
+          recurrenceId: series.id,
+          occurrenceIndex: index,
+          assignees: [{ id: series.userId } as User],
+        }),
+      );
+      await manager.update(TaskRecurrence, series.id, {
+        occurrenceCount: index,
+        currentDueAt: dueDate,
+      });
+      await this.taskActivityService.record(manager, [
+        {
+          task: occurrence,
+          action: TaskActivityAction.CREATED,
+          source: TaskActivitySource.JOB,
+          changes: diffSnapshots({}, snapshotTask(occurrence)),
+        },
+      ]);
+
+      return occurrence;
+    });
+  }
+
+  private async lockSeries(manager: EntityManager, id: string, skipLocked = false) {
+    const query = manager
+      .createQueryBuilder(TaskRecurrence, 'recurrence')
+      .setLock('pessimistic_write')
+      .where('recurrence.id = :id', { id });
+    if (skipLocked) {
+      query.setOnLocked('skip_locked');
+    }
+    return query.getOne();
+  }
+
+  private async findOccurrence(taskId: string, manager = this.tasksRepository.manager) {
+    const task = await manager.findOne(Task, { where: this.tenantContext.scope({ id: taskId }) });
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+    return task;
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TimeEntriesService } from './time-entries.service';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { StartTimerDto } from './dto/start-timer.dto';
+import { TaskOwnerPolicy } from './policies/task.policies';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+import { hasPermission } from '@modules/roles/permissions.util';
+
+@ApiTags('tasks')
+@Controller('tasks/:id/time-entries')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@CheckPolicies(TaskOwnerPolicy)
+@ApiBearerAuth()
+export class TaskTimeEntriesController {
+  constructor(private readonly timeEntriesService: TimeEntriesService) {}
+
+  @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List time logged on a task, latest first' })
+  findAll(@Param('id') taskId: string) {
+    return this.timeEntriesService.findForTask(taskId);
+  }
+
+  @Get('totals')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: "Compare a task's estimate with the time logged, per user" })
+  getTotals(@Param('id') taskId: string) {
+    return this.timeEntriesService.getTaskTotals(taskId);
+  }
+
+  @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Log time on a task by hand' })
+  create(
+    @Param('id') taskId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() createEntryDto: CreateTimeEntryDto,
+  ) {
+    return this.timeEntriesService.create(taskId, user.id, createEntryDto);
+  }
+
+  @Post('timer/start')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Start a timer on a task (one running timer per user)' })
+  startTimer(
+    @Param('id') taskId: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() startTimerDto: StartTimerDto,
+  ) {
+    return this.timeEntriesService.startTimer(taskId, user.id, startTimerDto.note);
+  }
+
+  @Post('timer/stop')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Stop your running timer on a task and log its time' })
+  stopTimer(@Param('id') taskId: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.timeEntriesService.stopTimer(taskId, user.id);
+  }
+
+  @Delete(':entryId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @ApiOperation({ summary: 'Delete a time entry (your own, unless you manage tasks)' })
+  remove(
+    @Param('id') taskId: string,
+    @Param('entryId') entryId: string,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.timeEntriesService.remove(
+      taskId,
+      entryId,
+      user.id,
+      hasPermission(user, PermissionKey.TASKS_MANAGE),
+    );
+  }
+}
@@ -0,0 +1,236 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { TasksController } from './tasks.controller';
+import { TasksService } from './tasks.service';
+import { TaskRecurrencesService } from './task-recurrences.service';
+import { Task } from './entities/task.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { taskEtag } from './utils/task-etag.util';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+
+// ETag of the task one version before the one findOne returns
+const staleEtag = taskEtag(createTask({ version: 2 }));
+
+const user: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  organizationId: 'org-1',
+  roles: ['user'],
+  permissions: [],
+  mfaAuthenticated: false,
+};
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return Object.assign(new Task(), {
+    id: 'task-1',
+    title: 'Write specs',
+    status: TaskStatus.PENDING,
+    version: 3,
+    labels: [],
+    ...overrides,
+  });
+}
+
+describe('TasksController', () => {
+  let tasksService: {
+    create: jest.Mock;
+    findAll: jest.Mock;
+    getStats: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    remove: jest.Mock;
+    updateStatus: jest.Mock;
+    bulkDelete: jest.Mock;
+  };
+  let taskRecurrencesService: { updateFuture: jest.Mock };
+  let controller: TasksController;
+
+  beforeEach(() => {
+    tasksService = {
+      create: jest.fn(async () => createTask()),
+      findAll: jest.fn(async () => ({ data: [createTask()], total: 1 })),
+      getStats: jest.fn(async () => ({ total: 1 })),
+      findOne: jest.fn(async () => createTask()),
+      update: jest.fn(async () => createTask({ version: 4 })),
+      remove: jest.fn(async () => createTask()),
+      updateStatus: jest.fn(async () => ({ affected: 1 })),
+      bulkDelete: jest.fn(async () => ({ affected: 1 })),
+    };
+    taskRecurrencesService = { updateFuture: jest.fn(async () => createTask({ version: 4 })) };
+    controller = new TasksController(
+      tasksService as unknown as TasksService,
+      taskRecurrencesService as unknown as TaskRecurrencesService,
+    );
+  });
+
+  describe('create', () => {
+    it('keeps the status of a rejected task', async () => {
+      const rejected = new BadRequestException('Due date must be after the start date');
+      tasksService.create.mockRejectedValue(rejected);
+
+      await expect(controller.create({ title: 'Write specs' }, user)).rejects.toBe(rejected);
+    });
+
+    it('reports unexpected errors as a server error', async () => {
+      tasksService.create.mockRejectedValue(new Error('connection reset'));
+
+      await expect(controller.create({ title: 'Write specs' }, user)).resolves.toMatchObject({
+        status: HttpStatus.INTERNAL_SERVER_ERROR,
+      });
+    });
+  });
+
+  describe.each([
+    ['findAll', () => controller.findAll({}, user)],
+    ['getStats', () => controller.getStats(user)],
+  ] as const)('%s', (method, call) => {
+    it('keeps the status of a rejected query', async () => {
+      const rejected = new BadRequestException('Unknown project');
+      tasksService[method].mockRejectedValue(rejected);
+
+      await expect(call()).rejects.toBe(rejected);
+    });
+
+    it('reports unexpected errors as a server error', async () => {
+      tasksService[method].mockRejectedValue(new Error('connection reset'));
+
+      await expect(call()).resolves.toMatchObject({ status: HttpStatus.INTERNAL_SERVER_ERROR });
+    });
+  });
+
+  describe('update', () => {
+    const completing = { status: TaskStatus.COMPLETED };
+
+    it('keeps the status of a rejected change', async () => {
+      const rejected = new BadRequestException('Tasks with open subtasks cannot be completed');
+      tasksService.update.mockRejectedValue(rejected);
+
+      await expect(controller.update('task-1', completing, {}, user, undefined)).rejects.toBe(
+        rejected,
+      );
+    });
+
+    it('keeps the status of a rejected change to the rest of a series', async () => {
+      const rejected = new BadRequestException('Tasks with open subtasks cannot be completed');
+      taskRecurrencesService.updateFuture.mockRejectedValue(rejected);
+
+      await expect(
+        controller.update('task-1', completing, { scope: 'future' }, user, undefined),
+      ).rejects.toBe(rejected);
+    });
+
+    it('rejects a stale If-Match with 412 without updating', async () => {
+      await expect(
+        controller.update('task-1', completing, {}, user, staleEtag),
+      ).rejects.toBeInstanceOf(PreconditionFailedException);
+      expect(tasksService.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a stale If-Match with 412 without updating the rest of a series', async () => {
+      await expect(
+        controller.update('task-1', completing, { scope: 'future' }, user, staleEtag),
+      ).rejects.toBeInstanceOf(PreconditionFailedException);
+      expect(taskRecurrencesService.updateFuture).not.toHaveBeenCalled();
+    });
+
+    it('passes the version of a current If-Match on to the service', async () => {
+      await controller.update('task-1', completing, {}, user, taskEtag(createTask()));
+
+      expect(tasksService.update).toHaveBeenCalledWith(
+        'task-1',
+        completing,
+        'user-1',
+        TaskActivitySource.API,
+        3,
+      );
+    });
+
+    it('keeps the 412 of a change made after the If-Match check', async () => {
+      const changed = new PreconditionFailedException('Task with ID task-1 has changed');
+      tasksService.update.mockRejectedValue(changed);
+
+      await expect(
+        controller.update('task-1', completing, {}, user, taskEtag(createTask())),
+      ).rejects.toBe(changed);
+    });
+
+    it('reports unexpected errors as a server error', async () => {
+      tasksService.update.mockRejectedValue(new Error('connection reset'));
+
+      await expect(
+        controller.update('task-1', completing, {}, user, undefined),
+      ).resolves.toMatchObject({ status: HttpStatus.INTERNAL_SERVER_ERROR });
+    });
+  });
+
+  describe('remove', () => {
+    it('keeps the status of a missing task', async () => {
+      const missing = new NotFoundException('Task with ID task-1 not found');
+      tasksService.remove.mockRejectedValue(missing);
+
+      await expect(controller.remove('task-1', user, undefined)).rejects.toBe(missing);
+    });
+
+    it('rejects a stale If-Match with 412 without deleting', async () => {
+      await expect(controller.remove('task-1', user, staleEtag)).rejects.toBeInstanceOf(
+        PreconditionFailedException,
+      );
+      expect(tasksService.remove).not.toHaveBeenCalled();
+    });
+
+    it('passes the version of a current If-Match on to the service', async () => {
+      await controller.remove('task-1', user, taskEtag(createTask()));
+
+      expect(tasksService.remove).toHaveBeenCalledWith(
+        'task-1',
+        'user-1',
+        TaskActivitySource.API,
+        3,
+      );
+    });
+
+    it('reports unexpected errors as a server error', async () => {
+      tasksService.remove.mockRejectedValue(new Error('connection reset'));
+
+      await expect(controller.remove('task-1', user, undefined)).resolves.toMatchObject({
+        status: HttpStatus.INTERNAL_SERVER_ERROR,
+      });
+    });
+  });
+
+  describe('batchProcess', () => {
+    it('keeps the status of a rejected completion', async () => {
+      const rejected = new BadRequestException('Tasks with open subtasks cannot be completed');
+      tasksService.updateStatus.mockRejectedValue(rejected);
+
+      await expect(
+        controller.batchProcess({ tasks: ['task-1'], action: 'complete' }, user),
+      ).rejects.toBe(rejected);
+    });
+
+    it.each([
+      ['complete', 'updateStatus'],
+      ['delete', 'bulkDelete'],
+    ] as const)('keeps the 412 of stale versions to %s', async (action, method) => {
+      const stale = new PreconditionFailedException('Task with ID task-1 has changed');
+      tasksService[method].mockRejectedValue(stale);
+
+      await expect(
+        controller.batchProcess({ tasks: ['task-1'], action, versions: { 'task-1': 2 } }, user),
+      ).rejects.toBe(stale);
+      expect(tasksService[method]).toHaveBeenCalledWith(
+        ['task-1'],
+        ...(action === 'complete' ? [TaskStatus.COMPLETED] : []),
+        'user-1',
+        TaskActivitySource.BATCH,
+        { 'task-1': 2 },
+      );
+    });
+  });
+});
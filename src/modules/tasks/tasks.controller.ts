@@ -1,37 +1,89 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Query, HttpException, HttpStatus, UseInterceptors, NotFoundException } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+  Headers,
+  PreconditionFailedException,
+  Res,
+} from '@nestjs/common';
+import type { Response } from 'express';
 import { TasksService } from './tasks.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
-import { ApiBearerAuth, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { TaskStatus } from './enums/task-status.enum';
-import { TaskPriority } from './enums/task-priority.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
 import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
 import { RateLimit } from '../../common/decorators/rate-limit.decorator';
-import { Roles } from '../../common/decorators/roles.decorator';
+import { PoliciesGuard } from '../../common/guards/policies.guard';
+import { CheckPolicies } from '../../common/decorators/check-policies.decorator';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+import { hasPermission } from '@modules/roles/permissions.util';
+import {
+  TaskBatchPolicy,
+  TaskOwnerPolicy,
+  TaskParentPolicy,
+  TaskProjectPolicy,
+  TaskReassignPolicy,
+  canAssignTask,
+  canListTasks,
+} from './policies/task.policies';
 import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
 import { TaskFilterDto } from './dto/task-filter.dto';
+import { TaskEditScopeDto } from './dto/task-edit-scope.dto';
+import { Task } from './entities/task.entity';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { RestoreTaskDto } from './dto/restore-task.dto';
+import { etagMatches, taskEtag } from './utils/task-etag.util';
+import { TaskRecurrencesService } from './task-recurrences.service';
 import { ApiResponse, errorResponse, successResponse } from '@common/utils/api-response.util';
 
 
 
 @ApiTags('tasks')
 @Controller('tasks')
-@UseGuards(JwtAuthGuard, RateLimitGuard)
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard, PoliciesGuard)
 @RateLimit({ limit: 100, windowMs: 60000 })
 @ApiBearerAuth()
 export class TasksController {
   constructor(
     private readonly tasksService: TasksService,
+    private readonly taskRecurrencesService: TaskRecurrencesService,
 
   ) { }
 
   @Post()
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(canAssignTask, TaskParentPolicy, TaskProjectPolicy)
   @ApiOperation({ summary: 'Create a new task' })
-  async create(@Body() createTaskDto: CreateTaskDto) {
+  async create(@Body() createTaskDto: CreateTaskDto, @CurrentUser() user: AuthenticatedUser) {
     try {
-      const result = await this.tasksService.create(createTaskDto);
+      // Tasks belong to the caller unless a tasks:manage holder assigns them elsewhere
+      createTaskDto.userId = createTaskDto.userId ?? user.id;
+
+      const result = await this.tasksService.create(createTaskDto, user.id);
       return successResponse(result, 'Task created successfully', HttpStatus.CREATED);
     } catch (error) {
+      // Validation and permission errors keep their status
+      if (error instanceof HttpException) {
+        throw error;
+      }
       return errorResponse(
         error as string || 'An error occurred while creating the task',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -40,9 +92,21 @@ export class TasksController {
   }
 
   @Get()
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(canListTasks)
   // @ApiOperation({ summary: 'Find all tasks with optional filtering' })
   @ApiOperation({ summary: 'Find all tasks with optional filtering' })
-  async findAll(@Query() filterDto: TaskFilterDto): Promise<ApiResponse> {
+  async findAll(
+    @Query() filterDto: TaskFilterDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<ApiResponse> {
+    // Without tasks:manage the list only covers tasks the caller owns, is assigned to or watches
+    const listOptions = {
+      viewerId: user.id,
+      visibleOnly: !hasPermission(user, PermissionKey.TASKS_MANAGE),
+    };
+
     // // Inefficient approach: Inconsistent pagination handling
     // if (page && !limit) {
     //   limit = 10; // Default limit
@@ -72,9 +136,12 @@ export class TasksController {
     //   // Missing metadata for proper pagination
     // };
     try {
-      const result = await this.tasksService.findAll(filterDto);
+      const result = await this.tasksService.findAll(filterDto, listOptions);
       return successResponse(result, 'Task retrieved successfully', HttpStatus.OK);
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       return errorResponse(
         error as string || 'An error occurred while fetching the task',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -83,8 +150,10 @@ export class TasksController {
   }
 
   @Get('stats')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
   @ApiOperation({ summary: 'Get task statistics' })
-  async getStats() {
+  async getStats(@CurrentUser() user: AuthenticatedUser) {
     try {
 
       // const [completed, inProgress, pending] = await Promise.all([
@@ -95,7 +164,9 @@ export class TasksController {
 
       // // If you want to also calculate high priority
       // const highPriorityCount = (await this.tasksService.findAll({ priority: TaskPriority.HIGH })).total;
-      const statusResult = await this.tasksService.getStats();
+      const statusResult = await this.tasksService.getStats(
+        hasPermission(user, PermissionKey.TASKS_MANAGE) ? undefined : user.id,
+      );
 
       if(!statusResult){
         return errorResponse('No task statistics found', HttpStatus.NOT_FOUND);
@@ -103,6 +174,9 @@ export class TasksController {
       // Return structured response
       return successResponse(statusResult, 'Task statistics retrieved successfully', HttpStatus.OK);
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       return errorResponse(
         error as string || 'An error occurred while fetching task statistics',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -111,12 +185,48 @@ export class TasksController {
     }
   }
 
+  // Declared before :id so that "trash" isn't taken for a task id
+  @Get('trash')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'List deleted tasks that can still be restored' })
+  async findTrash(@Query() query: PaginationQueryDto, @CurrentUser() user: AuthenticatedUser) {
+    try {
+      const result = await this.tasksService.findTrash(
+        query,
+        user.id,
+        hasPermission(user, PermissionKey.TASKS_MANAGE),
+      );
+      return successResponse(result, 'Trash retrieved successfully', HttpStatus.OK);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'An error occurred while fetching the trash',
+        error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Get(':id')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
   @ApiOperation({ summary: 'Find a task by ID' })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     try {
       // return 'Here you would return the task by ID';
       const result = await this.tasksService.findOne(id);
+
+      // The ETag goes back in If-Match to edit the task, or in If-None-Match to skip re-reading it
+      const etag = taskEtag(result);
+      res.setHeader('ETag', etag);
+      if (ifNoneMatch && etagMatches(ifNoneMatch, etag, true)) {
+        res.status(HttpStatus.NOT_MODIFIED);
+        return;
+      }
       return successResponse(result, 'Task retrieved successfully', HttpStatus.OK);
     } catch (error) {
       // Handle error
@@ -127,22 +237,96 @@ export class TasksController {
     }
   }
 
+  @Get(':id/subtasks')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'List the subtasks of a task' })
+  async findSubtasks(@Param('id') id: string) {
+    try {
+      const result = await this.tasksService.findSubtasks(id);
+      return successResponse(result, 'Subtasks retrieved successfully', HttpStatus.OK);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'An error occurred while fetching subtasks',
+        error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  @Post(':id/subtasks')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskOwnerPolicy, canAssignTask, TaskProjectPolicy)
+  @ApiOperation({ summary: 'Create a subtask under a task' })
+  async createSubtask(
+    @Param('id') id: string,
+    @Body() createTaskDto: CreateTaskDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const result = await this.tasksService.create(
+        {
+          ...createTaskDto,
+          parentId: id,
+          userId: createTaskDto.userId ?? user.id,
+        },
+        user.id,
+      );
+      return successResponse(result, 'Subtask created successfully', HttpStatus.CREATED);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'An error occurred while creating the subtask',
+        error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Patch(':id')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskOwnerPolicy, TaskReassignPolicy, TaskParentPolicy, TaskProjectPolicy)
   @ApiOperation({ summary: 'Update a task' })
-  async update(@Param('id') id: string, @Body() updateTaskDto: UpdateTaskDto) {
+  async update(
+    @Param('id') id: string,
+    @Body() updateTaskDto: UpdateTaskDto,
+    @Query() { scope }: TaskEditScopeDto,
+    @CurrentUser() user: AuthenticatedUser,
+    @Headers('if-match') ifMatch: string | undefined,
+  ) {
     try {
       const task = await this.tasksService.findOne(id);
       if (!task) {
         throw new NotFoundException(`Task with ID ${id} not found`);
       }
-
-      // Update the task
-      const updatedTask = await this.tasksService.update(id, updateTaskDto);
+      const expectedVersion = this.checkIfMatch(ifMatch, task);
+
+      // Update the task, or with scope=future also the rest of its recurring series
+      const updatedTask =
+        scope === 'future'
+          ? await this.taskRecurrencesService.updateFuture(
+              id,
+              updateTaskDto,
+              user.id,
+              expectedVersion,
+            )
+          : await this.tasksService.update(
+              id,
+              updateTaskDto,
+              user.id,
+              TaskActivitySource.API,
+              expectedVersion,
+            );
 
       // Return structured response
 
       return successResponse(updatedTask, `Task with ID ${id} successfully updated`, HttpStatus.OK);
     } catch (error) {
+      // Not found, failed preconditions and rejected changes (e.g. completing a task with open
+      // subtasks) keep their status
+      if (error instanceof HttpException) {
+        throw error;
+      }
       // Handle error
       return errorResponse(
         error as string || `An error occurred while updating the task with ID ${id}`,
@@ -153,9 +337,15 @@ export class TasksController {
   }
 
   @Delete(':id')
-  @Roles('admin')
-  @ApiOperation({ summary: 'Delete a task' })
-  async remove(@Param('id') id: string) {
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_DELETE)
+  @CheckPolicies(TaskOwnerPolicy)
+  @ApiOperation({ summary: 'Move a task and its subtasks to the trash' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthenticatedUser,
+    @Headers('if-match') ifMatch: string | undefined,
+  ) {
     try {
       //create findAnd delete function---📌
       // Find the task before attempting to delete
@@ -164,13 +354,25 @@ export class TasksController {
       //   throw new NotFoundException(`Task with ID ${id} not found`);
       // }
 
+      const expectedVersion = ifMatch
+        ? this.checkIfMatch(ifMatch, await this.tasksService.findOne(id))
+        : undefined;
+
       // Remove the task
-      const task = await this.tasksService.remove(id);
+      const task = await this.tasksService.remove(
+        id,
+        user.id,
+        TaskActivitySource.API,
+        expectedVersion,
+      );
 
       // Return a consistent success response
       return successResponse(task, `Task with ID ${id} successfully deleted`, HttpStatus.OK);
 
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       // Handle error
       return errorResponse(
         error as string || `An error occurred while deleting the task with ID ${id}`,
@@ -180,10 +382,60 @@ export class TasksController {
     }
   }
 
+  @Post(':id/restore')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_DELETE)
+  @CheckPolicies(canAssignTask)
+  @ApiOperation({ summary: 'Restore a deleted task along with its subtasks' })
+  async restore(
+    @Param('id') id: string,
+    @Body() restoreTaskDto: RestoreTaskDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    try {
+      const task = await this.tasksService.restore(
+        id,
+        user.id,
+        hasPermission(user, PermissionKey.TASKS_MANAGE),
+        restoreTaskDto.userId,
+      );
+      return successResponse(task, `Task with ID ${id} successfully restored`, HttpStatus.OK);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'An error occurred while restoring the task',
+        error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  // Admins only: tasks:delete and tasks:manage together aren't granted to regular users
+  @Delete(':id/purge')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_DELETE, PermissionKey.TASKS_MANAGE)
+  @ApiOperation({ summary: 'Permanently delete a task from the trash' })
+  async purge(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    try {
+      await this.tasksService.purge(id, user.id);
+      return successResponse(null, `Task with ID ${id} permanently deleted`, HttpStatus.OK);
+    } catch (error) {
+      return errorResponse(
+        error instanceof Error ? error.message : 'An error occurred while purging the task',
+        error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   @Post('batch')
+  @RequireScopes(TokenScope.TASKS_WRITE)
+  @RequirePermissions(PermissionKey.TASKS_WRITE)
+  @CheckPolicies(TaskBatchPolicy)
   @ApiOperation({ summary: 'Batch process multiple tasks' })
-  async batchProcess(@Body() body: { tasks: string[]; action: string }) {
-    const { tasks: taskIds, action } = body;
+  async batchProcess(
+    @Body() body: { tasks: string[]; action: string; versions?: Record<string, number> },
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    // versions optionally maps task ids to the version the caller expects them to be at
+    const { tasks: taskIds, action, versions } = body;
 
     // Validate input upfront
     if (!Array.isArray(taskIds) || taskIds.length === 0) {
@@ -194,18 +446,42 @@ export class TasksController {
       return errorResponse('Unknown batch action', HttpStatus.BAD_REQUEST);
     }
 
+    if (
+      versions !== undefined &&
+      (typeof versions !== 'object' ||
+        versions === null ||
+        Array.isArray(versions) ||
+        !Object.values(versions).every(version => Number.isInteger(version)))
+    ) {
+      return errorResponse(
+        'versions must map task ids to integer versions',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
     try {
       let result;
 
       switch (action) {
         case 'complete':
           // ✅ bulk update (single DB query)
-          result = await this.tasksService.updateStatus(taskIds, TaskStatus.COMPLETED);
+          result = await this.tasksService.updateStatus(
+            taskIds,
+            TaskStatus.COMPLETED,
+            user.id,
+            TaskActivitySource.BATCH,
+            versions,
+          );
           break;
 
         case 'delete':
-          // ✅ bulk delete (single DB query)
-          result = await this.tasksService.bulkDelete(taskIds);
+          // ✅ bulk delete (moves the tasks to the trash)
+          result = await this.tasksService.bulkDelete(
+            taskIds,
+            user.id,
+            TaskActivitySource.BATCH,
+            versions,
+          );
           break;
       }
 
@@ -215,6 +491,9 @@ export class TasksController {
       }, 'Batch processing completed', HttpStatus.OK);
 
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       return errorResponse(
         error instanceof Error ? error.message : 'Batch processing failed',
         HttpStatus.INTERNAL_SERVER_ERROR,
@@ -222,4 +501,19 @@ export class TasksController {
     }
   }
 
+  /**
+   * Throws 412 unless the If-Match header lists the task's current ETag. Returns the version the
+   * service has to find the task at, so that a change in between is caught too.
+   */
+  private checkIfMatch(ifMatch: string | undefined, task: Task): number | undefined {
+    if (!ifMatch) {
+      return undefined;
+    }
+    if (!etagMatches(ifMatch, taskEtag(task))) {
+      throw new PreconditionFailedException(
+        `Task with ID ${task.id} has changed since it was read`,
+      );
+    }
+    return task.version;
+  }
 } 
\ No newline at end of file
@@ -1,22 +1,113 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bullmq';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
 import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
 import { Task } from './entities/task.entity';
 import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
-import { CacheService } from '../../common/services/cache.service';
+import {
+  TaskBatchPolicy,
+  TaskBlockerPolicy,
+  TaskOwnerPolicy,
+  TaskParentPolicy,
+  TaskProjectPolicy,
+  TaskReassignPolicy,
+  TaskViewerPolicy,
+} from './policies/task.policies';
+import { TaskComment } from './entities/task-comment.entity';
+import { TaskCommentRevision } from './entities/task-comment-revision.entity';
+import { TaskCommentsService } from './task-comments.service';
+import { TaskCommentsController } from './task-comments.controller';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
+import { TaskRecurrencesService } from './task-recurrences.service';
+import { TaskRecurrencesController } from './task-recurrences.controller';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskDependenciesController } from './task-dependencies.controller';
+import { TaskLabelsController } from './task-labels.controller';
+import { TaskParticipantsService } from './task-participants.service';
+import { TaskParticipantsController } from './task-participants.controller';
+import { TaskChecklistItem } from './entities/task-checklist-item.entity';
+import { TaskChecklistService } from './task-checklist.service';
+import { TaskChecklistController } from './task-checklist.controller';
+import { Attachment } from './entities/attachment.entity';
+import { TaskAttachmentsService, maxAttachmentBytes } from './task-attachments.service';
+import { TaskAttachmentsController } from './task-attachments.controller';
+import { TimeEntry } from './entities/time-entry.entity';
+import { TimeEntriesService } from './time-entries.service';
+import { TimeEntriesController } from './time-entries.controller';
+import { TaskTimeEntriesController } from './task-time-entries.controller';
+import { TaskActivity } from './entities/task-activity.entity';
+import { TaskActivityService } from './task-activity.service';
+import { TaskActivityController } from './task-activity.controller';
+import { UsersModule } from '../users/users.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Task]),
+    TypeOrmModule.forFeature([
+      Task,
+      TaskComment,
+      TaskCommentRevision,
+      TaskDependency,
+      TaskRecurrence,
+      TaskChecklistItem,
+      Attachment,
+      TimeEntry,
+      TaskActivity,
+    ]),
     BullModule.registerQueue({
       name: 'task-processing',
     }),
-    
+    // Uploads are buffered in memory, so the size limit applies while receiving them
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: { fileSize: maxAttachmentBytes(configService), files: 1 },
+      }),
+    }),
+    forwardRef(() => UsersModule),
+  ],
+  controllers: [
+    TasksController,
+    TaskActivityController,
+    TaskAttachmentsController,
+    TaskChecklistController,
+    TaskCommentsController,
+    TaskDependenciesController,
+    TaskLabelsController,
+    TaskParticipantsController,
+    TaskRecurrencesController,
+    TaskTimeEntriesController,
+    TimeEntriesController,
+  ],
+  providers: [
+    RateLimitGuard,
+    TasksService,
+    TaskActivityService,
+    TaskAttachmentsService,
+    TaskChecklistService,
+    TaskCommentsService,
+    TaskDependenciesService,
+    TaskParticipantsService,
+    TaskRecurrencesService,
+    TimeEntriesService,
+    TaskOwnerPolicy,
+    TaskViewerPolicy,
+    TaskParentPolicy,
+    TaskProjectPolicy,
+    TaskReassignPolicy,
+    TaskBlockerPolicy,
+    TaskBatchPolicy,
+  ],
+  exports: [
+    TasksService,
+    TaskActivityService,
+    TaskAttachmentsService,
+    TaskDependenciesService,
+    TaskParticipantsService,
+    TaskRecurrencesService,
   ],
-  controllers: [TasksController],
-  providers: [RateLimitGuard,CacheService, TasksService],
-  exports: [TasksService],
 })
 export class TasksModule {} 
\ No newline at end of file
@@ -0,0 +1,414 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue } from 'bullmq';
+import { FindOperator, Repository } from 'typeorm';
+import { TasksService } from './tasks.service';
+import { TasksController } from './tasks.controller';
+import { TaskActivityRecord, TaskActivityService } from './task-activity.service';
+import { ATTACHMENT_CLEANUP_JOB } from './task-attachments.service';
+import { TaskRecurrencesService } from './task-recurrences.service';
+import { Task } from './entities/task.entity';
+import { Attachment } from './entities/attachment.entity';
+import { TaskStatus } from './enums/task-status.enum';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { taskEtag } from './utils/task-etag.util';
+import { User } from '../users/entities/user.entity';
+import type { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+import { CacheService } from '../../common/cache/cache.service';
+import { MemoryCacheDriver } from '../../common/cache/drivers/memory-cache.driver';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+import { TaskProcessorService } from '../../queues/task-processor/task-processor.service';
+
+const users = [
+  Object.assign(new User(), { id: 'user-1', name: 'Ada', organizationId: 'org-1' }),
+  Object.assign(new User(), { id: 'user-2', name: 'Grace', organizationId: 'org-1' }),
+];
+
+const caller: AuthenticatedUser = {
+  id: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  organizationId: 'org-1',
+  roles: ['user'],
+  permissions: [],
+  mfaAuthenticated: false,
+};
+
+function satisfies(value: unknown, condition: unknown): boolean {
+  if (!(condition instanceof FindOperator)) {
+    return value === condition;
+  }
+  switch (condition.type) {
+    case 'in':
+      return (condition.value as unknown[]).includes(value);
+    case 'not':
+      return condition.child ? !satisfies(value, condition.child) : value !== condition.value;
+    case 'isNull':
+      return value === null || value === undefined;
+    case 'lessThan':
+      return (value as Date) < (condition.value as Date);
+    default:
+      return true;
+  }
+}
+
+const matches = <T extends object>(row: T, where: Record<string, unknown> = {}) =>
+  Object.entries(where).every(([key, condition]) => satisfies(row[key as keyof T], condition));
+
+/**
+ * Tasks table behind the parts of the EntityManager the service uses. As with TypeORM, saving an
+ * entity and running an UPDATE query both increment the version column of the rows they touch,
+ * and tasks in the trash are only found with withDeleted. Of the raw queries only the subtask
+ * lookups of the trash are answered.
+ */
+function createTasksTable() {
+  const rows = new Map<string, Task>();
+  const attachments: Array<Pick<Attachment, 'taskId' | 'storageKey'>> = [];
+  const copy = (task: Task) => Object.assign(new Task(), task);
+  const find = async ({
+    where,
+    withDeleted = false,
+  }: { where?: Record<string, unknown>; withDeleted?: boolean } = {}) =>
+    [...rows.values()]
+      .filter(row => (withDeleted || !row.deletedAt) && matches(row, where))
+      .map(copy);
+  const update = (ids: string[], values: Partial<Task>) => {
+    const updated = ids.map(id => rows.get(id)).filter((row): row is Task => !!row);
+    updated.forEach(row => Object.assign(row, values, { version: row.version + 1 }));
+    return { affected: updated.length };
+  };
+
+  // Subtasks at any depth whose parent passes the filter
+  const descendantsOf = (rootIds: string[], follows: (child: Task, parent: Task) => boolean) => {
+    const found: string[] = [];
+    for (let parents = rootIds; parents.length; ) {
+      const children = [...rows.values()].filter(row => {
+        const parent = row.parentId ? rows.get(row.parentId) : undefined;
+        return !!parent && parents.includes(parent.id) && follows(row, parent);
+      });
+      found.push(...children.map(child => child.id));
+      parents = children.map(child => child.id);
+    }
+    return found.map(id => ({ id }));
+  };
+
+  const createQueryBuilder = () => {
+    let values: Partial<Task> = {};
+    let ids: string[] = [];
+    const query = {
+      update: () => query,
+      set: (set: Partial<Task>) => {
+        values = set;
+        return query;
+      },
+      whereInIds: (whereIds: string[]) => {
+        ids = whereIds;
+        return query;
+      },
+      andWhere: () => query,
+      execute: jest.fn(async () => update(ids, values)),
+    };
+    return query;
+  };
+  const repository = { find, createQueryBuilder };
+
+  const manager = {
+    transaction: <T>(work: (manager: unknown) => Promise<T>) => work(manager),
+    getRepository: () => repository,
+    query: async (sql: string, [param]: unknown[] = []) => {
+      if (sql.includes('root.deleted_at')) {
+        return descendantsOf(
+          [param as string],
+          (child, parent) => child.deletedAt?.getTime() === parent.deletedAt?.getTime(),
+        );
+      }
+      if (sql.includes('WITH RECURSIVE descendants')) {
+        return descendantsOf(param as string[], child => !child.deletedAt);
+      }
+      return [];
+    },
+    // With the column default the database would fill in
+    create: (_entity: unknown, fields: Partial<Task>) =>
+      Object.assign(new Task(), { status: TaskStatus.PENDING }, fields),
+    merge: (_entity: unknown, task: Task, fields: Partial<Task>) => Object.assign(task, fields),
+    findOne: async (entity: unknown, options: { where: Record<string, unknown> }) =>
+      entity === User
+        ? (users.find(user => matches(user, options.where)) ?? null)
+        : ((await find(options))[0] ?? null),
+    find: async (
+      entity: unknown,
+      options: { where: Record<string, unknown>; withDeleted?: boolean },
+    ) => {
+      if (entity === Attachment) {
+        return attachments.filter(attachment => matches(attachment, options.where));
+      }
+      return entity === Task ? find(options) : [];
+    },
+    findBy: (_entity: unknown, where: Record<string, unknown>) => find({ where }),
+    exists: async (_entity: unknown, options: { where: Record<string, unknown> }) =>
+      (await find(options)).length > 0,
+    update: async (_entity: unknown, where: Record<string, unknown>, values: Partial<Task>) =>
+      update(
+        (await find({ where, withDeleted: true })).map(task => task.id),
+        values,
+      ),
+    delete: async (_entity: unknown, where: Record<string, unknown>) => {
+      (await find({ where, withDeleted: true })).forEach(task => rows.delete(task.id));
+    },
+    save: async (task: Task) => {
+      task.id ??= `task-${rows.size + 1}`;
+      task.version = (rows.get(task.id)?.version ?? 0) + 1;
+      rows.set(task.id, copy(task));
+      return task;
+    },
+  };
+
+  return {
+    rows,
+    attachments,
+    repository: {
+      ...repository,
+      manager,
+      findOne: async (options: { where: Record<string, unknown> }) =>
+        (await find(options))[0] ?? null,
+    },
+  };
+}
+
+describe('TasksService', () => {
+  const tenantContext = new TenantContext();
+  let tasks: ReturnType<typeof createTasksTable>;
+  let taskQueue: { add: jest.Mock; addBulk: jest.Mock };
+  let taskActivityService: { record: jest.Mock };
+  let service: TasksService;
+
+  const asCaller = <T>(callback: () => Promise<T>) =>
+    tenantContext.run(() => {
+      tenantContext.setTenantId('org-1');
+      return callback();
+    });
+
+  beforeEach(() => {
+    tasks = createTasksTable();
+    taskQueue = { add: jest.fn(async () => undefined), addBulk: jest.fn(async () => undefined) };
+    taskActivityService = { record: jest.fn(async () => undefined) };
+    const configService = new ConfigService({ CACHE_PREFIX: 'spec' });
+
+    service = new TasksService(
+      tasks.repository as unknown as Repository<Task>,
+      taskQueue as unknown as Queue,
+      new CacheService(new MemoryCacheDriver(), configService),
+      configService,
+      tenantContext,
+      taskActivityService as unknown as TaskActivityService,
+    );
+  });
+
+  describe('updateStatus', () => {
+    it('leaves tasks already at the status untouched', async () => {
+      const created = await asCaller(() =>
+        service.create({ title: 'Write specs', userId: 'user-1' }),
+      );
+
+      await expect(
+        asCaller(() => service.updateStatus(created.id, TaskStatus.PENDING)),
+      ).resolves.toEqual({ affected: 0 });
+      expect(tasks.rows.get(created.id)?.version).toBe(created.version);
+      expect(taskQueue.addBulk).not.toHaveBeenCalled();
+    });
+
+    it('only writes the tasks whose status changes', async () => {
+      const pending = await asCaller(() => service.create({ title: 'Pending', userId: 'user-1' }));
+      const done = await asCaller(() =>
+        service.create({ title: 'Done', userId: 'user-1', status: TaskStatus.COMPLETED }),
+      );
+
+      await expect(
+        asCaller(() => service.updateStatus([pending.id, done.id], TaskStatus.COMPLETED)),
+      ).resolves.toEqual({ affected: 1 });
+      expect(tasks.rows.get(pending.id)?.version).toBe(pending.version + 1);
+      expect(tasks.rows.get(done.id)?.version).toBe(done.version);
+    });
+  });
+
+  describe('trash', () => {
+    let parent: Task;
+    let child: Task;
+    let grandchild: Task;
+
+    const trashedAt = (task: Task) => tasks.rows.get(task.id)?.deletedAt ?? null;
+    const recorded = (action: TaskActivityAction) =>
+      taskActivityService.record.mock.calls
+        .flatMap(([, records]) => records as TaskActivityRecord[])
+        .filter(record => record.action === action)
+        .map(record => record.task.id);
+
+    beforeEach(async () => {
+      parent = await asCaller(() => service.create({ title: 'Release', userId: 'user-1' }));
+      child = await asCaller(() =>
+        service.create({ title: 'Changelog', userId: 'user-1', parentId: parent.id }),
+      );
+      grandchild = await asCaller(() =>
+        service.create({ title: 'Credits', userId: 'user-1', parentId: child.id }),
+      );
+    });
+
+    describe('remove', () => {
+      it('moves the task and its subtasks to the trash at the same time', async () => {
+        await asCaller(() => service.remove(parent.id, 'user-2'));
+
+        expect(trashedAt(parent)).toBeInstanceOf(Date);
+        expect(trashedAt(child)).toEqual(trashedAt(parent));
+        expect(trashedAt(grandchild)).toEqual(trashedAt(parent));
+        expect(tasks.rows.get(child.id)?.deletedById).toBe('user-2');
+        await expect(asCaller(() => service.findOne(parent.id))).rejects.toBeInstanceOf(
+          NotFoundException,
+        );
+        expect(recorded(TaskActivityAction.DELETED)).toEqual([parent.id, child.id, grandchild.id]);
+      });
+
+      it('keeps subtasks deleted before in the trash with their own time', async () => {
+        await asCaller(() => service.remove(child.id, 'user-1'));
+        const earlier = new Date('2026-01-01T00:00:00Z');
+        Object.assign(tasks.rows.get(child.id) ?? {}, { deletedAt: earlier });
+        Object.assign(tasks.rows.get(grandchild.id) ?? {}, { deletedAt: earlier });
+
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+
+        expect(trashedAt(child)).toEqual(earlier);
+      });
+    });
+
+    describe('restore', () => {
+      it('brings back the subtasks deleted along with the task', async () => {
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+
+        await expect(
+          asCaller(() => service.restore(parent.id, 'user-1', false)),
+        ).resolves.toMatchObject({ id: parent.id, deletedAt: null });
+        expect([trashedAt(child), trashedAt(grandchild)]).toEqual([null, null]);
+        expect(recorded(TaskActivityAction.RESTORED)).toEqual([parent.id, child.id, grandchild.id]);
+      });
+
+      it('leaves subtasks deleted on their own in the trash', async () => {
+        await asCaller(() => service.remove(child.id, 'user-1'));
+        Object.assign(tasks.rows.get(child.id) ?? {}, { deletedAt: new Date('2026-01-01') });
+        Object.assign(tasks.rows.get(grandchild.id) ?? {}, { deletedAt: new Date('2026-01-01') });
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+
+        await asCaller(() => service.restore(parent.id, 'user-1', false));
+
+        expect(trashedAt(child)).toEqual(new Date('2026-01-01'));
+      });
+
+      it('requires the parent to be restored first', async () => {
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+
+        await expect(
+          asCaller(() => service.restore(child.id, 'user-1', false)),
+        ).rejects.toBeInstanceOf(ConflictException);
+        expect(trashedAt(child)).toBeInstanceOf(Date);
+      });
+
+      it('is limited to the owner, the creator and whoever deleted the task', async () => {
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+
+        await expect(
+          asCaller(() => service.restore(parent.id, 'user-2', false)),
+        ).rejects.toBeInstanceOf(ForbiddenException);
+        await expect(
+          asCaller(() => service.restore(parent.id, 'user-2', true)),
+        ).resolves.toMatchObject({ id: parent.id });
+      });
+
+      it('needs a new owner for tasks whose owner is gone', async () => {
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+        Object.assign(tasks.rows.get(parent.id) ?? {}, { userId: null });
+
+        await expect(
+          asCaller(() => service.restore(parent.id, 'user-1', true)),
+        ).rejects.toBeInstanceOf(BadRequestException);
+        await expect(
+          asCaller(() => service.restore(parent.id, 'user-1', true, 'user-2')),
+        ).resolves.toMatchObject({ userId: 'user-2' });
+        expect(tasks.rows.get(child.id)?.userId).toBe('user-1');
+      });
+
+      it('only restores tasks in the trash', async () => {
+        await expect(
+          asCaller(() => service.restore(parent.id, 'user-1', true)),
+        ).rejects.toBeInstanceOf(NotFoundException);
+      });
+    });
+
+    describe('purge', () => {
+      it('deletes the task with its subtasks and queues the removal of their attachments', async () => {
+        tasks.attachments.push({ taskId: grandchild.id, storageKey: 'tasks/credits.txt' });
+        await asCaller(() => service.remove(parent.id, 'user-1'));
+
+        await asCaller(() => service.purge(parent.id, 'admin-1'));
+
+        expect(tasks.rows.size).toBe(0);
+        expect(recorded(TaskActivityAction.PURGED)).toEqual([parent.id, child.id, grandchild.id]);
+        expect(taskQueue.add).toHaveBeenCalledWith(
+          ATTACHMENT_CLEANUP_JOB,
+          { storageKeys: ['tasks/credits.txt'] },
+          expect.anything(),
+        );
+      });
+
+      it('refuses tasks that are not in the trash', async () => {
+        await expect(asCaller(() => service.purge(parent.id, 'admin-1'))).rejects.toBeInstanceOf(
+          NotFoundException,
+        );
+        expect(tasks.rows.size).toBe(3);
+      });
+
+      it('purges tasks kept in the trash past the retention period', async () => {
+        const now = new Date('2026-03-31T00:00:00Z');
+        await asCaller(() => service.remove(child.id, 'user-1'));
+        Object.assign(tasks.rows.get(child.id) ?? {}, { deletedAt: new Date('2026-02-01') });
+        Object.assign(tasks.rows.get(grandchild.id) ?? {}, { deletedAt: new Date('2026-03-30') });
+
+        await expect(service.purgeExpiredTrash(now)).resolves.toBe(1);
+        expect([...tasks.rows.keys()]).toEqual([parent.id, grandchild.id]);
+      });
+    });
+  });
+
+  it('keeps the ETag of a new task valid through the status job it queues', async () => {
+    // A job for a status that doesn't change only needs the tasks service
+    const unused = {} as never;
+    const processor = new TaskProcessorService(
+      service,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      tenantContext,
+    );
+    const controller = new TasksController(service, {} as TaskRecurrencesService);
+
+    const created = await asCaller(() =>
+      service.create({ title: 'Write specs', userId: 'user-1' }),
+    );
+    const etag = taskEtag(created);
+
+    const [name, data] = taskQueue.add.mock.calls[0];
+    await processor.process({ id: '1', name, data, opts: {} } as Job);
+
+    await expect(
+      asCaller(() =>
+        controller.update(created.id, { title: 'Write more specs' }, {}, caller, etag),
+      ),
+    ).resolves.toMatchObject({ data: { title: 'Write more specs' } });
+  });
+});
@@ -1,6 +1,25 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { EntityManager, In, Repository } from 'typeorm';
+import {
+  Brackets,
+  EntityManager,
+  In,
+  IsNull,
+  LessThan,
+  Not,
+  ObjectLiteral,
+  Raw,
+  Repository,
+} from 'typeorm';
 import { Task } from './entities/task.entity';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
@@ -8,8 +27,56 @@ import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { TaskStatus } from './enums/task-status.enum';
 import { TaskFilterDto } from './dto/task-filter.dto';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+import { TaskDependency } from './entities/task-dependency.entity';
+import { TaskRecurrence } from './entities/task-recurrence.entity';
+import { Attachment } from './entities/attachment.entity';
+import { TimeEntry } from './entities/time-entry.entity';
+import { ATTACHMENT_CLEANUP_JOB } from './task-attachments.service';
+import { TaskActivityService } from './task-activity.service';
+import { TaskActivityAction } from './enums/task-activity-action.enum';
+import { TaskActivitySource } from './enums/task-activity-source.enum';
+import { diffSnapshots, snapshotTask } from './utils/task-diff.util';
+import { TaskRecurrenceDto } from './dto/task-recurrence.dto';
+import { recurrenceLimitError } from './utils/recurrence.util';
 import { TaskPriority } from './enums/task-priority.enum';
+import { CacheService } from '../../common/cache/cache.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+import { PaginatedResponse } from '../../types/pagination.interface';
+import { User } from '../users/entities/user.entity';
+import { Label } from '../labels/entities/label.entity';
+import { Project } from '../projects/entities/project.entity';
+import { ProjectMember } from '../projects/entities/project-member.entity';
+import { ProjectRole } from '../projects/enums/project-role.enum';
+import { PROJECT_ALL_ROLES, PROJECT_WRITE_ROLES } from '../projects/projects.constants';
+import * as crypto from 'crypto';
 
+// Lists and stats go stale on any write, so they're kept short-lived and tagged for bulk invalidation
+const TASK_CACHE_TTL = 300;
+const TASK_LIST_CACHE_TTL = 60;
+const TASK_STATS_CACHE_TTL = 60;
+const TASK_LIST_CACHE_TAG = 'tasks:list';
+const TASK_STATS_CACHE_TAG = 'tasks:stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tasks purged per transaction by the scheduled trash cleanup
+const TRASH_PURGE_BATCH_SIZE = 100;
+
+export type TaskAccess = 'read' | 'write';
+
+/**
+ * Who is listing tasks: the viewer's id resolves the `watching` filter, and with visibleOnly the
+ * list is limited to tasks the viewer owns, is assigned to or watches.
+ */
+export interface TaskListOptions {
+  viewerId?: string;
+  visibleOnly?: boolean;
+}
+
+// A condition on the task id, combined with the others into one Raw() filter
+type TaskIdCondition = { sql: (alias: string) => string; parameters: ObjectLiteral };
+
+// Queries are limited to the organization of the current request (see TenantContext)
 @Injectable()
 export class TasksService {
   private readonly logger = new Logger(TasksService.name);
@@ -18,54 +85,183 @@ export class TasksService {
     private tasksRepository: Repository<Task>,
     @InjectQueue('task-processing')
     private taskQueue: Queue,
+    private cacheService: CacheService,
+    private configService: ConfigService,
+    private tenantContext: TenantContext,
+    private taskActivityService: TaskActivityService,
   ) { }
 
-  async create(createTaskDto: CreateTaskDto): Promise<Task> {
-    return await this.tasksRepository.manager.transaction(async (manager) => {
-      // 1. Create and save task inside the transaction
-      const task = manager.create(Task, createTaskDto);
-      const savedTask = await manager.save(task);
+  async create(
+    createTaskDto: CreateTaskDto,
+    createdById?: string,
+    source = TaskActivitySource.API,
+  ): Promise<Task> {
+    const createdTask = await this.tasksRepository.manager.transaction(manager =>
+      this.createInTransaction(manager, createTaskDto, createdById, source),
+    );
 
-      try {
-        // 2. Add to queue and wait for confirmation
-        this.taskQueue.add('task-status-update', {
-          taskId: savedTask.id,
-          status: savedTask.status,
-        });
-      } catch (queueError: any) {
-        // Rollback will happen automatically if error is thrown
-        throw new Error(`Task created but failed to enqueue: ${queueError.message}`);
-      }
+    // A new subtask changes the parent's rollup
+    await this.invalidateTaskCache(createdTask.parentId ? [createdTask.parentId] : []);
+    return createdTask;
+  }
+
+  /**
+   * Creates a task as part of the caller's transaction, e.g. one node of a tree built from a
+   * template; the caller invalidates the cache once it's committed. The owner starts out as the
+   * only assignee.
+   */
+  async createInTransaction(
+    manager: EntityManager,
+    createTaskDto: CreateTaskDto,
+    createdById?: string,
+    source = TaskActivitySource.API,
+  ): Promise<Task> {
+    if (createTaskDto.parentId) {
+      await this.assertValidParent(manager, createTaskDto.parentId);
+    }
+    if (createTaskDto.projectId) {
+      await this.assertProjectExists(manager, createTaskDto.projectId);
+    }
+
+    const { labelIds, recurrence, ...fields } = createTaskDto;
+    const owner = await this.resolveOwner(manager, createTaskDto.userId);
 
-      return savedTask;
+    // 1. Create and save task inside the transaction
+    const task = manager.create(Task, {
+      ...fields,
+      organizationId: owner.organizationId,
+      createdById: createdById ?? owner.id,
+      assignees: [owner],
     });
+    if (labelIds) {
+      task.labels = await this.resolveLabels(manager, labelIds, task.userId);
+    }
+    const savedTask = await manager.save(task);
+    if (recurrence) {
+      await this.startRecurrence(manager, savedTask, recurrence, createdById);
+    }
+    await this.taskActivityService.record(manager, [
+      {
+        task: savedTask,
+        action: TaskActivityAction.CREATED,
+        source,
+        actorId: createdById,
+        changes: diffSnapshots({}, snapshotTask(savedTask)),
+      },
+    ]);
+
+    try {
+      // 2. Add to queue and wait for confirmation
+      this.taskQueue.add('task-status-update', {
+        taskId: savedTask.id,
+        status: savedTask.status,
+      });
+    } catch (queueError) {
+      // Rollback will happen automatically if error is thrown
+      const reason = queueError instanceof Error ? queueError.message : String(queueError);
+      throw new Error(`Task created but failed to enqueue: ${reason}`);
+    }
+
+    return savedTask;
   }
 
-  async findAll(queryParams: TaskFilterDto): Promise<{ data: Task[]; total: number }> {
+  async findAll(
+    queryParams: TaskFilterDto,
+    options: TaskListOptions = {},
+  ): Promise<{ data: Task[]; total: number }> {
+    if ((queryParams.watching || options.visibleOnly) && !options.viewerId) {
+      throw new BadRequestException('Listing tasks for a viewer needs their user id');
+    }
+    return this.cacheService.wrap(
+      `tasks:list:${this.hashFilter(queryParams, options)}`,
+      () => this.queryTasks(queryParams, options),
+      TASK_LIST_CACHE_TTL,
+      { tags: [TASK_LIST_CACHE_TAG] },
+    );
+  }
 
-    const { status, priority, page = 1, limit = 10,userId } = queryParams;
+  private async queryTasks(
+    queryParams: TaskFilterDto,
+    { viewerId, visibleOnly }: TaskListOptions,
+  ): Promise<{ data: Task[]; total: number }> {
+    const {
+      status,
+      priority,
+      page = 1,
+      limit = 10,
+      userId,
+      projectId,
+      parentId,
+      topLevelOnly,
+      labels,
+      labelMatch,
+      assigneeId,
+      watching,
+      checklistIncomplete,
+    } = queryParams;
     const skip = (page - 1) * limit;
 
     const where: any = {};
     if (status) where.status = status;
     if (priority) where.priority = priority;
     if (userId) where.user = { id: userId };
+    if (projectId) where.projectId = projectId;
+    if (parentId) where.parentId = parentId;
+    else if (topLevelOnly) where.parentId = IsNull();
     if (priority) where.priority = priority;
+
+    const idConditions: TaskIdCondition[] = [];
+    if (labels?.length) idConditions.push(this.labelCondition(labels, labelMatch));
+    if (assigneeId) idConditions.push(this.assigneeCondition(assigneeId));
+    if (watching && viewerId) idConditions.push(this.watcherCondition(viewerId));
+    if (visibleOnly && viewerId) idConditions.push(this.visibilityCondition(viewerId));
+    if (checklistIncomplete !== undefined) {
+      idConditions.push(this.checklistCondition(checklistIncomplete));
+    }
+    if (idConditions.length) {
+      where.id = Raw(
+        alias => idConditions.map(condition => condition.sql(alias)).join(' AND '),
+        Object.assign({}, ...idConditions.map(condition => condition.parameters)),
+      );
+    }
+
     const [data, total] = await this.tasksRepository.findAndCount({
-      where,
+      where: this.tenantContext.scope(where),
       skip,
       take: limit,
-      relations: ['user'], // load only what's needed
+      relations: ['user', 'labels', 'assignees'], // load only what's needed
       select: {
         id: true,
         title: true,
         status: true,
+        projectId: true,
+        parentId: true,
+        createdById: true,
+        recurrenceId: true,
+        occurrenceIndex: true,
+        estimateMinutes: true,
+        loggedMinutes: true,
+        commentCount: true,
+        subtaskCount: true,
+        subtaskProgress: true,
+        checklistProgress: true,
+        isBlocked: true,
         createdAt: true,
         updatedAt: true,
+        version: true,
         user: {
           id: true,
           name: true, // only fetch required user fields
         },
+        labels: {
+          id: true,
+          name: true,
+          color: true,
+        },
+        assignees: {
+          id: true,
+          name: true,
+        },
       },
       order: { createdAt: 'DESC' },
     });
@@ -76,14 +272,77 @@ export class TasksService {
     };
   }
 
+  // Label names match case-insensitively; "all" requires every name to be attached
+  private labelCondition(labels: string[], match: 'any' | 'all' = 'any'): TaskIdCondition {
+    const names = [...new Set(labels.map(label => label.toLowerCase()))];
+
+    return {
+      sql: alias =>
+        `${alias} IN (
+          SELECT task_label.task_id FROM task_labels task_label
+          JOIN labels label ON label.id = task_label.label_id
+          WHERE LOWER(label.name) IN (:...labelNames)
+          GROUP BY task_label.task_id
+          HAVING COUNT(DISTINCT LOWER(label.name)) >= :labelMinMatches
+        )`,
+      parameters: { labelNames: names, labelMinMatches: match === 'all' ? names.length : 1 },
+    };
+  }
+
+  private assigneeCondition(assigneeId: string): TaskIdCondition {
+    return {
+      sql: alias => `${alias} IN (SELECT task_id FROM task_assignees WHERE user_id = :assigneeId)`,
+      parameters: { assigneeId },
+    };
+  }
+
+  private watcherCondition(watcherId: string): TaskIdCondition {
+    return {
+      sql: alias => `${alias} IN (SELECT task_id FROM task_watchers WHERE user_id = :watcherId)`,
+      parameters: { watcherId },
+    };
+  }
+
+  // With false, tasks without a checklist count as complete too
+  private checklistCondition(incomplete: boolean): TaskIdCondition {
+    return {
+      sql: alias =>
+        `${alias} ${incomplete ? 'IN' : 'NOT IN'} (
+          SELECT task_id FROM task_checklist_items WHERE NOT done
+        )`,
+      parameters: {},
+    };
+  }
+
+  // The tasks canAccess(..., 'read') lets the viewer see; members of any role may read
+  private visibilityCondition(viewerId: string): TaskIdCondition {
+    return {
+      sql: alias =>
+        `${alias} IN (
+          SELECT id FROM tasks WHERE user_id = :viewerId
+          UNION SELECT task_id FROM task_assignees WHERE user_id = :viewerId
+          UNION SELECT task_id FROM task_watchers WHERE user_id = :viewerId
+          UNION SELECT project_task.id FROM tasks project_task
+            JOIN project_members member ON member.project_id = project_task.project_id
+            WHERE member.user_id = :viewerId
+        )`,
+      parameters: { viewerId },
+    };
+  }
+
   async findOne(id: string): Promise<Task> {
     try {
-      const task =
-        await this.tasksRepository.findOne({
-          where: { id },
-          relations: ['user'],
-        });
-      if (!task) {
+      const task = await this.cacheService.wrap(
+        this.taskCacheKey(id),
+        () =>
+          this.tasksRepository.findOne({
+            where: { id },
+            relations: ['user', 'labels', 'assignees', 'watchers'],
+          }),
+        TASK_CACHE_TTL,
+      );
+      // The cache is shared by all tenants, so check the row's organization after the lookup
+      if (!task || !this.tenantContext.inScope(task.organizationId)) {
         throw new NotFoundException(`Task with ID ${id} not found`);
       }
 
@@ -95,134 +354,1042 @@ export class TasksService {
     }
   }
 
-  // main thread
-  async update(id: string, updateTaskDto: UpdateTaskDto): Promise<Task> {
-    return await this.tasksRepository.manager.transaction(async (manager) => {
-      // Fetch task in transaction scope
-      const task = await manager.findOne(Task, {
-        where: { id },
-        relations: ['user'],
-      });
+  // main thread; changedBy is left out of the status-change notifications. With expectedVersion
+  // the update fails (412) unless the task is still at that version
+  async update(
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    changedBy?: string,
+    source = TaskActivitySource.API,
+    expectedVersion?: number,
+  ): Promise<Task> {
+    const { task, staleIds } = await this.tasksRepository.manager.transaction(manager =>
+      this.updateInTransaction(manager, id, updateTaskDto, changedBy, source, expectedVersion),
+    );
 
-      if (!task) {
-        throw new NotFoundException(`Task with ID ${id} not found`);
-      }
-
-      const originalStatus = task.status;
-
-      // Merge updated fields in one go
-      manager.merge(Task, task, updateTaskDto);
-
-      const updatedTask = await manager.save(task);
-
-      // Queue processing with error safety
-      if (originalStatus !== updatedTask.status) {
-        try {
-          await this.taskQueue.add('task-status-update', {
-            taskId: updatedTask.id,
-            status: updatedTask.status,
-          });
-        } catch (queueError: any) {
-          // Log error but don't break API response
-          this.logger.error(
-            `Failed to add task ${updatedTask.id} to status update queue`,
-            queueError.stack,
-          );
-        }
-      }
+    // After commit, so a concurrent read can't re-cache the pre-update row
+    await this.invalidateTaskCache(staleIds);
+    return task;
+  }
 
-      return updatedTask;
+  /**
+   * Updates a task as part of the caller's transaction, e.g. together with the rest of its series;
+   * the caller invalidates the returned staleIds once it's committed.
+   */
+  async updateInTransaction(
+    manager: EntityManager,
+    id: string,
+    updateTaskDto: UpdateTaskDto,
+    changedBy?: string,
+    source = TaskActivitySource.API,
+    expectedVersion?: number,
+  ): Promise<{ task: Task; staleIds: string[] }> {
+    if (expectedVersion !== undefined) {
+      await this.assertVersions(manager, [id], { [id]: expectedVersion });
+    }
+    // Fetch task in transaction scope
+    const task = await manager.findOne(Task, {
+      where: this.tenantContext.scope({ id }),
+      relations: ['user', 'labels'],
     });
-  }
 
-  async remove(id: string): Promise<Task> {
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${id} not found`);
+    }
 
+    const originalStatus = task.status;
+    const before = snapshotTask(task);
+    const previousParentId = task.parentId;
 
+    if (updateTaskDto.parentId && updateTaskDto.parentId !== task.parentId) {
+      await this.assertValidParent(manager, updateTaskDto.parentId, id);
+    }
+    if (updateTaskDto.projectId && updateTaskDto.projectId !== task.projectId) {
+      await this.assertProjectExists(manager, updateTaskDto.projectId);
+    }
+    if (updateTaskDto.status && updateTaskDto.status !== originalStatus) {
+      await this.assertCanTransition(manager, [id], updateTaskDto.status);
+    }
+    if (updateTaskDto.userId && updateTaskDto.userId !== task.userId) {
+      const owner = await this.resolveOwner(manager, updateTaskDto.userId);
+      task.organizationId = owner.organizationId;
+    }
+
+    const { labelIds, ...fields } = updateTaskDto;
+
+    // Merge updated fields in one go
+    manager.merge(Task, task, fields);
+    if (labelIds) {
+      task.labels = await this.resolveLabels(manager, labelIds, task.userId);
+    }
+
+    const updatedTask = await manager.save(task);
+
+    const changes = diffSnapshots(before, snapshotTask(updatedTask));
+    if (Object.keys(changes).length) {
+      await this.taskActivityService.record(manager, [
+        {
+          task: updatedTask,
+          action: TaskActivityAction.UPDATED,
+          source,
+          actorId: changedBy,
+          changes,
+        },
+      ]);
+    }
+
+    // Queue processing with error safety
+    if (originalStatus !== updatedTask.status) {
+      try {
+        await this.taskQueue.add('task-status-update', {
+          taskId: updatedTask.id,
+          status: updatedTask.status,
+          previousStatus: originalStatus,
+          changedBy,
+        });
+      } catch (queueError) {
+        // Log error but don't break API response
+        this.logger.error(
+          `Failed to add task ${updatedTask.id} to status update queue`,
+          queueError instanceof Error ? queueError.stack : String(queueError),
+        );
+      }
+    }
+
+    // Parents carry a rollup and dependents an isBlocked flag
+    return {
+      task: updatedTask,
+      staleIds: [
+        ...[id, previousParentId, updatedTask.parentId].filter(
+          (taskId): taskId is string => !!taskId,
+        ),
+        ...(await this.findDependentIds([id], manager)),
+      ],
+    };
+  }
+
+  /**
+   * Moves the task to the trash together with its subtasks at any depth. They can be restored as
+   * a whole until they're purged; attachments stay in storage until then.
+   */
+  async remove(
+    id: string,
+    actorId?: string,
+    source = TaskActivitySource.API,
+    expectedVersion?: number,
+  ): Promise<Task> {
     const task = await this.tasksRepository.findOne({
-      where: { id },
+      where: this.tenantContext.scope({ id }),
     });
 
     if (!task) {
       throw new NotFoundException(`Task with ID ${id} not found`);
     }
-    const deleteResult = await this.tasksRepository.delete(id);
+    const trashedIds = await this.tasksRepository.manager.transaction(async manager => {
+      if (expectedVersion !== undefined) {
+        await this.assertVersions(manager, [id], { [id]: expectedVersion });
+      }
+      return this.trashInTransaction(manager, [task], actorId, source);
+    });
 
-    if (deleteResult.affected === 0) {
-      throw new NotFoundException(`Task with ID ${id} not found`);
-    }
+    // The parent's rollup and the isBlocked flag of dependents no longer count the trashed tasks
+    await this.invalidateTaskCache([
+      ...trashedIds,
+      ...(task.parentId ? [task.parentId] : []),
+      ...(await this.findDependentIds(trashedIds)),
+    ]);
     return task;
   }
 
+  /**
+   * True when the user may act on every given task: they own it, are assigned to it, or they're a
+   * member of its project (editors and owners for writes). Watchers may read the task too. With
+   * anyOwner set (tasks:manage holders) every task of the organization qualifies. Malformed ids
+   * count as inaccessible rather than surfacing a database error.
+   */
+  async canAccess(
+    taskIds: string[],
+    userId: string,
+    access: TaskAccess,
+    anyOwner = false,
+  ): Promise<boolean> {
+    const ids = [...new Set(taskIds)];
+    const roles = access === 'write' ? PROJECT_WRITE_ROLES : PROJECT_ALL_ROLES;
+    try {
+      const query = this.tasksRepository
+        .createQueryBuilder('task')
+        .where('task.id IN (:...ids)', { ids });
+      if (!anyOwner) {
+        query.andWhere(
+          new Brackets(qb => {
+            qb.where('task.userId = :userId', { userId })
+              .orWhere(
+                `EXISTS (
+                  SELECT 1 FROM task_assignees assignee
+                  WHERE assignee.task_id = task.id AND assignee.user_id = :userId
+                )`,
+              )
+              .orWhere(
+                `EXISTS (
+                  SELECT 1 FROM project_members member
+                  WHERE member.project_id = task.project_id
+                    AND member.user_id = :userId AND member.role IN (:...roles)
+                )`,
+                { roles },
+              );
+            if (access === 'read') {
+              qb.orWhere(
+                `EXISTS (
+                  SELECT 1 FROM task_watchers watcher
+                  WHERE watcher.task_id = task.id AND watcher.user_id = :userId
+                )`,
+              );
+            }
+          }),
+        );
+      }
+      const accessible = await this.tenantContext
+        .scopeQuery(query, 'task.organizationId')
+        .getCount();
+      return accessible === ids.length;
+    } catch (error) {
+      this.logger.warn(`Access check failed for tasks ${ids.join(', ')}: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * True when the user may make newOwnerId the owner of the task: it already is the owner, or the
+   * user owns the task's project. Anyone else needs tasks:manage to reassign a task.
+   */
+  async canReassign(taskId: string, userId: string, newOwnerId: string): Promise<boolean> {
+    try {
+      const query = this.tasksRepository
+        .createQueryBuilder('task')
+        .where('task.id = :taskId', { taskId })
+        .andWhere(
+          new Brackets(qb => {
+            qb.where('task.userId = :newOwnerId', { newOwnerId }).orWhere(
+              `EXISTS (
+                SELECT 1 FROM project_members member
+                WHERE member.project_id = task.project_id
+                  AND member.user_id = :userId AND member.role = :role
+              )`,
+              { userId, role: ProjectRole.OWNER },
+            );
+          }),
+        );
+      return (await this.tenantContext.scopeQuery(query, 'task.organizationId').getCount()) === 1;
+    } catch (error) {
+      this.logger.warn(`Reassignment check failed for task ${taskId}: ${error}`);
+      return false;
+    }
+  }
+
+  async hasProjectRole(projectId: string, userId: string, roles: ProjectRole[]): Promise<boolean> {
+    try {
+      return await this.tasksRepository.manager.exists(ProjectMember, {
+        where: { projectId, userId, role: In(roles) },
+      });
+    } catch (error) {
+      this.logger.warn(`Membership check failed for project ${projectId}: ${error}`);
+      return false;
+    }
+  }
+
   async findByStatus(status: TaskStatus): Promise<Task[]> {
     return this.tasksRepository.find({
-      where: { status },
+      where: this.tenantContext.scope({ status }),
       relations: ['user'], // only if needed
     });
   }
 
   async findOverdueTasks(where: any): Promise<Array<{ status: TaskStatus }>> {
     return await this.tasksRepository.find({
-      where: where,
+      where: this.tenantContext.scope(where),
       select: ['status'],
     })
   }
 
 
-  async updateStatus(id: string | string[], status: string): Promise<{ affected: number }> {
+  async updateStatus(
+    id: string | string[],
+    status: string,
+    changedBy?: string,
+    source = TaskActivitySource.API,
+    expectedVersions?: Record<string, number>,
+  ): Promise<{ affected: number }> {
     const ids = Array.isArray(id) ? id : [id];    // ⇐ normalize
 
-    return this.tasksRepository.manager.transaction(async manager => {
-      const result = await manager
+    let changing: Array<Pick<Task, 'id' | 'status' | 'organizationId' | 'title'>> = [];
+
+    const result = await this.tasksRepository.manager.transaction(async manager => {
+      await this.assertVersions(manager, ids, expectedVersions);
+      // Re-applying a task's current status (as the queue processor does) skips the checks
+      changing = await manager.getRepository(Task).find({
+        select: { id: true, status: true, organizationId: true, title: true },
+        where: this.tenantContext.scope({ id: In(ids), status: Not(status as TaskStatus) }),
+      });
+      const changingIds = changing.map(task => task.id);
+      await this.assertCanTransition(manager, changingIds, status as TaskStatus);
+
+      // An UPDATE bumps the version of every row it touches, which would invalidate the ETags
+      // clients hold for tasks that are already at the status
+      if (!changingIds.length) {
+        return { affected: 0 };
+      }
+      const query = manager
         .getRepository(Task)
         .createQueryBuilder()
         .update(Task)
         .set({ status: status as TaskStatus })
-        .whereInIds(ids)
-        .execute();
+        .whereInIds(changingIds);
+      const result = await this.tenantContext.scopeQuery(query, 'organization_id').execute();
+
+      await this.taskActivityService.record(
+        manager,
+        changing.map(task => ({
+          task,
+          action: TaskActivityAction.UPDATED,
+          source,
+          actorId: changedBy,
+          changes: { status: { from: task.status, to: status } },
+        })),
+      );
 
       return { affected: result.affected ?? 0 };
     });
+
+    // Same follow-up as a single update, e.g. unblocking dependents of completed tasks
+    if (changing.length) {
+      try {
+        await this.taskQueue.addBulk(
+          changing.map(task => ({
+            name: 'task-status-update',
+            data: { taskId: task.id, status, previousStatus: task.status, changedBy },
+          })),
+        );
+      } catch (queueError) {
+        this.logger.error(
+          `Failed to add tasks ${changing.map(task => task.id).join(', ')} to status update queue`,
+          queueError instanceof Error ? queueError.stack : String(queueError),
+        );
+      }
+    }
+
+    await this.invalidateTaskCache([
+      ...ids,
+      ...(await this.findParentIds(ids)),
+      ...(await this.findDependentIds(ids)),
+    ]);
+    return result;
+  }
+
+
+  async bulkDelete(
+    taskIds: string[],
+    actorId?: string,
+    source = TaskActivitySource.BATCH,
+    expectedVersions?: Record<string, number>,
+  ): Promise<{ affected: number }> {
+    let parentIds: string[] = [];
+    const trashedIds = await this.tasksRepository.manager.transaction(async manager => {
+      await this.assertVersions(manager, taskIds, expectedVersions);
+      const tasks = await manager
+        .getRepository(Task)
+        .findBy(this.tenantContext.scope({ id: In(taskIds) }));
+
+      parentIds = tasks.map(task => task.parentId).filter((id): id is string => !!id);
+      return this.trashInTransaction(manager, tasks, actorId, source);
+    });
+
+    await this.invalidateTaskCache([
+      ...trashedIds,
+      ...parentIds,
+      ...(await this.findDependentIds(trashedIds)),
+    ]);
+    return { affected: trashedIds.length };
+  }
+
+  /**
+   * Deletes the user's tasks as part of the caller's transaction, right before the user itself is
+   * deleted: they go to the trash (with their subtasks) and lose their owner, who has to be
+   * replaced to restore them. Returns the ids of the trashed tasks for cache invalidation.
+   */
+  async trashOwnedBy(manager: EntityManager, userId: string, actorId?: string): Promise<string[]> {
+    const tasks = await manager.findBy(Task, { userId });
+    return this.trashInTransaction(manager, tasks, actorId, TaskActivitySource.API);
+  }
+
+  // Trashed tasks the viewer owns, created or deleted; with canManage all of the organization's
+  async findTrash(
+    { page = 1, limit = 10 }: PaginationQueryDto,
+    viewerId: string,
+    canManage: boolean,
+  ): Promise<PaginatedResponse<Task>> {
+    const query = this.tasksRepository
+      .createQueryBuilder('task')
+      .withDeleted()
+      .leftJoin('task.deletedBy', 'deletedBy')
+      .addSelect(['deletedBy.id', 'deletedBy.name'])
+      .where('task.deletedAt IS NOT NULL')
+      .orderBy('task.deletedAt', 'DESC')
+      .addOrderBy('task.id', 'ASC');
+    this.tenantContext.scopeQuery(query, 'task.organizationId');
+
+    if (!canManage) {
+      query.andWhere(
+        '(task.userId = :viewerId OR task.createdById = :viewerId OR task.deletedById = :viewerId)',
+        { viewerId },
+      );
+    }
+
+    const [data, total] = await query
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * Takes the task out of the trash along with the subtasks that were trashed with it. Its
+   * parent has to be restored first. Tasks whose owner has been deleted in the meantime go to
+   * newOwnerId, which is then required.
+   */
+  async restore(
+    id: string,
+    actorId: string,
+    canManage: boolean,
+    newOwnerId?: string,
+  ): Promise<Task> {
+    const restored = await this.tasksRepository.manager.transaction(async manager => {
+      const task = await this.findTrashed(manager, id);
+      if (!canManage && ![task.userId, task.createdById, task.deletedById].includes(actorId)) {
+        throw new ForbiddenException(
+          'Only the owner, the creator or whoever deleted the task can restore it',
+        );
+      }
+      if (task.parentId && !(await manager.exists(Task, { where: { id: task.parentId } }))) {
+        throw new ConflictException(
+          `Parent task ${task.parentId} is in the trash; restore it first`,
+        );
+      }
+
+      const tasks = await manager.find(Task, {
+        where: { id: In([id, ...(await this.findTrashedWith(manager, id))]) },
+        withDeleted: true,
+      });
+      const ownerless = tasks.filter(trashed => !trashed.userId);
+      if (ownerless.length && !newOwnerId) {
+        throw new BadRequestException("The task's owner has been deleted; a new owner is required");
+      }
+      const owner = ownerless.length ? await this.resolveOwner(manager, newOwnerId) : null;
+
+      const ids = tasks.map(trashed => trashed.id);
+      await manager.update(Task, { id: In(ids) }, { deletedAt: null, deletedById: null });
+      if (owner) {
+        await manager.update(
+          Task,
+          { id: In(ownerless.map(trashed => trashed.id)) },
+          { userId: owner.id },
+        );
+      }
+      await this.taskActivityService.record(
+        manager,
+        tasks.map(trashed => ({
+          task: trashed,
+          action: TaskActivityAction.RESTORED,
+          source: TaskActivitySource.API,
+          actorId,
+          changes: owner && !trashed.userId ? { userId: { from: null, to: owner.id } } : undefined,
+        })),
+      );
+      return { ids, parentId: task.parentId };
+    });
+
+    await this.invalidateTaskCache([
+      ...restored.ids,
+      ...(restored.parentId ? [restored.parentId] : []),
+      ...(await this.findDependentIds(restored.ids)),
+    ]);
+    return this.findOne(id);
+  }
+
+  // Permanently deletes a trashed task and the subtasks that were trashed with it
+  async purge(id: string, actorId: string): Promise<void> {
+    const manager = this.tasksRepository.manager;
+    await this.findTrashed(manager, id);
+    const ids = [id, ...(await this.findTrashedWith(manager, id))];
+
+    await this.purgeTasks(ids, actorId, TaskActivitySource.API);
   }
 
+  /**
+   * Called by the scheduler: purges tasks that have been in the trash for longer than
+   * TASKS_TRASH_RETENTION_DAYS (30 by default), across organizations and in batches. Returns the
+   * number of tasks purged.
+   */
+  async purgeExpiredTrash(now = new Date()): Promise<number> {
+    const retentionDays = Number(this.configService.get('TASKS_TRASH_RETENTION_DAYS', 30));
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
 
-  async bulkDelete(taskIds: string[]): Promise<void> {
-    await this.tasksRepository.manager.transaction(async (manager) => {
-      const tasks = await manager.getRepository(Task).findBy({ id: In(taskIds) });
+    let purged = 0;
+    for (;;) {
+      const expired = await this.tasksRepository.find({
+        select: { id: true },
+        where: { deletedAt: LessThan(cutoff) },
+        withDeleted: true,
+        take: TRASH_PURGE_BATCH_SIZE,
+      });
+      if (!expired.length) {
+        return purged;
+      }
+      purged += await this.purgeTasks(
+        expired.map(task => task.id),
+        undefined,
+        TaskActivitySource.JOB,
+      );
+    }
+  }
+
+  private async trashInTransaction(
+    manager: EntityManager,
+    tasks: Task[],
+    actorId: string | undefined,
+    source: TaskActivitySource,
+  ): Promise<string[]> {
+    if (!tasks.length) {
+      return [];
+    }
+
+    const rootIds = new Set(tasks.map(task => task.id));
+    const descendantIds = (await this.findLiveDescendantIds(manager, [...rootIds])).filter(
+      id => !rootIds.has(id),
+    );
+    const trashed = [
+      ...tasks,
+      ...(descendantIds.length ? await manager.findBy(Task, { id: In(descendantIds) }) : []),
+    ];
+    const ids = trashed.map(task => task.id);
+
+    // One timestamp for the whole batch, so the subtasks can be restored along with their parent
+    await manager.update(
+      Task,
+      { id: In(ids), deletedAt: IsNull() },
+      { deletedAt: new Date(), deletedById: actorId ?? null },
+    );
+    await this.taskActivityService.record(
+      manager,
+      trashed.map(task => ({
+        task,
+        action: TaskActivityAction.DELETED,
+        source,
+        actorId,
+        changes: diffSnapshots(snapshotTask(task), {}),
+      })),
+    );
+    return ids;
+  }
 
+  // The attachment blobs are removed in the background once the rows are gone
+  private async purgeTasks(
+    ids: string[],
+    actorId: string | undefined,
+    source: TaskActivitySource,
+  ): Promise<number> {
+    const storageKeys = await this.findAttachmentKeys(ids);
+    const purged = await this.tasksRepository.manager.transaction(async manager => {
+      const tasks = await manager.find(Task, {
+        where: { id: In(ids), deletedAt: Not(IsNull()) },
+        withDeleted: true,
+      });
       if (!tasks.length) {
         return 0;
       }
 
-      // 2. Delete them
-      await manager.getRepository(Task).remove(tasks);
+      await this.taskActivityService.record(
+        manager,
+        tasks.map(task => ({ task, action: TaskActivityAction.PURGED, source, actorId })),
+      );
+      await manager.delete(Task, { id: In(tasks.map(task => task.id)) });
+      return tasks.length;
+    });
+
+    await this.queueAttachmentCleanup(storageKeys);
+    return purged;
+  }
+
+  /**
+   * Locks those of the tasks that have an expected version and fails with 412 if any of them has
+   * changed since. Missing tasks are left to the caller.
+   */
+  private async assertVersions(
+    manager: EntityManager,
+    ids: string[],
+    versions: Record<string, number> = {},
+  ) {
+    const checked = [...new Set(ids)].filter(id => versions[id] !== undefined);
+    if (!checked.length) {
+      return;
+    }
+
+    const tasks = await manager.find(Task, {
+      select: { id: true, version: true },
+      where: this.tenantContext.scope({ id: In(checked) }),
+      order: { id: 'ASC' },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const stale = tasks.filter(task => task.version !== versions[task.id]).map(task => task.id);
+    if (stale.length) {
+      throw new PreconditionFailedException(
+        `Tasks have been changed since the expected version: ${stale.join(', ')}`,
+      );
+    }
+  }
+
+  private async findTrashed(manager: EntityManager, id: string): Promise<Task> {
+    const task = await manager.findOne(Task, {
+      where: this.tenantContext.scope({ id, deletedAt: Not(IsNull()) }),
+      withDeleted: true,
+    });
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${id} not found in the trash`);
+    }
+    return task;
+  }
+
+  // Subtasks at any depth that aren't in the trash
+  private async findLiveDescendantIds(manager: EntityManager, parentIds: string[]) {
+    const rows: Array<{ id: string }> = await manager.query(
+      `
+        WITH RECURSIVE descendants AS (
+          SELECT id FROM tasks WHERE parent_id = ANY($1) AND deleted_at IS NULL
+          UNION
+          SELECT t.id FROM tasks t JOIN descendants d ON t.parent_id = d.id
+          WHERE t.deleted_at IS NULL
+        )
+        SELECT id FROM descendants
+      `,
+      [parentIds],
+    );
+    return rows.map(row => row.id);
+  }
+
+  // Subtasks at any depth that went to the trash in the same batch as the task
+  private async findTrashedWith(manager: EntityManager, id: string) {
+    const rows: Array<{ id: string }> = await manager.query(
+      `
+        WITH RECURSIVE descendants AS (
+          SELECT t.id, t.deleted_at FROM tasks t
+          JOIN tasks root ON t.parent_id = root.id AND t.deleted_at = root.deleted_at
+          WHERE root.id = $1
+          UNION
+          SELECT t.id, t.deleted_at FROM tasks t
+          JOIN descendants d ON t.parent_id = d.id AND t.deleted_at = d.deleted_at
+        )
+        SELECT id FROM descendants
+      `,
+      [id],
+    );
+    return rows.map(row => row.id);
+  }
+
+  private async findAttachmentKeys(
+    taskIds: string[],
+    manager = this.tasksRepository.manager,
+  ): Promise<string[]> {
+    const attachments = await manager.find(Attachment, {
+      select: { storageKey: true },
+      where: { taskId: In(taskIds) },
+    });
+    return attachments.map(attachment => attachment.storageKey);
+  }
+
+  // The rows went with their tasks (ON DELETE CASCADE)
+  private async queueAttachmentCleanup(storageKeys: string[]) {
+    if (!storageKeys.length) {
+      return;
+    }
+
+    try {
+      await this.taskQueue.add(
+        ATTACHMENT_CLEANUP_JOB,
+        { storageKeys },
+        { attempts: 5, backoff: { type: 'exponential', delay: 5000 } },
+      );
+    } catch (queueError) {
+      this.logger.error(
+        `Failed to enqueue cleanup of attachment blobs ${storageKeys.join(', ')}`,
+        queueError instanceof Error ? queueError.stack : String(queueError),
+      );
+    }
+  }
+
+  async addLabels(id: string, labelIds: string[]): Promise<Label[]> {
+    const labels = await this.tasksRepository.manager.transaction(async manager => {
+      const task = await manager.findOne(Task, {
+        where: this.tenantContext.scope({ id }),
+        relations: ['labels'],
+      });
+
+      if (!task) {
+        throw new NotFoundException(`Task with ID ${id} not found`);
+      }
+
+      const attached = new Set(task.labels.map(label => label.id));
+      const added = await this.resolveLabels(
+        manager,
+        labelIds.filter(labelId => !attached.has(labelId)),
+        task.userId,
+      );
+      task.labels = [...task.labels, ...added];
+      await manager.save(task);
+
+      return task.labels;
+    });
+
+    await this.invalidateTaskCache([id]);
+    return labels;
+  }
+
+  async removeLabel(id: string, labelId: string): Promise<void> {
+    const attached = await this.tasksRepository.exists({
+      where: this.tenantContext.scope({ id, labels: { id: labelId } }),
+    });
+
+    if (!attached) {
+      throw new NotFoundException(`Label ${labelId} is not attached to this task`);
+    }
+
+    await this.tasksRepository.createQueryBuilder().relation(Task, 'labels').of(id).remove(labelId);
+    await this.invalidateTaskCache([id]);
+  }
+
+  /**
+   * Tasks can only carry global labels or labels belonging to the task's owner.
+   */
+  private async resolveLabels(manager: EntityManager, labelIds: string[], ownerId: string) {
+    const ids = [...new Set(labelIds)];
+    if (!ids.length) {
+      return [];
+    }
 
-      return tasks;
+    const labels = await manager.find(Label, {
+      where: [
+        this.tenantContext.scope({ id: In(ids), ownerId }),
+        this.tenantContext.scope({ id: In(ids), ownerId: IsNull() }),
+      ],
     });
+    if (labels.length !== ids.length) {
+      const found = new Set(labels.map(label => label.id));
+      throw new BadRequestException(
+        `Labels not found: ${ids.filter(labelId => !found.has(labelId)).join(', ')}`,
+      );
+    }
+    return labels;
   }
 
-  async getStats() {
-  const result = await this.tasksRepository
-    .createQueryBuilder('task')
-    .select('COUNT(*)', 'total')
-    .addSelect(`SUM(CASE WHEN task.status = :completed THEN 1 ELSE 0 END)`, 'completed')
-    .addSelect(`SUM(CASE WHEN task.status = :inProgress THEN 1 ELSE 0 END)`, 'inProgress')
-    .addSelect(`SUM(CASE WHEN task.status = :pending THEN 1 ELSE 0 END)`, 'pending')
-    .addSelect(`SUM(CASE WHEN task.priority = :high THEN 1 ELSE 0 END)`, 'highPriority')
-    .setParameters({
-      completed: TaskStatus.COMPLETED,
-      inProgress: TaskStatus.IN_PROGRESS,
-      pending: TaskStatus.PENDING,
-      high: TaskPriority.HIGH,
+  // The task lives in its owner's organization; the owner has to be in the current one
+  private async resolveOwner(manager: EntityManager, userId?: string): Promise<User> {
+    const owner = userId
+      ? await manager.findOne(User, { where: this.tenantContext.scope({ id: userId }) })
+      : null;
+
+    if (!owner) {
+      throw new BadRequestException(`User ${userId} not found`);
+    }
+    return owner;
+  }
+
+  /**
+   * Turns the task into the first occurrence of a new series whose template is the task as it
+   * is now. Callers make sure it isn't part of a series already.
+   */
+  async startRecurrence(
+    manager: EntityManager,
+    task: Task,
+    recurrence: TaskRecurrenceDto,
+    createdById?: string | null,
+  ): Promise<TaskRecurrence> {
+    if (!task.dueDate) {
+      throw new BadRequestException('Recurring tasks need a due date');
+    }
+    if (task.parentId) {
+      throw new BadRequestException('Subtasks cannot recur');
+    }
+    const dueDate = new Date(task.dueDate);
+    const limitError = recurrenceLimitError(recurrence, dueDate);
+    if (limitError) {
+      throw new BadRequestException(limitError);
+    }
+
+    const series = await manager.save(
+      manager.create(TaskRecurrence, {
+        organizationId: task.organizationId,
+        frequency: recurrence.frequency,
+        interval: recurrence.interval ?? 1,
+        timezone: recurrence.timezone ?? 'UTC',
+        until: recurrence.until ? new Date(recurrence.until) : null,
+        count: recurrence.count ?? null,
+        anchorDueAt: dueDate,
+        anchorIndex: 1,
+        occurrenceCount: 1,
+        currentDueAt: dueDate,
+        title: task.title,
+        description: task.description ?? null,
+        priority: task.priority,
+        userId: task.userId,
+        projectId: task.projectId ?? null,
+        createdById: createdById ?? task.createdById ?? null,
+      }),
+    );
+    await manager.update(Task, task.id, { recurrenceId: series.id, occurrenceIndex: 1 });
+    task.recurrenceId = series.id;
+    task.occurrenceIndex = 1;
+    task.version += 1;
+
+    return series;
+  }
+
+  async findSubtasks(parentId: string): Promise<Task[]> {
+    return this.tasksRepository.find({
+      where: this.tenantContext.scope({ parentId }),
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  private async findSubtaskIds(parentIds: string[]): Promise<string[]> {
+    const subtasks = await this.tasksRepository.find({
+      select: { id: true },
+      where: this.tenantContext.scope({ parentId: In(parentIds) }),
+    });
+    return subtasks.map(task => task.id);
+  }
+
+  private async findParentIds(taskIds: string[]): Promise<string[]> {
+    const tasks = await this.tasksRepository.find({
+      select: { parentId: true },
+      where: this.tenantContext.scope({ id: In(taskIds) }),
+    });
+    return [...new Set(tasks.map(task => task.parentId).filter((id): id is string => !!id))];
+  }
+
+  /**
+   * The parent must exist and, when re-parenting an existing task, must not be the task
+   * itself or one of its descendants.
+   */
+  private async assertValidParent(manager: EntityManager, parentId: string, taskId?: string) {
+    if (!(await manager.exists(Task, { where: this.tenantContext.scope({ id: parentId }) }))) {
+      throw new BadRequestException(`Parent task ${parentId} not found`);
+    }
+    if (!taskId) {
+      return;
+    }
+
+    const ancestors: Array<{ id: string }> = await manager.query(
+      `
+        WITH RECURSIVE ancestors AS (
+          SELECT id, parent_id FROM tasks WHERE id = $1
+          UNION
+          SELECT t.id, t.parent_id FROM tasks t JOIN ancestors a ON t.id = a.parent_id
+        )
+        SELECT id FROM ancestors
+      `,
+      [parentId],
+    );
+    if (ancestors.some(ancestor => ancestor.id === taskId)) {
+      throw new BadRequestException('A task cannot be nested under itself or its subtasks');
+    }
+  }
+
+  private async assertProjectExists(manager: EntityManager, projectId: string) {
+    if (!(await manager.exists(Project, { where: this.tenantContext.scope({ id: projectId }) }))) {
+      throw new BadRequestException(`Project ${projectId} not found`);
+    }
+  }
+
+  private async findDependentIds(
+    blockerIds: string[],
+    manager = this.tasksRepository.manager,
+  ): Promise<string[]> {
+    const dependencies = await manager.find(TaskDependency, {
+      select: { taskId: true },
+      where: { blockerId: In(blockerIds) },
+    });
+    return [...new Set(dependencies.map(dependency => dependency.taskId))];
+  }
+
+  private async assertCanTransition(manager: EntityManager, taskIds: string[], status: TaskStatus) {
+    if (status === TaskStatus.COMPLETED) {
+      await this.assertSubtasksClosed(manager, taskIds);
+    }
+    if (status === TaskStatus.IN_PROGRESS) {
+      await this.assertNotBlocked(manager, taskIds);
+    }
+  }
+
+  private async assertNotBlocked(manager: EntityManager, taskIds: string[]) {
+    if (!taskIds.length) {
+      return;
+    }
+
+    const blocked: Array<{ task_id: string }> = await manager.query(
+      `
+        SELECT DISTINCT d.task_id FROM task_dependencies d
+        JOIN tasks blocker ON blocker.id = d.blocker_id
+        WHERE d.task_id = ANY($1) AND blocker.status != $2 AND blocker.deleted_at IS NULL
+      `,
+      [taskIds, TaskStatus.COMPLETED],
+    );
+    if (blocked.length) {
+      throw new BadRequestException(
+        `Tasks blocked by incomplete tasks cannot be started: ${blocked
+          .map(row => row.task_id)
+          .join(', ')}`,
+      );
+    }
+  }
+
+  // Configurable via TASKS_REQUIRE_SUBTASKS_COMPLETED (on unless set to "false")
+  private async assertSubtasksClosed(manager: EntityManager, taskIds: string[]) {
+    if (
+      !taskIds.length ||
+      this.configService.get('TASKS_REQUIRE_SUBTASKS_COMPLETED', 'true') === 'false'
+    ) {
+      return;
+    }
+
+    const openSubtasks = await manager.getRepository(Task).find({
+      select: { parentId: true },
+      where: this.tenantContext.scope({
+        parentId: In(taskIds),
+        status: In([TaskStatus.PENDING, TaskStatus.IN_PROGRESS]),
+      }),
+    });
+    if (openSubtasks.length) {
+      const blocked = [...new Set(openSubtasks.map(task => task.parentId))];
+      throw new BadRequestException(
+        `Tasks with open subtasks cannot be completed: ${blocked.join(', ')}`,
+      );
+    }
+  }
+
+  // Scoped to one user's and/or one project's tasks when given, otherwise across all tasks
+  async getStats(userId?: string, projectId?: string) {
+    const tenantId = this.tenantContext.getTenantId() ?? 'all';
+    return this.cacheService.wrap(
+      `tasks:stats:${tenantId}:${userId ?? 'all'}:${projectId ?? 'all'}`,
+      () => this.queryStats(userId, projectId),
+      TASK_STATS_CACHE_TTL,
+      { tags: [TASK_STATS_CACHE_TAG] },
+    );
+  }
+
+  private async queryStats(userId?: string, projectId?: string) {
+    const query = this.tasksRepository
+      .createQueryBuilder('task')
+      .select('COUNT(*)', 'total')
+      .addSelect(`SUM(CASE WHEN task.status = :completed THEN 1 ELSE 0 END)`, 'completed')
+      .addSelect(`SUM(CASE WHEN task.status = :inProgress THEN 1 ELSE 0 END)`, 'inProgress')
+      .addSelect(`SUM(CASE WHEN task.status = :pending THEN 1 ELSE 0 END)`, 'pending')
+      .addSelect(`SUM(CASE WHEN task.priority = :high THEN 1 ELSE 0 END)`, 'highPriority')
+      .addSelect('COALESCE(SUM(task.estimate_minutes), 0)', 'estimatedMinutes')
+      .setParameters({
+        completed: TaskStatus.COMPLETED,
+        inProgress: TaskStatus.IN_PROGRESS,
+        pending: TaskStatus.PENDING,
+        high: TaskPriority.HIGH,
+      });
+
+    if (userId) {
+      query.andWhere('task.user_id = :userId', { userId });
+    }
+    if (projectId) {
+      query.andWhere('task.project_id = :projectId', { projectId });
+    }
+    this.tenantContext.scopeQuery(query, 'task.organization_id');
+
+    const labelQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .innerJoin('task.labels', 'label')
+      .select('label.id', 'id')
+      .addSelect('label.name', 'name')
+      .addSelect('label.color', 'color')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('label.id')
+      .orderBy('COUNT(*)', 'DESC')
+      .addOrderBy('label.name', 'ASC');
+
+    if (userId) {
+      labelQuery.andWhere('task.user_id = :userId', { userId });
+    }
+    if (projectId) {
+      labelQuery.andWhere('task.project_id = :projectId', { projectId });
+    }
+    this.tenantContext.scopeQuery(labelQuery, 'task.organization_id');
+
+    // Finished time only; running timers are counted once stopped
+    const timeQuery = this.tasksRepository
+      .createQueryBuilder('task')
+      .innerJoin(TimeEntry, 'entry', 'entry.task_id = task.id')
+      .select('COALESCE(SUM(entry.minutes), 0)', 'loggedMinutes');
+
+    if (userId) {
+      timeQuery.andWhere('task.user_id = :userId', { userId });
+    }
+    if (projectId) {
+      timeQuery.andWhere('task.project_id = :projectId', { projectId });
+    }
+    this.tenantContext.scopeQuery(timeQuery, 'task.organization_id');
+
+    const [result, labelCounts, time] = await Promise.all([
+      query.getRawOne(),
+      labelQuery.getRawMany(),
+      timeQuery.getRawOne(),
+    ]);
+
+    return {
+      total: Number(result.total),
+      completed: Number(result.completed),
+      inProgress: Number(result.inProgress),
+      pending: Number(result.pending),
+      highPriority: Number(result.highPriority),
+      estimatedMinutes: Number(result.estimatedMinutes),
+      loggedMinutes: Number(time.loggedMinutes),
+      labels: labelCounts.map(label => ({ ...label, count: Number(label.count) })),
+    };
+  }
+
+  private taskCacheKey(id: string): string {
+    return `tasks:item:${id}`;
+  }
+
+  // Equivalent filters (key order, defaults, empty values) share one cache entry per tenant; the
+  // viewer only counts when the result depends on them
+  private hashFilter(filter: TaskFilterDto, { viewerId, visibleOnly }: TaskListOptions): string {
+    const normalized = Object.entries({
+      ...filter,
+      tenantId: this.tenantContext.getTenantId(),
+      viewerId: filter.watching || visibleOnly ? viewerId : undefined,
+      visibleOnly: visibleOnly || undefined,
+      page: filter.page ?? 1,
+      limit: filter.limit ?? 10,
     })
-    .getRawOne();
-
-  return {
-    total: Number(result.total),
-    completed: Number(result.completed),
-    inProgress: Number(result.inProgress),
-    pending: Number(result.pending),
-    highPriority: Number(result.highPriority),
-  };
-}
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    return crypto.createHash('sha1').update(JSON.stringify(normalized)).digest('hex');
+  }
 
+  // Also called by services that change what a cached task embeds (e.g. its comment count)
+  async invalidateTaskCache(ids: string[]) {
+    await Promise.all([
+      this.cacheService.invalidateTags([TASK_LIST_CACHE_TAG, TASK_STATS_CACHE_TAG]),
+      ...ids.map(id => this.cacheService.delete(this.taskCacheKey(id))),
+    ]);
+  }
 }
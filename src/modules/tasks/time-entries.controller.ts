@@ -0,0 +1,44 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TimeEntriesService } from './time-entries.service';
+import { TimeReportQueryDto } from './dto/time-report-query.dto';
+import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { JwtAuthGuard } from '@modules/auth/guards/jwt-auth.guard';
+import { CurrentUser } from '@modules/auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '@modules/auth/strategies/jwt.strategy';
+import { RequireScopes } from '@modules/auth/decorators/require-scopes.decorator';
+import { TokenScope } from '@modules/auth/enums/token-scope.enum';
+import { PermissionsGuard } from '@modules/roles/guards/permissions.guard';
+import { RequirePermissions } from '@modules/roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '@modules/roles/enums/permission-key.enum';
+import { hasPermission } from '@modules/roles/permissions.util';
+
+// Time across tasks; per-task entries and timers live under /tasks/:id/time-entries
+@ApiTags('time-entries')
+@Controller('time-entries')
+@UseGuards(JwtAuthGuard, RateLimitGuard, PermissionsGuard)
+@RateLimit({ limit: 100, windowMs: 60000 })
+@ApiBearerAuth()
+export class TimeEntriesController {
+  constructor(private readonly timeEntriesService: TimeEntriesService) {}
+
+  @Get('timer')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'Get your running timer, if any' })
+  async getRunningTimer(@CurrentUser() user: AuthenticatedUser) {
+    return (await this.timeEntriesService.findRunningTimer(user.id)) ?? null;
+  }
+
+  @Get('report')
+  @RequireScopes(TokenScope.TASKS_READ)
+  @RequirePermissions(PermissionKey.TASKS_READ)
+  @ApiOperation({ summary: 'Time logged per user and week' })
+  getReport(@CurrentUser() user: AuthenticatedUser, @Query() query: TimeReportQueryDto) {
+    return this.timeEntriesService.getReport({
+      ...query,
+      userId: hasPermission(user, PermissionKey.TASKS_MANAGE) ? query.userId : user.id,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { ConflictException } from '@nestjs/common';
+import { QueryFailedError, Repository } from 'typeorm';
+import { TimeEntriesService } from './time-entries.service';
+import { TasksService } from './tasks.service';
+import { TimeEntry } from './entities/time-entry.entity';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+function queryError(code: string) {
+  return new QueryFailedError(
+    'INSERT INTO "time_entries"',
+    [],
+    Object.assign(new Error(), { code }),
+  );
+}
+
+describe('TimeEntriesService', () => {
+  let timeEntriesRepository: { findOne: jest.Mock; create: jest.Mock; save: jest.Mock };
+  let service: TimeEntriesService;
+
+  beforeEach(() => {
+    timeEntriesRepository = {
+      findOne: jest.fn(async () => null),
+      create: jest.fn(fields => Object.assign(new TimeEntry(), fields)),
+      save: jest.fn(async entry => ({ id: 'entry-1', ...entry })),
+    };
+    service = new TimeEntriesService(
+      timeEntriesRepository as unknown as Repository<TimeEntry>,
+      {} as TasksService,
+      {} as TenantContext,
+    );
+  });
+
+  describe('startTimer', () => {
+    it('starts a timer when none is running', async () => {
+      await expect(service.startTimer('task-1', 'user-1')).resolves.toMatchObject({
+        id: 'entry-1',
+        taskId: 'task-1',
+        userId: 'user-1',
+      });
+    });
+
+    it('refuses while another timer is running', async () => {
+      timeEntriesRepository.findOne.mockResolvedValue(
+        Object.assign(new TimeEntry(), { taskId: 'task-2' }),
+      );
+
+      await expect(service.startTimer('task-1', 'user-1')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(timeEntriesRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('reports a concurrent start caught by the unique index as a conflict', async () => {
+      timeEntriesRepository.save.mockRejectedValue(queryError('23505'));
+
+      await expect(service.startTimer('task-1', 'user-1')).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+
+    it('passes other database errors on', async () => {
+      const failure = queryError('23503');
+      timeEntriesRepository.save.mockRejectedValue(failure);
+
+      await expect(service.startTimer('task-1', 'user-1')).rejects.toBe(failure);
+    });
+  });
+});
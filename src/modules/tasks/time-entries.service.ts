@@ -0,0 +1,235 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, QueryFailedError, Repository } from 'typeorm';
+import { TimeEntry } from './entities/time-entry.entity';
+import { Task } from './entities/task.entity';
+import { CreateTimeEntryDto } from './dto/create-time-entry.dto';
+import { TimeReportQueryDto } from './dto/time-report-query.dto';
+import { TasksService } from './tasks.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+const MINUTE_MS = 60 * 1000;
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof QueryFailedError &&
+    (error.driverError as { code?: string } | undefined)?.code === '23505'
+  );
+}
+
+export interface TimeReportUser {
+  userId: string;
+  name: string;
+  totalMinutes: number;
+  // Weeks start on Monday (UTC); weeks without any time are left out
+  weeks: Array<{ weekStart: string; minutes: number }>;
+}
+
+// Logged minutes feed the task's cached row and the stats, so changes to them invalidate both
+@Injectable()
+export class TimeEntriesService {
+  constructor(
+    @InjectRepository(TimeEntry)
+    private timeEntriesRepository: Repository<TimeEntry>,
+    private tasksService: TasksService,
+    private tenantContext: TenantContext,
+  ) {}
+
+  findForTask(taskId: string): Promise<TimeEntry[]> {
+    return this.timeEntriesRepository.find({
+      where: { taskId },
+      relations: ['user'],
+      select: { user: { id: true, name: true } },
+      order: { startedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Finished time on the task, in total and per user, next to its estimate.
+   */
+  async getTaskTotals(taskId: string) {
+    const [task, rows] = await Promise.all([
+      this.timeEntriesRepository.manager.findOne(Task, {
+        select: { id: true, estimateMinutes: true },
+        where: { id: taskId },
+      }),
+      this.timeEntriesRepository
+        .createQueryBuilder('entry')
+        .innerJoin('entry.user', 'user')
+        .select('user.id', 'userId')
+        .addSelect('user.name', 'name')
+        .addSelect('SUM(entry.minutes)', 'minutes')
+        .where('entry.taskId = :taskId', { taskId })
+        .andWhere('entry.minutes IS NOT NULL')
+        .groupBy('user.id')
+        .orderBy('SUM(entry.minutes)', 'DESC')
+        .getRawMany(),
+    ]);
+
+    if (!task) {
+      throw new NotFoundException(`Task with ID ${taskId} not found`);
+    }
+
+    const byUser = rows.map(row => ({ ...row, minutes: Number(row.minutes) }));
+    return {
+      estimateMinutes: task.estimateMinutes,
+      loggedMinutes: byUser.reduce((sum, row) => sum + row.minutes, 0),
+      byUser,
+    };
+  }
+
+  // The user's running timer, on whichever task; null when none is running
+  findRunningTimer(userId: string): Promise<TimeEntry | null> {
+    return this.timeEntriesRepository.findOne({
+      where: { userId, endedAt: IsNull() },
+      relations: ['task'],
+      select: { task: { id: true, title: true } },
+    });
+  }
+
+  async startTimer(taskId: string, userId: string, note?: string): Promise<TimeEntry> {
+    // The partial unique index on running entries backs this check up under concurrent starts
+    const running = await this.findRunningTimer(userId);
+    if (running) {
+      throw new ConflictException(
+        `A timer is already running on task ${running.taskId}; stop it first`,
+      );
+    }
+
+    try {
+      return await this.timeEntriesRepository.save(
+        this.timeEntriesRepository.create({
+          taskId,
+          userId,
+          startedAt: new Date(),
+          note: note ?? null,
+        }),
+      );
+    } catch (error) {
+      // A concurrent start got past the check first
+      if (isUniqueViolation(error)) {
+        throw new ConflictException('A timer is already running; stop it first');
+      }
+      throw error;
+    }
+  }
+
+  async stopTimer(taskId: string, userId: string): Promise<TimeEntry> {
+    const running = await this.timeEntriesRepository.findOneBy({
+      taskId,
+      userId,
+      endedAt: IsNull(),
+    });
+    if (!running) {
+      throw new NotFoundException('No timer is running on this task');
+    }
+
+    running.endedAt = new Date();
+    running.minutes = Math.round(
+      (running.endedAt.getTime() - running.startedAt.getTime()) / MINUTE_MS,
+    );
+
+    const saved = await this.timeEntriesRepository.save(running);
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return saved;
+  }
+
+  async create(
+    taskId: string,
+    userId: string,
+    createEntryDto: CreateTimeEntryDto,
+  ): Promise<TimeEntry> {
+    const { minutes, note } = createEntryDto;
+    const startedAt = createEntryDto.startedAt
+      ? new Date(createEntryDto.startedAt)
+      : new Date(Date.now() - minutes * MINUTE_MS);
+
+    const saved = await this.timeEntriesRepository.save(
+      this.timeEntriesRepository.create({
+        taskId,
+        userId,
+        startedAt,
+        endedAt: new Date(startedAt.getTime() + minutes * MINUTE_MS),
+        minutes,
+        manual: true,
+        note: note ?? null,
+      }),
+    );
+    await this.tasksService.invalidateTaskCache([taskId]);
+    return saved;
+  }
+
+  async remove(taskId: string, entryId: string, userId: string, canManage: boolean) {
+    const entry = await this.timeEntriesRepository.findOneBy({ id: entryId, taskId });
+
+    if (!entry) {
+      throw new NotFoundException(`Time entry with ID ${entryId} not found`);
+    }
+    if (entry.userId !== userId && !canManage) {
+      throw new ForbiddenException('You can only delete your own time entries');
+    }
+
+    await this.timeEntriesRepository.remove(entry);
+    await this.tasksService.invalidateTaskCache([taskId]);
+  }
+
+  /**
+   * Finished time per user and week within the organization, busiest users first.
+   */
+  async getReport(query: TimeReportQueryDto): Promise<TimeReportUser[]> {
+    // started_at has no zone and holds UTC; reading it as UTC and back keeps the truncation on
+    // the UTC clock whatever the session's TimeZone is
+    const weekStart = `TO_CHAR(
+      DATE_TRUNC('week', (entry.startedAt AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'),
+      'YYYY-MM-DD'
+    )`;
+    const report = this.timeEntriesRepository
+      .createQueryBuilder('entry')
+      .innerJoin('entry.task', 'task')
+      .innerJoin('entry.user', 'user')
+      .select('user.id', 'userId')
+      .addSelect('user.name', 'name')
+      .addSelect(weekStart, 'weekStart')
+      .addSelect('SUM(entry.minutes)', 'minutes')
+      .where('entry.minutes IS NOT NULL')
+      .groupBy('user.id')
+      .addGroupBy(weekStart)
+      .orderBy(weekStart, 'ASC');
+
+    if (query.from) {
+      report.andWhere('entry.startedAt >= :from', { from: new Date(query.from) });
+    }
+    if (query.to) {
+      report.andWhere('entry.startedAt < :to', { to: new Date(query.to) });
+    }
+    if (query.userId) {
+      report.andWhere('entry.userId = :userId', { userId: query.userId });
+    }
+    if (query.projectId) {
+      report.andWhere('task.projectId = :projectId', { projectId: query.projectId });
+    }
+    this.tenantContext.scopeQuery(report, 'task.organizationId');
+
+    const rows: Array<{ userId: string; name: string; weekStart: string; minutes: string }> =
+      await report.getRawMany();
+
+    const users = new Map<string, TimeReportUser>();
+    for (const row of rows) {
+      const user = users.get(row.userId) ?? {
+        userId: row.userId,
+        name: row.name,
+        totalMinutes: 0,
+        weeks: [],
+      };
+      user.totalMinutes += Number(row.minutes);
+      user.weeks.push({ weekStart: row.weekStart, minutes: Number(row.minutes) });
+      users.set(row.userId, user);
+    }
+    return [...users.values()].sort((a, b) => b.totalMinutes - a.totalMinutes);
+  }
+}
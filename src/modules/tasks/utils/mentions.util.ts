@@ -0,0 +1,28 @@
+// "@jane@example.com" or "@JaneDoe"; a mention has to start a word so plain emails aren't picked up
+const MENTION_PATTERN =
+  /(?:^|[^\w@.])@([A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}|[A-Za-z0-9._-]+)/g;
+
+export interface ParsedMentions {
+  emails: string[];
+  handles: string[];
+}
+
+/**
+ * Extracts mentions from a comment body, lowercased and de-duplicated. Handles are
+ * matched against user names with whitespace removed.
+ */
+export function parseMentions(body: string): ParsedMentions {
+  const emails = new Set<string>();
+  const handles = new Set<string>();
+
+  for (const [, raw] of body.matchAll(MENTION_PATTERN)) {
+    // Sentence punctuation directly after a mention isn't part of it
+    const mention = raw.replace(/[._-]+$/, '').toLowerCase();
+    if (!mention) {
+      continue;
+    }
+    (mention.includes('@') ? emails : handles).add(mention);
+  }
+
+  return { emails: [...emails], handles: [...handles] };
+}
@@ -0,0 +1,150 @@
+import { RecurrenceFrequency } from '../enums/recurrence-frequency.enum';
+import { occurrenceDueDate, recurrenceLimitError, RecurrenceSchedule } from './recurrence.util';
+
+const { DAILY, WEEKLY, MONTHLY } = RecurrenceFrequency;
+
+function schedule(
+  frequency: RecurrenceFrequency,
+  anchorDueAt: string,
+  overrides: Partial<RecurrenceSchedule> = {},
+): RecurrenceSchedule {
+  return {
+    frequency,
+    interval: 1,
+    timezone: 'UTC',
+    anchorDueAt: new Date(anchorDueAt),
+    anchorIndex: 1,
+    ...overrides,
+  };
+}
+
+describe('occurrenceDueDate', () => {
+  it.each([
+    ['the anchor itself', schedule(DAILY, '2024-01-10T09:00:00Z'), 1, '2024-01-10T09:00:00.000Z'],
+    ['daily steps', schedule(DAILY, '2024-01-10T09:00:00Z'), 3, '2024-01-12T09:00:00.000Z'],
+    [
+      'daily steps with an interval',
+      schedule(DAILY, '2024-01-10T09:00:00Z', { interval: 2 }),
+      3,
+      '2024-01-14T09:00:00.000Z',
+    ],
+    [
+      'daily steps across a month end',
+      schedule(DAILY, '2024-01-30T09:00:00Z'),
+      4,
+      '2024-02-02T09:00:00.000Z',
+    ],
+    ['weekly steps', schedule(WEEKLY, '2024-01-10T09:00:00Z'), 2, '2024-01-17T09:00:00.000Z'],
+    [
+      'weekly steps with an interval',
+      schedule(WEEKLY, '2024-01-10T09:00:00Z', { interval: 3 }),
+      3,
+      '2024-02-21T09:00:00.000Z',
+    ],
+    [
+      'occurrences before a later anchor',
+      schedule(WEEKLY, '2024-01-24T09:00:00Z', { anchorIndex: 4 }),
+      1,
+      '2024-01-03T09:00:00.000Z',
+    ],
+    ['monthly steps', schedule(MONTHLY, '2024-01-15T09:00:00Z'), 2, '2024-02-15T09:00:00.000Z'],
+    [
+      'monthly steps across a year end',
+      schedule(MONTHLY, '2024-11-15T09:00:00Z', { interval: 2 }),
+      2,
+      '2025-01-15T09:00:00.000Z',
+    ],
+  ])('counts %s', (_name, series, index, expected) => {
+    expect(occurrenceDueDate(series, index).toISOString()).toBe(expected);
+  });
+
+  describe('month ends', () => {
+    const endOfMonth = schedule(MONTHLY, '2024-01-31T09:00:00Z');
+
+    it.each([
+      ['a leap February', endOfMonth, 2, '2024-02-29T09:00:00.000Z'],
+      ['a long month after February', endOfMonth, 3, '2024-03-31T09:00:00.000Z'],
+      ['a 30-day month', endOfMonth, 4, '2024-04-30T09:00:00.000Z'],
+      ['a common February', endOfMonth, 14, '2025-02-28T09:00:00.000Z'],
+      [
+        'an interval landing on February',
+        schedule(MONTHLY, '2024-11-30T09:00:00Z', { interval: 3 }),
+        2,
+        '2025-02-28T09:00:00.000Z',
+      ],
+      [
+        'the month after a clamped one',
+        schedule(MONTHLY, '2024-11-30T09:00:00Z', { interval: 3 }),
+        3,
+        '2025-05-30T09:00:00.000Z',
+      ],
+    ])('clamps the day to %s', (_name, series, index, expected) => {
+      expect(occurrenceDueDate(series, index).toISOString()).toBe(expected);
+    });
+  });
+
+  describe('DST boundaries', () => {
+    it.each([
+      [
+        'a weekly series into summer time',
+        // 09:00 EST, then 09:00 EDT
+        schedule(WEEKLY, '2024-03-04T14:00:00Z', { timezone: 'America/New_York' }),
+        2,
+        '2024-03-11T13:00:00.000Z',
+      ],
+      [
+        'a daily series out of summer time',
+        // 09:00 CEST, then 09:00 CET
+        schedule(DAILY, '2024-10-26T07:00:00Z', { timezone: 'Europe/Berlin' }),
+        2,
+        '2024-10-27T08:00:00.000Z',
+      ],
+      [
+        'a monthly series across both switches',
+        schedule(MONTHLY, '2024-01-15T08:00:00Z', { timezone: 'Europe/Berlin' }),
+        7,
+        '2024-07-15T07:00:00.000Z',
+      ],
+      [
+        'a southern hemisphere series',
+        // 09:00 AEDT, then 09:00 AEST
+        schedule(WEEKLY, '2024-04-01T22:00:00Z', { timezone: 'Australia/Sydney' }),
+        2,
+        '2024-04-08T23:00:00.000Z',
+      ],
+      [
+        'a time skipped by the switch, moved forward by the gap',
+        // 02:30 EST, then 02:30 doesn't exist and 03:30 EDT follows 01:59 EST
+        schedule(DAILY, '2024-03-09T07:30:00Z', { timezone: 'America/New_York' }),
+        2,
+        '2024-03-10T07:30:00.000Z',
+      ],
+      [
+        'a time repeated by the switch, taking its first occurrence',
+        // 01:30 EDT, then 01:30 EDT again rather than 01:30 EST
+        schedule(DAILY, '2024-11-02T05:30:00Z', { timezone: 'America/New_York' }),
+        2,
+        '2024-11-03T05:30:00.000Z',
+      ],
+    ])('keeps the wall clock time of %s', (_name, series, index, expected) => {
+      expect(occurrenceDueDate(series, index).toISOString()).toBe(expected);
+    });
+  });
+});
+
+describe('recurrenceLimitError', () => {
+  const anchorDueAt = new Date('2024-01-10T09:00:00Z');
+
+  it.each([
+    [{}, null],
+    [{ count: 5 }, null],
+    [{ until: '2024-01-10T09:00:00Z' }, null],
+    [
+      { until: '2024-02-01', count: 5 },
+      'A recurrence ends either at a date or after a number of occurrences, not both',
+    ],
+    [{ until: '2024-01-09' }, 'A recurrence cannot end before its first due date'],
+  ])('checks %p', (limits, expected) => {
+    expect(recurrenceLimitError(limits, anchorDueAt)).toBe(expected);
+  });
+});
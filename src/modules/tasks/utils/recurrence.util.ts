@@ -0,0 +1,136 @@
+import { RecurrenceFrequency } from '../enums/recurrence-frequency.enum';
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  timezone: string;
+  anchorDueAt: Date;
+  anchorIndex: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function toWallClock(date: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const clock = toWallClock(new Date(instant), timeZone);
+  const asUtc = Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second,
+  );
+  return asUtc - (instant - (instant % 1000));
+}
+
+function fromWallClock(clock: WallClock, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second,
+  );
+  // A DST switch puts two offsets near the time: a repeated time fits both and takes the earlier
+  // instant, a skipped one fits neither and keeps the offset from before, moving it forward
+  const before = asUtc - zoneOffset(asUtc - DAY_MS, timeZone);
+  const after = asUtc - zoneOffset(asUtc + DAY_MS, timeZone);
+  const fits = (instant: number) => {
+    const local = toWallClock(new Date(instant), timeZone);
+    return local.hour === clock.hour && local.minute === clock.minute;
+  };
+
+  if (fits(before) && fits(after)) {
+    return new Date(Math.min(before, after));
+  }
+  return new Date(fits(after) ? after : before);
+}
+
+/**
+ * Due date of the index-th occurrence (1-based) of a schedule, counted from its anchor
+ * occurrence. Steps are taken on the wall clock of the schedule's timezone, so a weekly 9:00 task
+ * stays at 9:00 across DST changes; a time the change skips moves forward by the gap and a repeated
+ * one takes its first occurrence. Monthly schedules fall back to the last day of shorter months
+ * (a series anchored on the 31st is due on Feb 28/29) without drifting afterwards.
+ */
+export function occurrenceDueDate(schedule: RecurrenceSchedule, index: number): Date {
+  const steps = (index - schedule.anchorIndex) * schedule.interval;
+  const anchor = toWallClock(schedule.anchorDueAt, schedule.timezone);
+
+  switch (schedule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return fromWallClock({ ...anchor, day: anchor.day + steps }, schedule.timezone);
+
+    case RecurrenceFrequency.WEEKLY:
+      return fromWallClock({ ...anchor, day: anchor.day + 7 * steps }, schedule.timezone);
+
+    case RecurrenceFrequency.MONTHLY: {
+      const month = new Date(Date.UTC(anchor.year, anchor.month - 1 + steps, 1));
+      const daysInMonth = new Date(
+        Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0),
+      ).getUTCDate();
+
+      return fromWallClock(
+        {
+          ...anchor,
+          year: month.getUTCFullYear(),
+          month: month.getUTCMonth() + 1,
+          day: Math.min(anchor.day, daysInMonth),
+        },
+        schedule.timezone,
+      );
+    }
+  }
+}
+
+/**
+ * Why the until/count limits can't be used with a series anchored at the given due date, or null
+ * when they can.
+ */
+export function recurrenceLimitError(
+  limits: { until?: string | Date | null; count?: number | null },
+  anchorDueAt: Date,
+): string | null {
+  if (limits.until && limits.count) {
+    return 'A recurrence ends either at a date or after a number of occurrences, not both';
+  }
+  if (limits.until && new Date(limits.until) < anchorDueAt) {
+    return 'A recurrence cannot end before its first due date';
+  }
+  return null;
+}
@@ -0,0 +1,65 @@
+import { Task } from '../entities/task.entity';
+
+export type TaskChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Fields recorded in the task history; labels are tracked as a sorted list of ids
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'estimateMinutes',
+  'userId',
+  'projectId',
+  'parentId',
+] as const;
+
+export type TaskSnapshot = Record<string, unknown>;
+
+/**
+ * The tracked fields of a task as plain JSON values. Labels are only included when they're loaded,
+ * so they're compared only when both snapshots have them.
+ */
+export function snapshotTask(task: Partial<Task>): TaskSnapshot {
+  const snapshot: TaskSnapshot = {};
+  for (const field of TRACKED_FIELDS) {
+    snapshot[field] = normalize(field, task[field]);
+  }
+  if (task.labels) {
+    snapshot.labelIds = task.labels.map(label => label.id).sort();
+  }
+  return snapshot;
+}
+
+/**
+ * Fields whose value differs between the snapshots. Pass an empty "before" for a new task and an
+ * empty "after" for a deleted one.
+ */
+export function diffSnapshots(before: TaskSnapshot, after: TaskSnapshot): TaskChanges {
+  const changes: TaskChanges = {};
+  const bothSides = Object.keys(before).length && Object.keys(after).length;
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (field === 'labelIds' && bothSides && !(field in before && field in after)) {
+      continue;
+    }
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+function normalize(field: string, value: unknown): unknown {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  // Dates come back from the database as Date, but are merged in from DTOs as strings
+  if (value instanceof Date || (field === 'dueDate' && typeof value === 'string')) {
+    return new Date(value as Date | string).toISOString();
+  }
+  return value;
+}
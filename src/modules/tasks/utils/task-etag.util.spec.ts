@@ -0,0 +1,62 @@
+import { Task } from '../entities/task.entity';
+import { Label } from '../../labels/entities/label.entity';
+import { etagMatches, taskEtag } from './task-etag.util';
+
+function createTask(overrides: Partial<Task> = {}): Task {
+  return Object.assign(new Task(), {
+    id: 'task-1',
+    title: 'Write specs',
+    version: 3,
+    labels: [],
+    ...overrides,
+  });
+}
+
+const label = (id: string, name: string) => Object.assign(new Label(), { id, name });
+
+describe('taskEtag', () => {
+  it('is a strong tag led by the version', () => {
+    expect(taskEtag(createTask())).toMatch(/^"3-[\w-]{16}"$/);
+  });
+
+  it('is stable for the same task', () => {
+    expect(taskEtag(createTask())).toBe(taskEtag(createTask()));
+  });
+
+  it('ignores the order related lists are loaded in', () => {
+    const urgent = label('label-1', 'urgent');
+    const home = label('label-2', 'home');
+
+    expect(taskEtag(createTask({ labels: [urgent, home] }))).toBe(
+      taskEtag(createTask({ labels: [home, urgent] })),
+    );
+  });
+
+  it.each([
+    ['a field of the row', { title: 'Write more specs' }],
+    ['a related list', { labels: [label('label-1', 'urgent')] }],
+    ['an embedded rollup', { subtaskProgress: 50 }],
+  ])('changes with %s at the same version', (_name, change) => {
+    expect(taskEtag(createTask(change as Partial<Task>))).not.toBe(taskEtag(createTask()));
+  });
+});
+
+describe('etagMatches', () => {
+  const etag = '"3-abc"';
+
+  it.each([
+    ['the same tag', '"3-abc"', true, true],
+    ['another tag', '"2-abc"', false, false],
+    ['a wildcard', '*', true, true],
+    ['a weak tag', 'W/"3-abc"', false, true],
+    ['a weak tag of another version', 'W/"2-abc"', false, false],
+    ['a list containing the tag', '"1-xyz", "3-abc"', true, true],
+    ['a list without spaces', '"1-xyz","3-abc"', true, true],
+    ['a list containing the weak tag', '"1-xyz", W/"3-abc"', false, true],
+    ['a list without the tag', '"1-xyz", "2-abc"', false, false],
+    ['an empty header', '', false, false],
+  ])('matches %s: strongly %p, weakly %p', (_name, header, strong, weak) => {
+    expect(etagMatches(header, etag)).toBe(strong);
+    expect(etagMatches(header, etag, true)).toBe(weak);
+  });
+});
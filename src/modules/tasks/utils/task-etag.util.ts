@@ -0,0 +1,40 @@
+import * as crypto from 'crypto';
+import { Task } from '../entities/task.entity';
+
+/**
+ * Strong ETag of a task as GET /tasks/:id serves it. The version only covers the task's own row,
+ * so the digest also takes in what the response embeds from elsewhere (labels, participants,
+ * counts and rollups) and a 304 never hides a change. Related lists are loaded in no particular
+ * order, so they're hashed sorted by id.
+ */
+export function taskEtag(task: Task): string {
+  const body = JSON.stringify(task, (_key, value) =>
+    Array.isArray(value) ? [...value].sort(compareById) : value,
+  );
+  const digest = crypto.createHash('sha1').update(body).digest('base64url').slice(0, 16);
+  return `"${task.version}-${digest}"`;
+}
+
+/**
+ * Whether an If-Match or If-None-Match header lists the ETag (or is "*"). If-Match needs a
+ * strong comparison, where weak validators never match; If-None-Match compares weakly.
+ */
+export function etagMatches(header: string, etag: string, weak = false): boolean {
+  return header
+    .split(',')
+    .map(tag => tag.trim())
+    .some(tag => {
+      if (tag === '*') {
+        return true;
+      }
+      if (tag.startsWith('W/')) {
+        return weak && tag.slice(2) === etag;
+      }
+      return tag === etag;
+    });
+}
+
+function compareById(a: unknown, b: unknown): number {
+  const idOf = (item: unknown) => String((item as { id?: unknown })?.id ?? '');
+  return idOf(a).localeCompare(idOf(b));
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsString } from 'class-validator';
+
+export class AssignRolesDto {
+  @ApiProperty({ example: ['user'], description: 'Role names; replaces the current roles' })
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  roles: string[];
+}
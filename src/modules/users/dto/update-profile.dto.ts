@@ -0,0 +1,7 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreateUserDto } from './create-user.dto';
+
+// Self-service edits; passwords change through the reset flow and roles through an admin
+export class UpdateProfileDto extends PartialType(
+  PickType(CreateUserDto, ['name', 'email'] as const),
+) {}
@@ -1,4 +1,4 @@
 import { PartialType } from '@nestjs/swagger';
 import { CreateUserDto } from './create-user.dto';
 
-export class UpdateUserDto extends PartialType(CreateUserDto) {} 
\ No newline at end of file
+export class UpdateUserDto extends PartialType(CreateUserDto) {}
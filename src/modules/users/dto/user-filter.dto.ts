@@ -0,0 +1,67 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsDateString, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class UserFilterDto {
+  @ApiPropertyOptional({
+    description: 'Filter by role name',
+    example: 'admin',
+  })
+  @IsString()
+  @IsOptional()
+  role?: string;
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive search on email address',
+    example: 'example.com',
+  })
+  @IsString()
+  @IsOptional()
+  email?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by deactivation state',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  deactivated?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Filter users created on or after this date',
+    example: '2025-08-01',
+  })
+  @IsDateString()
+  @IsOptional()
+  createdFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter users created on or before this date',
+    example: '2025-08-31',
+  })
+  @IsDateString()
+  @IsOptional()
+  createdTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'Page number for pagination',
+    example: 1,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of results per page',
+    example: 20,
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 20;
+}
@@ -16,8 +16,24 @@ export class UserResponseDto {
   name: string;
 
   @Expose()
-  @ApiProperty({ example: 'user' })
-  role: string;
+  @ApiProperty({ example: ['user'] })
+  roles: string[];
+
+  @Expose()
+  @ApiProperty({ example: '2023-01-01T00:00:00.000Z', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  @Expose()
+  @ApiProperty({ example: '2023-01-01T00:00:00.000Z', nullable: true })
+  mfaEnabledAt: Date | null;
+
+  @Expose()
+  @ApiProperty({ example: null, nullable: true })
+  deactivatedAt: Date | null;
+
+  @Expose()
+  @ApiProperty({ example: false })
+  passwordResetRequired: boolean;
 
   @Expose()
   @ApiProperty({ example: '2023-01-01T00:00:00.000Z' })
@@ -1,13 +1,37 @@
-import { Column, CreateDateColumn, Entity, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Relation } from 'typeorm';
 import { Task } from '../../tasks/entities/task.entity';
+import { Role } from '../../roles/entities/role.entity';
+import { Organization } from '../../organizations/entities/organization.entity';
 import { Exclude } from 'class-transformer';
 
+// Email addresses are unique within an organization, not across them
 @Entity('users')
+@Index(['organizationId', 'email'], { unique: true })
 export class User {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ unique: true })
+  @Column({ name: 'organization_id', type: 'uuid' })
+  organizationId: string;
+
+  @ManyToOne(() => Organization)
+  @JoinColumn({ name: 'organization_id' })
+  organization: Relation<Organization>;
+
+  @Column()
   email: string;
 
   @Column()
@@ -17,8 +41,39 @@ export class User {
   @Exclude({ toPlainOnly: true })
   password: string;
 
-  @Column({ default: 'user' })
-  role: string;
+  @ManyToMany(() => Role, { eager: true })
+  @JoinTable({
+    name: 'user_roles',
+    joinColumn: { name: 'user_id', referencedColumnName: 'id' },
+    inverseJoinColumn: { name: 'role_id', referencedColumnName: 'id' },
+  })
+  roles: Role[];
+
+  @Column({ name: 'email_verified_at', type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  @Column({ name: 'deactivated_at', type: 'timestamp', nullable: true })
+  deactivatedAt: Date | null;
+
+  // Set by an admin; the account is locked out until the password is reset
+  @Column({ name: 'password_reset_required', default: false })
+  passwordResetRequired: boolean;
+
+  @Column({ name: 'mfa_secret', type: 'varchar', nullable: true })
+  @Exclude({ toPlainOnly: true })
+  mfaSecret: string | null;
+
+  @Column({ name: 'mfa_enabled_at', type: 'timestamp', nullable: true })
+  mfaEnabledAt: Date | null;
+
+  @Column({ name: 'mfa_recovery_codes', type: 'text', array: true, default: '{}' })
+  @Exclude({ toPlainOnly: true })
+  mfaRecoveryCodes: string[];
+
+  // Last accepted TOTP step, so a code can't be replayed within its validity window
+  @Column({ name: 'mfa_last_used_step', type: 'bigint', nullable: true })
+  @Exclude({ toPlainOnly: true })
+  mfaLastUsedStep: string | null;
 
   @OneToMany(() => Task, (task) => task.user)
   tasks: Task[];
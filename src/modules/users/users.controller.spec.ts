@@ -0,0 +1,64 @@
+import { ForbiddenException } from '@nestjs/common';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { User } from './entities/user.entity';
+import { AuthService } from '../auth/auth.service';
+import type { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+
+const admin: AuthenticatedUser = {
+  id: 'admin-1',
+  email: 'admin@example.com',
+  name: 'Admin',
+  organizationId: 'org-1',
+  roles: ['org-admin'],
+  permissions: ['users:read', 'users:manage'],
+  mfaAuthenticated: true,
+};
+
+describe('UsersController', () => {
+  let usersService: { update: jest.Mock };
+  let authService: { logoutAll: jest.Mock };
+  let controller: UsersController;
+
+  beforeEach(() => {
+    usersService = { update: jest.fn(async () => Object.assign(new User(), { id: 'user-1' })) };
+    authService = { logoutAll: jest.fn(async () => ({ revokedSessions: 2 })) };
+    controller = new UsersController(
+      usersService as unknown as UsersService,
+      authService as unknown as AuthService,
+    );
+  });
+
+  describe('update', () => {
+    it("checks the change against the admin's permissions", async () => {
+      await controller.update('user-1', { name: 'Ada' }, admin);
+
+      expect(usersService.update).toHaveBeenCalledWith(
+        'user-1',
+        { name: 'Ada' },
+        admin.permissions,
+      );
+    });
+
+    it('signs the user out everywhere after a password change', async () => {
+      await controller.update('user-1', { password: 'correct-horse' }, admin);
+
+      expect(authService.logoutAll).toHaveBeenCalledWith('user-1');
+    });
+
+    it('keeps the sessions of other changes', async () => {
+      await controller.update('user-1', { name: 'Ada' }, admin);
+
+      expect(authService.logoutAll).not.toHaveBeenCalled();
+    });
+
+    it('keeps the sessions when the change is refused', async () => {
+      usersService.update.mockRejectedValue(new ForbiddenException());
+
+      await expect(
+        controller.update('user-1', { password: 'correct-horse' }, admin),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(authService.logoutAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,46 +1,141 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, ClassSerializerInterceptor, UseInterceptors } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ClassSerializerInterceptor,
+  UseInterceptors,
+  Query,
+  Put,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
 import { UsersService } from './users.service';
+import { AuthService } from '../auth/auth.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UserFilterDto } from './dto/user-filter.dto';
+import { AssignRolesDto } from './dto/assign-roles.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthenticatedUser } from '../auth/strategies/jwt.strategy';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { RequireScopes } from '../auth/decorators/require-scopes.decorator';
+import { TokenScope } from '../auth/enums/token-scope.enum';
+import { PermissionsGuard } from '../roles/guards/permissions.guard';
+import { RequirePermissions } from '../roles/decorators/require-permissions.decorator';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
 
 @ApiTags('users')
 @Controller('users')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@ApiBearerAuth()
 @UseInterceptors(ClassSerializerInterceptor)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    @Inject(forwardRef(() => AuthService))
+    private readonly authService: AuthService,
+  ) {}
 
+  // Self-service routes are declared before ':id' so "me" isn't taken for an id
+  @RequireScopes(TokenScope.USERS_READ)
+  @Get('me')
+  @ApiOperation({ summary: 'Get the current user profile' })
+  findMe(@CurrentUser() user: AuthenticatedUser) {
+    return this.usersService.findOne(user.id);
+  }
+
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @Patch('me')
+  @ApiOperation({ summary: 'Update the current user profile' })
+  updateMe(@CurrentUser() user: AuthenticatedUser, @Body() updateProfileDto: UpdateProfileDto) {
+    return this.usersService.updateProfile(user.id, updateProfileDto);
+  }
+
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
   @Post()
+  @ApiOperation({ summary: 'Create a user account' })
   create(@Body() createUserDto: CreateUserDto) {
     return this.usersService.create(createUserDto);
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
+  @RequireScopes(TokenScope.USERS_READ)
+  @RequirePermissions(PermissionKey.USERS_READ)
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  @ApiOperation({ summary: 'List users with optional filtering' })
+  findAll(@Query() filterDto: UserFilterDto) {
+    return this.usersService.findAll(filterDto);
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
+  @RequireScopes(TokenScope.USERS_READ)
+  @RequirePermissions(PermissionKey.USERS_READ)
   @Get(':id')
+  @ApiOperation({ summary: 'Find a user by ID' })
   findOne(@Param('id') id: string) {
     return this.usersService.findOne(id);
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
-    return this.usersService.update(id, updateUserDto);
+  @ApiOperation({ summary: 'Update a user account' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateUserDto: UpdateUserDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    const updated = await this.usersService.update(id, updateUserDto, user.permissions);
+    // Whoever knew the old password may still hold a session
+    if (updateUserDto.password) {
+      await this.authService.logoutAll(id);
+    }
+    return updated;
+  }
+
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
+  @Put(':id/roles')
+  @ApiOperation({ summary: 'Replace the roles assigned to a user' })
+  assignRoles(
+    @Param('id') id: string,
+    @Body() assignRolesDto: AssignRolesDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.usersService.assignRoles(id, assignRolesDto.roles, user.permissions);
+  }
+
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Deactivate a user account' })
+  deactivate(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.usersService.setDeactivated(id, true, user.permissions, user.id);
+  }
+
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reactivate a user account' })
+  reactivate(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.usersService.setDeactivated(id, false, user.permissions);
   }
 
-  @UseGuards(JwtAuthGuard)
-  @ApiBearerAuth()
+  @RequireScopes(TokenScope.USERS_WRITE)
+  @RequirePermissions(PermissionKey.USERS_MANAGE)
   @Delete(':id')
-  remove(@Param('id') id: string) {
-    return this.usersService.remove(id);
+  @ApiOperation({ summary: 'Delete a user account' })
+  remove(@Param('id') id: string, @CurrentUser() user: AuthenticatedUser) {
+    return this.usersService.remove(id, user.permissions, user.id);
   }
-} 
\ No newline at end of file
+}
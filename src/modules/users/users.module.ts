@@ -1,12 +1,20 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { User } from './entities/user.entity';
+import { RolesModule } from '../roles/roles.module';
+import { TasksModule } from '../tasks/tasks.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([User]),
+    RolesModule,
+    // Deleting a user moves their tasks to the trash; TasksModule depends on this module in turn
+    forwardRef(() => TasksModule),
+    // Password changes by an admin sign the user out through AuthModule, which depends on this one
+    forwardRef(() => AuthModule),
   ],
   controllers: [UsersController],
   providers: [UsersService],
@@ -0,0 +1,162 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { UsersService } from './users.service';
+import { User } from './entities/user.entity';
+import { Role } from '../roles/entities/role.entity';
+import { Permission } from '../roles/entities/permission.entity';
+import { PermissionKey } from '../roles/enums/permission-key.enum';
+import { RolesService } from '../roles/roles.service';
+import { TasksService } from '../tasks/tasks.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
+
+const roleWith = (...keys: string[]) =>
+  Object.assign(new Role(), {
+    name: 'role',
+    permissions: keys.map(key => Object.assign(new Permission(), { key })),
+  });
+
+// Records the conditions of an UPDATE query and reports `affected` rows for it
+function createUpdateQuery(affected: number) {
+  const query = {
+    conditions: [] as [string, Record<string, unknown> | undefined][],
+    values: undefined as Record<string, unknown> | undefined,
+    update: () => query,
+    set: (values: Record<string, unknown>) => {
+      query.values = values;
+      return query;
+    },
+    where: (condition: string, parameters?: Record<string, unknown>) => {
+      query.conditions.push([condition, parameters]);
+      return query;
+    },
+    andWhere: (condition: string, parameters?: Record<string, unknown>) => {
+      query.conditions.push([condition, parameters]);
+      return query;
+    },
+    setParameter: () => query,
+    execute: jest.fn(async () => ({ affected })),
+  };
+  return query;
+}
+
+describe('UsersService', () => {
+  const tenantContext = new TenantContext();
+  let query: ReturnType<typeof createUpdateQuery>;
+  let service: UsersService;
+
+  const withAffected = (affected: number) => {
+    query = createUpdateQuery(affected);
+    service = new UsersService(
+      { createQueryBuilder: () => query } as unknown as Repository<User>,
+      {} as RolesService,
+      tenantContext,
+      {} as TasksService,
+    );
+  };
+
+  describe('claimMfaStep', () => {
+    it('only claims steps later than the last used one', async () => {
+      withAffected(1);
+
+      await expect(
+        tenantContext.run(() => {
+          tenantContext.setTenantId('org-1');
+          return service.claimMfaStep('user-1', 12345);
+        }),
+      ).resolves.toBe(true);
+
+      expect(query.values).toEqual({ mfaLastUsedStep: '12345' });
+      expect(query.conditions).toEqual([
+        ['id = :id', { id: 'user-1' }],
+        ['(mfa_last_used_step IS NULL OR mfa_last_used_step < :step)', { step: 12345 }],
+        ['organization_id = :tenantId', { tenantId: 'org-1' }],
+      ]);
+    });
+
+    it('reports a replay when no row was updated', async () => {
+      withAffected(0);
+
+      await expect(
+        tenantContext.run(() => {
+          tenantContext.setTenantId('org-1');
+          return service.claimMfaStep('user-1', 12345);
+        }),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('managing another user', () => {
+    const orgAdmin = [
+      PermissionKey.USERS_READ,
+      PermissionKey.USERS_MANAGE,
+      PermissionKey.TASKS_MANAGE,
+    ] as string[];
+    const globalAdmin = [
+      ...orgAdmin,
+      PermissionKey.ROLES_MANAGE,
+      PermissionKey.ORGANIZATIONS_MANAGE,
+    ] as string[];
+    let usersRepository: {
+      findOne: jest.Mock;
+      merge: jest.Mock;
+      save: jest.Mock;
+      manager: { transaction: jest.Mock };
+    };
+
+    const inOrganization = <T>(callback: () => Promise<T>) =>
+      tenantContext.run(() => {
+        tenantContext.setTenantId('org-1');
+        return callback();
+      });
+
+    beforeEach(() => {
+      const admin = Object.assign(new User(), {
+        id: 'admin-1',
+        email: 'root@example.com',
+        roles: [roleWith(...globalAdmin)],
+      });
+      usersRepository = {
+        findOne: jest.fn(async () => admin),
+        merge: jest.fn((user, fields) => Object.assign(user, fields)),
+        save: jest.fn(async user => user),
+        manager: { transaction: jest.fn(async () => []) },
+      };
+      service = new UsersService(
+        usersRepository as unknown as Repository<User>,
+        {} as RolesService,
+        tenantContext,
+        { invalidateTaskCache: jest.fn() } as unknown as TasksService,
+      );
+    });
+
+    it.each([
+      [
+        'change the password of',
+        () => service.update('admin-1', { password: 'hunter22' }, orgAdmin),
+      ],
+      [
+        'change the email of',
+        () => service.update('admin-1', { email: 'me@example.com' }, orgAdmin),
+      ],
+      ['deactivate', () => service.setDeactivated('admin-1', true, orgAdmin, 'org-admin-1')],
+      ['reactivate', () => service.setDeactivated('admin-1', false, orgAdmin)],
+      ['delete', () => service.remove('admin-1', orgAdmin, 'org-admin-1')],
+    ] as Array<[string, () => Promise<unknown>]>)(
+      'refuses to %s a user holding permissions the actor lacks',
+      async (_action, act) => {
+        await expect(inOrganization(act)).rejects.toBeInstanceOf(ForbiddenException);
+        expect(usersRepository.save).not.toHaveBeenCalled();
+        expect(usersRepository.manager.transaction).not.toHaveBeenCalled();
+      },
+    );
+
+    it('lets an actor holding every permission of the user manage them', async () => {
+      await expect(
+        inOrganization(() => service.update('admin-1', { name: 'Root' }, globalAdmin)),
+      ).resolves.toMatchObject({ name: 'Root' });
+      await expect(
+        inOrganization(() => service.remove('admin-1', globalAdmin, 'admin-2')),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -1,46 +1,154 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, In, Repository } from 'typeorm';
 import { User } from './entities/user.entity';
+import { Role } from '../roles/entities/role.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UserFilterDto } from './dto/user-filter.dto';
+import { PaginatedResponse } from '../../types/pagination.interface';
+import { RolesService } from '../roles/roles.service';
+import { TasksService } from '../tasks/tasks.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
 import * as bcrypt from 'bcrypt';
 
+// Queries are limited to the organization of the current request (see TenantContext)
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private usersRepository: Repository<User>,
+    private rolesService: RolesService,
+    private tenantContext: TenantContext,
+    @Inject(forwardRef(() => TasksService))
+    private tasksService: TasksService,
   ) {}
 
+  // New accounts join the organization of the current request
   async create(createUserDto: CreateUserDto): Promise<User> {
+    const organizationId = this.tenantContext.getTenantId();
+    if (!organizationId) {
+      throw new BadRequestException('No organization to create the user in');
+    }
+
+    await this.assertEmailAvailable(createUserDto.email);
     const hashedPassword = await bcrypt.hash(createUserDto.password, 10);
     const user = this.usersRepository.create({
       ...createUserDto,
+      organizationId,
       password: hashedPassword,
+      roles: await this.rolesService.findDefaultRoles(),
     });
     return this.usersRepository.save(user);
   }
 
-  findAll(): Promise<User[]> {
-    return this.usersRepository.find();
+  async findAll(filter: UserFilterDto): Promise<PaginatedResponse<User>> {
+    const { role, email, deactivated, createdFrom, createdTo, page = 1, limit = 20 } = filter;
+
+    const query = this.usersRepository
+      .createQueryBuilder('user')
+      .leftJoinAndSelect('user.roles', 'role')
+      .leftJoinAndSelect('role.permissions', 'permission')
+      .orderBy('user.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    this.tenantContext.scopeQuery(query, 'user.organizationId');
+
+    if (role) {
+      // Filter through a subquery so the matched users still come back with all of their roles
+      query.andWhere(
+        `EXISTS (SELECT 1 FROM user_roles ur JOIN roles r ON r.id = ur.role_id
+          WHERE ur.user_id = user.id AND r.name = :role)`,
+        { role },
+      );
+    }
+    if (email) {
+      query.andWhere('user.email ILIKE :email', { email: `%${email}%` });
+    }
+    if (deactivated !== undefined) {
+      query.andWhere(deactivated ? 'user.deactivatedAt IS NOT NULL' : 'user.deactivatedAt IS NULL');
+    }
+    if (createdFrom) {
+      query.andWhere('user.createdAt >= :createdFrom', { createdFrom });
+    }
+    if (createdTo) {
+      query.andWhere('user.createdAt <= :createdTo', { createdTo });
+    }
+
+    const [data, total] = await query.getManyAndCount();
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
   }
 
   async findOne(id: string): Promise<User> {
-    const user = await this.usersRepository.findOne({ where: { id } });
+    const user = await this.usersRepository.findOne({ where: this.tenantContext.scope({ id }) });
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
     return user;
   }
 
+  findByIds(ids: string[]): Promise<User[]> {
+    return ids.length
+      ? this.usersRepository.findBy(this.tenantContext.scope({ id: In(ids) }))
+      : Promise.resolve([]);
+  }
+
   async findByEmail(email: string): Promise<User | null> {
-    return this.usersRepository.findOne({ where: { email } });
+    return this.usersRepository.findOne({ where: this.tenantContext.scope({ email }) });
   }
 
-  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
+  /**
+   * Resolves lowercased emails and name handles (the name without whitespace) to active users.
+   */
+  async findByMentions(emails: string[], handles: string[]): Promise<User[]> {
+    if (!emails.length && !handles.length) {
+      return [];
+    }
+
+    const query = this.usersRepository
+      .createQueryBuilder('user')
+      .where('user.deactivatedAt IS NULL')
+      .andWhere(
+        new Brackets(qb => {
+          if (emails.length) {
+            qb.orWhere('LOWER(user.email) IN (:...emails)', { emails });
+          }
+          if (handles.length) {
+            qb.orWhere("LOWER(REGEXP_REPLACE(user.name, '\\s+', '', 'g')) IN (:...handles)", {
+              handles,
+            });
+          }
+        }),
+      );
+
+    return this.tenantContext.scopeQuery(query, 'user.organizationId').getMany();
+  }
+
+  async update(
+    id: string,
+    updateUserDto: UpdateUserDto,
+    actorPermissions: string[],
+  ): Promise<User> {
     const user = await this.findOne(id);
-    
+    this.assertCanManage(user, actorPermissions);
+
+    if (updateUserDto.email && updateUserDto.email !== user.email) {
+      await this.assertEmailAvailable(updateUserDto.email);
+    }
     if (updateUserDto.password) {
       updateUserDto.password = await bcrypt.hash(updateUserDto.password, 10);
     }
@@ -49,8 +157,152 @@ export class UsersService {
     return this.usersRepository.save(user);
   }
 
-  async remove(id: string): Promise<void> {
+  async updateProfile(id: string, updateProfileDto: UpdateProfileDto): Promise<User> {
     const user = await this.findOne(id);
-    await this.usersRepository.remove(user);
+
+    if (updateProfileDto.email && updateProfileDto.email !== user.email) {
+      await this.assertEmailAvailable(updateProfileDto.email);
+      // A new address has to be verified again
+      user.emailVerifiedAt = null;
+    }
+
+    this.usersRepository.merge(user, updateProfileDto);
+    return this.usersRepository.save(user);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Replaces the user's roles. Roles carrying permissions the acting user doesn't hold are
+   * refused, so e.g. an org admin can't hand out global admin.
+   */
+  async assignRoles(
+    id: string,
+    roleNames: string[],
+    grantablePermissions: string[],
+  ): Promise<User> {
+    const user = await this.findOne(id);
+    const roles = await this.rolesService.findByNames(roleNames);
+
+    const withheld = withheldPermissions(roles, grantablePermissions);
+    if (withheld.length) {
+      throw new ForbiddenException(
+        `You cannot grant permissions you do not hold: ${withheld.join(', ')}`,
+      );
+    }
+
+    user.roles = roles;
+    return this.usersRepository.save(user);
+  }
+
+  /**
+   * Refuses admin actions on a user who holds permissions the acting user doesn't, for the same
+   * reason assignRoles refuses to grant them: an org admin could otherwise take over or lock out
+   * a global admin by changing their password or deactivating them.
+   */
+  assertCanManage(user: User, actorPermissions: string[]) {
+    const withheld = withheldPermissions(user.roles, actorPermissions);
+    if (withheld.length) {
+      throw new ForbiddenException(
+        `You cannot manage a user with permissions you do not hold: ${withheld.join(', ')}`,
+      );
+    }
+  }
+
+  async setDeactivated(
+    id: string,
+    deactivated: boolean,
+    actorPermissions: string[],
+    actingUserId?: string,
+  ): Promise<User> {
+    if (deactivated && id === actingUserId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    const user = await this.findOne(id);
+    this.assertCanManage(user, actorPermissions);
+    user.deactivatedAt = deactivated ? (user.deactivatedAt ?? new Date()) : null;
+    return this.usersRepository.save(user);
+  }
+
+  async requirePasswordReset(id: string): Promise<void> {
+    await this.usersRepository.update(this.tenantContext.scope({ id }), {
+      passwordResetRequired: true,
+    });
+  }
+
+  async setPassword(id: string, password: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    await this.usersRepository.update(this.tenantContext.scope({ id }), {
+      password: hashedPassword,
+      passwordResetRequired: false,
+    });
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    await this.usersRepository.update(this.tenantContext.scope({ id }), {
+      emailVerifiedAt: new Date(),
+    });
+  }
+
+  async updateMfa(
+    id: string,
+    fields: Partial<
+      Pick<User, 'mfaSecret' | 'mfaEnabledAt' | 'mfaRecoveryCodes' | 'mfaLastUsedStep'>
+    >,
+  ): Promise<void> {
+    await this.usersRepository.update(this.tenantContext.scope({ id }), fields);
+  }
+
+  /**
+   * Records a TOTP step as used. Returns false when the same or a later step
+   * was already accepted, i.e. the code is being replayed.
+   */
+  async claimMfaStep(id: string, step: number): Promise<boolean> {
+    const query = this.usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ mfaLastUsedStep: String(step) })
+      .where('id = :id', { id })
+      .andWhere('(mfa_last_used_step IS NULL OR mfa_last_used_step < :step)', { step });
+    const result = await this.tenantContext.scopeQuery(query, 'organization_id').execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  async consumeMfaRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const query = this.usersRepository
+      .createQueryBuilder()
+      .update(User)
+      .set({ mfaRecoveryCodes: () => 'array_remove(mfa_recovery_codes, :codeHash)' })
+      .where('id = :id', { id })
+      .andWhere(':codeHash = ANY(mfa_recovery_codes)')
+      .setParameter('codeHash', codeHash);
+    const result = await this.tenantContext.scopeQuery(query, 'organization_id').execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  private async assertEmailAvailable(email: string) {
+    if (await this.findByEmail(email)) {
+      throw new ConflictException('Email already exists');
+    }
+  }
+
+  // The user's tasks go to the trash rather than with the account; they can be restored to
+  // another owner until they're purged
+  async remove(id: string, actorPermissions: string[], actingUserId?: string): Promise<void> {
+    const user = await this.findOne(id);
+    this.assertCanManage(user, actorPermissions);
+    const trashedIds = await this.usersRepository.manager.transaction(async manager => {
+      const taskIds = await this.tasksService.trashOwnedBy(manager, user.id, actingUserId);
+      await manager.remove(user);
+      return taskIds;
+    });
+
+    await this.tasksService.invalidateTaskCache(trashedIds);
+  }
+}
+
+function withheldPermissions(roles: Role[], heldPermissions: string[]): string[] {
+  const keys = roles.flatMap(role => role.permissions.map(permission => permission.key));
+  return [...new Set(keys.filter(key => !heldPermissions.includes(key)))];
+}
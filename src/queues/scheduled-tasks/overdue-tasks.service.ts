@@ -7,6 +7,7 @@ import { LessThan, Repository } from 'typeorm';
 import { Task } from '../../modules/tasks/entities/task.entity';
 import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
 import { TasksService } from '@modules/tasks/tasks.service';
+import { TenantContext } from '@common/tenancy/tenant-context.service';
 
 @Injectable()
 export class OverdueTasksService {
@@ -16,6 +17,7 @@ export class OverdueTasksService {
     @InjectQueue('task-processing')
     private taskQueue: Queue,
     private taskService: TasksService,
+    private tenantContext: TenantContext,
     // @InjectRepository(Task)
     // private tasksRepository: Repository<Task>,
   ) { }
@@ -29,13 +31,13 @@ export class OverdueTasksService {
     try {
       const now = new Date();
 
-      // 1. Find overdue tasks
+      // 1. Find overdue tasks (across every organization)
       const overdueTasks:any = 
-      await this.taskService.findOverdueTasks({
+      await this.tenantContext.runUnscoped(() =>
+        this.taskService.findOverdueTasks({
           dueDate: LessThan(now),
           status: TaskStatus.PENDING,
-        },
-      //   select: ['id'], // Only fetch what you need for queueing
+        }),
       );
 
       this.logger.log(`Found ${overdueTasks.length} overdue tasks`);
@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TaskRecurrencesService } from '@modules/tasks/task-recurrences.service';
+import { TenantContext } from '@common/tenancy/tenant-context.service';
+
+@Injectable()
+export class RecurringTasksService {
+  private readonly logger = new Logger(RecurringTasksService.name);
+
+  constructor(
+    private readonly taskRecurrencesService: TaskRecurrencesService,
+    private readonly tenantContext: TenantContext,
+  ) {}
+
+  // Safe to run on every instance; see TaskRecurrencesService.generateDueOccurrences
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async generateOccurrences() {
+    try {
+      // Covers the series of every organization
+      const generated = await this.tenantContext.runUnscoped(() =>
+        this.taskRecurrencesService.generateDueOccurrences(),
+      );
+      if (generated) {
+        this.logger.log(`Generated ${generated} recurring task occurrences`);
+      }
+      return generated;
+    } catch (error) {
+      this.logger.error(
+        'Error while generating recurring task occurrences',
+        error instanceof Error ? error.stack : String(error),
+      );
+      return 0;
+    }
+  }
+}
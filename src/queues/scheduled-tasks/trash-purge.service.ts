@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TasksService } from '@modules/tasks/tasks.service';
+import { TenantContext } from '@common/tenancy/tenant-context.service';
+
+@Injectable()
+export class TrashPurgeService {
+  private readonly logger = new Logger(TrashPurgeService.name);
+
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly tenantContext: TenantContext,
+  ) {}
+
+  // Retention is set by TASKS_TRASH_RETENTION_DAYS; see TasksService.purgeExpiredTrash
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredTrash() {
+    try {
+      // Covers the trash of every organization
+      const purged = await this.tenantContext.runUnscoped(() =>
+        this.tasksService.purgeExpiredTrash(),
+      );
+      if (purged) {
+        this.logger.log(`Purged ${purged} tasks from the trash`);
+      }
+      return purged;
+    } catch (error) {
+      this.logger.error(
+        'Error while purging the task trash',
+        error instanceof Error ? error.stack : String(error),
+      );
+      return 0;
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { TaskProcessorService } from './task-processor.service';
 import { TasksModule } from '../../modules/tasks/tasks.module';
+import { UsersModule } from '../../modules/users/users.module';
+import { MailModule } from '../../modules/mail/mail.module';
 
 @Module({
   imports: [
@@ -9,6 +11,8 @@ import { TasksModule } from '../../modules/tasks/tasks.module';
       name: 'task-processing',
     }),
     TasksModule,
+    UsersModule,
+    MailModule,
   ],
   providers: [TaskProcessorService],
   exports: [TaskProcessorService],
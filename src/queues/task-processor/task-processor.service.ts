@@ -1,7 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq';
 import { Job, Queue } from 'bullmq';
+import { ConfigService } from '@nestjs/config';
 import { TasksService } from '../../modules/tasks/tasks.service';
+import { COMMENT_MENTION_JOB } from '../../modules/tasks/task-comments.service';
+import {
+  TASK_UNBLOCKED_JOB,
+  TaskDependenciesService,
+} from '../../modules/tasks/task-dependencies.service';
+import { TaskParticipantsService } from '../../modules/tasks/task-participants.service';
+import {
+  ATTACHMENT_CLEANUP_JOB,
+  TaskAttachmentsService,
+} from '../../modules/tasks/task-attachments.service';
+import { TaskStatus } from '../../modules/tasks/enums/task-status.enum';
+import { TaskActivitySource } from '../../modules/tasks/enums/task-activity-source.enum';
+import { UsersService } from '../../modules/users/users.service';
+import { MailService } from '../../modules/mail/mail.service';
+import { TenantContext } from '../../common/tenancy/tenant-context.service';
 
 
 @Injectable()
@@ -11,17 +27,32 @@ export class TaskProcessorService extends WorkerHost {
   private readonly VALID_STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
   private readonly logger = new Logger(TaskProcessorService.name);
 
-  constructor(private readonly tasksService: TasksService,@InjectQueue('task-processing')
-      private taskQueue: Queue,) {
+  constructor(
+    private readonly tasksService: TasksService,
+    @InjectQueue('task-processing')
+    private taskQueue: Queue,
+    private readonly usersService: UsersService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+    private readonly taskDependenciesService: TaskDependenciesService,
+    private readonly taskParticipantsService: TaskParticipantsService,
+    private readonly taskAttachmentsService: TaskAttachmentsService,
+    private readonly tenantContext: TenantContext,
+  ) {
     super();
   }
 
+  // Jobs aren't tied to a request or organization; they act on the records they're given
+  process(job: Job): Promise<unknown> {
+    return this.tenantContext.runUnscoped(() => this.processJob(job));
+  }
+
   // Inefficient implementation:
   // - No proper job batching ✅
   // - No error handling strategy   ✅
   // - No retries for failed jobs   ✅
   // - No concurrency control       ✅
-  async process(job: Job): Promise<any> {
+  private async processJob(job: Job): Promise<unknown> {
     this.logger.debug(`Processing job ${job.id} of type ${job.name}`);
 
     try {
@@ -32,6 +63,15 @@ export class TaskProcessorService extends WorkerHost {
         case 'overdue-tasks-notification':
           return await this.handleOverdueTasks(job);
 
+        case COMMENT_MENTION_JOB:
+          return await this.handleCommentMention(job);
+
+        case TASK_UNBLOCKED_JOB:
+          return await this.handleTaskUnblocked(job);
+
+        case ATTACHMENT_CLEANUP_JOB:
+          return await this.handleAttachmentCleanup(job);
+
         default:
           this.logger.warn(`Unknown job type: ${job.name}`);
           return { success: false, error: 'Unknown job type' };
@@ -57,7 +97,7 @@ export class TaskProcessorService extends WorkerHost {
 
 
   private async handleStatusUpdate(job: Job) {
-    const { taskId, status } = job.data;
+    const { taskId, status, previousStatus, changedBy } = job.data;
 
     // 1) Validate input
     if (!taskId || !status) {
@@ -76,7 +116,20 @@ export class TaskProcessorService extends WorkerHost {
 
       try {
         // 3) Transaction-safe status update
-        const updatedTask = await this.tasksService.updateStatus(taskId, status);
+        const updatedTask = await this.tasksService.updateStatus(
+          taskId,
+          status,
+          changedBy,
+          TaskActivitySource.JOB,
+        );
+
+        if (status === TaskStatus.COMPLETED) {
+          await this.emitUnblocked(taskId);
+        }
+        // Only jobs for an actual change carry the previous status (not e.g. overdue re-checks)
+        if (previousStatus && previousStatus !== status) {
+          await this.notifyStatusChange(taskId, previousStatus, status, changedBy);
+        }
 
         return {
           success: true,
@@ -99,6 +152,108 @@ export class TaskProcessorService extends WorkerHost {
     };
   }
 
+  // Dependents whose last open blocker just completed get a task-unblocked event
+  private async emitUnblocked(blockerId: string) {
+    const dependents = await this.taskDependenciesService.findUnblockedDependents(blockerId);
+
+    if (!dependents.length) {
+      return;
+    }
+
+    await this.taskQueue.addBulk(
+      dependents.map(task => ({
+        name: TASK_UNBLOCKED_JOB,
+        data: { taskId: task.id, blockerId },
+        // A retried status job must not announce the same unblock twice
+        opts: { jobId: `${TASK_UNBLOCKED_JOB}-${task.id}-${blockerId}` },
+      })),
+    );
+  }
+
+  // Assignees and watchers hear about the change, except whoever made it
+  private async notifyStatusChange(
+    taskId: string,
+    previousStatus: string,
+    status: string,
+    changedBy?: string,
+  ) {
+    const recipients = await this.taskParticipantsService.findRecipients(taskId, changedBy);
+
+    if (!recipients.length) {
+      return;
+    }
+
+    const task = await this.tasksService.findOne(taskId);
+    const [actor] = changedBy ? await this.usersService.findByIds([changedBy]) : [];
+    const link = `${this.configService.get('APP_URL', 'http://localhost:3000')}/tasks/${taskId}`;
+
+    for (const recipient of recipients) {
+      await this.mailService.send({
+        to: recipient.email,
+        subject: `"${task.title}" is now ${status}`,
+        text: `Hi ${recipient.name},\n\n${actor?.name ?? 'Someone'} moved "${task.title}" from ${previousStatus} to ${status}:\n${link}`,
+      });
+    }
+  }
+
+  private async handleTaskUnblocked(job: Job) {
+    const { taskId, blockerId } = job.data;
+
+    if (!taskId || !blockerId) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const task = await this.tasksService.findOne(taskId);
+    const blocker = await this.tasksService.findOne(blockerId);
+    const link = `${this.configService.get('APP_URL', 'http://localhost:3000')}/tasks/${taskId}`;
+
+    const notified = await this.mailService.send({
+      to: task.user.email,
+      subject: `"${task.title}" is ready to start`,
+      text: `Hi ${task.user.name},\n\n"${blocker.title}" was completed, so "${task.title}" is no longer blocked:\n${link}`,
+    });
+
+    return { success: true, taskId, notified };
+  }
+
+  private async handleAttachmentCleanup(job: Job) {
+    const { storageKeys } = job.data;
+
+    if (!Array.isArray(storageKeys) || !storageKeys.length) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    await this.taskAttachmentsService.deleteBlobs(storageKeys);
+    return { success: true, deleted: storageKeys.length };
+  }
+
+  private async handleCommentMention(job: Job) {
+    const { taskId, authorId, userIds } = job.data;
+
+    if (!taskId || !Array.isArray(userIds) || !userIds.length) {
+      return { success: false, error: 'Missing required data' };
+    }
+
+    const task = await this.tasksService.findOne(taskId);
+    const [author] = authorId ? await this.usersService.findByIds([authorId]) : [];
+    const recipients = await this.usersService.findByIds(userIds);
+    const link = `${this.configService.get('APP_URL', 'http://localhost:3000')}/tasks/${taskId}`;
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      const delivered = await this.mailService.send({
+        to: recipient.email,
+        subject: `${author?.name ?? 'Someone'} mentioned you on "${task.title}"`,
+        text: `Hi ${recipient.name},\n\nYou were mentioned in a comment on "${task.title}":\n${link}`,
+      });
+      if (delivered) {
+        sent++;
+      }
+    }
+
+    return { success: true, notified: sent, skipped: recipients.length - sent };
+  }
+
   private readonly CHUNK_SIZE = 50;
 
   private async handleOverdueTasks(job: Job) {
@@ -8,4 +8,5 @@ process.env.DB_HOST = 'localhost';
 process.env.DB_PORT = '5432';
 process.env.DB_USERNAME = 'postgres';
 process.env.DB_PASSWORD = 'postgres';
-process.env.DB_DATABASE = 'taskflow_test'; 
\ No newline at end of file
+process.env.DB_DATABASE = 'taskflow_test';
+process.env.CACHE_DRIVER = 'memory';